@@ -1,18 +1,19 @@
 import { Provider } from 'react-redux';
-import { Routes, Route, useParams, useNavigate, useLocation } from 'react-router-dom';
+import { Routes, Route, useParams, useNavigate } from 'react-router-dom';
 import { store } from './store/index';
 import { useState, useEffect } from 'react';
 import CanvasNew from './components/CanvasNew';
 import FileEditor from './components/FileEditor';
 import DataLoader from './components/DataLoader';
 import ProjectManager from './components/ProjectManager';
+import PresenceAvatars from './components/PresenceAvatars';
+import FolderBreadcrumb from './components/FolderBreadcrumb';
 import './App.css';
 
 // Project Canvas Component that handles URL parameters
 function ProjectCanvas() {
-  const { projectId } = useParams<{ projectId: string }>();
+  const { projectId, folderId } = useParams<{ projectId: string; folderId?: string }>();
   const navigate = useNavigate();
-  const location = useLocation();
   const [showProjectManager, setShowProjectManager] = useState<boolean>(false);
 
   // Redirect to project manager if no projectId
@@ -22,10 +23,6 @@ function ProjectCanvas() {
     }
   }, [projectId, navigate]);
 
-  // Extract folder info from URL path
-  const pathParts = location.pathname.split('/');
-  const activeFolderId = pathParts.length > 3 && pathParts[2] === 'folder' ? pathParts[3] : null;
-
   if (!projectId) {
     return null;
   }
@@ -37,18 +34,10 @@ function ProjectCanvas() {
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <h1 className="text-xl font-bold">Visual File System Explorer</h1>
-            <div className="flex items-center space-x-2 text-sm text-gray-300">
-              <span>Project:</span>
-              <span className="font-medium text-white">{projectId}</span>
-              {activeFolderId && (
-                <>
-                  <span className="text-gray-400">/</span>
-                  <span className="font-medium text-blue-300">Folder: {activeFolderId}</span>
-                </>
-              )}
-            </div>
+            <FolderBreadcrumb projectId={projectId} folderId={folderId} />
           </div>
           <div className="flex items-center space-x-4">
+            <PresenceAvatars />
             <button
               onClick={() => setShowProjectManager(!showProjectManager)}
               className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm transition-colors"
@@ -84,7 +73,7 @@ function ProjectCanvas() {
 
         {/* Canvas Area */}
         <main className="flex-1 relative overflow-hidden">
-          <CanvasNew projectId={projectId} />
+          <CanvasNew projectId={projectId} folderId={folderId} />
         </main>
       </div>
     </>
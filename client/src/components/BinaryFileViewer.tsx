@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { Binary, Eye } from 'lucide-react';
+import { decodeBase64, getPreviewKind } from '../utils/binaryFiles';
+
+interface BinaryFileViewerProps {
+  content: string; // base64
+  mimeType: string;
+  fontSize: number;
+  theme: 'vs-dark' | 'light';
+}
+
+const HEX_ROW_BYTES = 16;
+// Larger files show only their start; rendering every row of a 5 MB file would stall the page
+const MAX_HEX_BYTES = 64 * 1024;
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const toHex = (value: number, width: number) => value.toString(16).padStart(width, '0');
+
+// Offset, the bytes in hex with a gap after the eighth, and the printable ASCII characters
+const formatHexRows = (bytes: Uint8Array) => {
+  const rows: { offset: string; hex: string; ascii: string }[] = [];
+  for (let start = 0; start < bytes.length; start += HEX_ROW_BYTES) {
+    const row = Array.from(bytes.subarray(start, start + HEX_ROW_BYTES));
+    const hex = row.map((byte, index) => `${index === 8 ? ' ' : ''}${toHex(byte, 2)}`).join(' ');
+    const ascii = row.map(byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    rows.push({ offset: toHex(start, 8), hex, ascii });
+  }
+  return rows;
+};
+
+// Read-only view of a binary file: images, audio and video play in the browser, anything else is shown as hex
+const BinaryFileViewer: React.FC<BinaryFileViewerProps> = ({ content, mimeType, fontSize, theme }) => {
+  const kind = getPreviewKind(mimeType);
+  const [showHex, setShowHex] = useState(kind === 'hex');
+  const [mediaError, setMediaError] = useState(false);
+
+  const bytes = useMemo(() => {
+    try {
+      return decodeBase64(content);
+    } catch (error) {
+      console.error('Error decoding binary file:', error);
+      return null;
+    }
+  }, [content]);
+  const rows = useMemo(
+    () => (showHex && bytes ? formatHexRows(bytes.subarray(0, MAX_HEX_BYTES)) : []),
+    [showHex, bytes]
+  );
+
+  const source = `data:${mimeType};base64,${content}`;
+  const dark = theme === 'vs-dark';
+
+  if (!bytes) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-red-600">
+        This file's content is damaged and cannot be shown.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 text-sm text-gray-600 bg-gray-50 border-b border-gray-200">
+        <span>
+          {mimeType} · {formatSize(bytes.length)} · read-only
+        </span>
+        {kind !== 'hex' && (
+          <div className="flex items-center rounded border border-gray-200 overflow-hidden">
+            <button
+              onClick={() => setShowHex(false)}
+              className={`flex items-center space-x-1 px-2 py-1 text-xs font-medium ${
+                showHex ? 'bg-white text-gray-600 hover:bg-gray-100' : 'bg-blue-100 text-blue-700'
+              }`}
+              title="Preview"
+            >
+              <Eye size={12} />
+              <span>Preview</span>
+            </button>
+            <button
+              onClick={() => setShowHex(true)}
+              className={`flex items-center space-x-1 px-2 py-1 text-xs font-medium border-l border-gray-200 ${
+                showHex ? 'bg-blue-100 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-100'
+              }`}
+              title="Hex view"
+            >
+              <Binary size={12} />
+              <span>Hex</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showHex ? (
+        <div className={`flex-1 overflow-auto font-mono ${dark ? 'bg-gray-900 text-gray-200' : 'bg-white text-gray-800'}`}>
+          <div className="p-4 whitespace-pre" style={{ fontSize }}>
+            {rows.map(row => (
+              <div key={row.offset}>
+                <span className={dark ? 'text-gray-500' : 'text-gray-400'}>{row.offset}</span>
+                {'  '}
+                {row.hex.padEnd(HEX_ROW_BYTES * 3, ' ')}
+                {'  '}
+                <span className={dark ? 'text-green-300' : 'text-green-700'}>{row.ascii}</span>
+              </div>
+            ))}
+            {bytes.length === 0 && <span className="text-gray-500">This file is empty.</span>}
+          </div>
+          {bytes.length > MAX_HEX_BYTES && (
+            <p className="px-4 pb-4 text-xs text-gray-500">
+              Showing the first {formatSize(MAX_HEX_BYTES)} of {formatSize(bytes.length)}. Download the file to see all of it.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex items-center justify-center p-6 bg-[repeating-conic-gradient(#f3f4f6_0%_25%,#ffffff_0%_50%)] bg-[length:20px_20px]">
+          {mediaError ? (
+            <p className="text-sm text-gray-500">Your browser cannot play this file. Switch to the hex view to inspect it.</p>
+          ) : kind === 'image' ? (
+            <img src={source} alt="" className="max-w-full max-h-full object-contain shadow" onError={() => setMediaError(true)} />
+          ) : kind === 'audio' ? (
+            <audio src={source} controls className="w-full max-w-lg" onError={() => setMediaError(true)} />
+          ) : (
+            <video src={source} controls className="max-w-full max-h-full bg-black" onError={() => setMediaError(true)} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BinaryFileViewer;
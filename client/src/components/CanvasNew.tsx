@@ -1,5 +1,6 @@
-import React, { useCallback, useState, useMemo, useEffect } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import React, { useCallback, useState, useMemo, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { useHotkeys } from "react-hotkeys-hook";
 import {
   SiPython,
   SiJavascript,
@@ -24,8 +25,9 @@ import ReactFlow, {
   MarkerType,
   Handle,
   Position,
+  Panel,
 } from "reactflow";
-import type { Node, Edge } from "reactflow";
+import type { Node, Edge, OnSelectionChangeParams, ReactFlowInstance } from "reactflow";
 import "reactflow/dist/style.css";
 import {
   Folder,
@@ -40,22 +42,117 @@ import {
   Music,
   Video,
   Archive,
+  Edit3,
+  Copy,
+  Scissors,
+  ClipboardPaste,
+  CopyPlus,
+  Undo2,
+  Redo2,
+  Network,
+  Check,
+  ChevronDown,
+  FileArchive,
+  Download,
   X,
+  Camera,
+  Upload,
+  Search,
+  ReplaceAll,
+  Focus,
 } from "lucide-react";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import {
   selectNode,
   toggleFolderAPI,
+  updateFolderExpandedAPI,
   createNodeAPI,
   deleteNodeAPI,
-  updateNodePosition,
+  renameNodeAPI,
+  moveNodeAPI,
+  moveNodesAPI,
+  deleteNodesAPI,
+  restoreFromTrashAPI,
+  setFoldersExpandedAPI,
+  setSelectedNodes,
+  clearSelection,
+  setLayoutMode,
+  copyNodes,
+  cutNodes,
+  pasteNodesAPI,
+  duplicateNodesAPI,
+  importZipAPI,
+  uploadNodesAPI,
+  findNodeById,
+  isSameOrDescendant,
+  getTopLevelIds,
+  updateNodePositions,
   updateNodePositionAPI,
+  updateNodePositionsAPI,
   setCurrentProject,
   fetchFileSystemTree,
+  restoreSnapshotAPI,
+  replaceInProjectAPI,
+  getAncestorIds,
 } from "../store/fileSystemSlice";
-import { openEditor, openEditorAndLoadContent, loadFileContent } from "../store/editorSlice";
-import type { FileSystemNode } from "../types/index";
+import { openEditor, openEditorAndLoadContent, loadFileContent, revealInEditor } from "../store/editorSlice";
+import { undo, redo } from "../store/historySlice";
+import { fetchTrashAPI, deleteFromTrashAPI, emptyTrashAPI } from "../store/trashSlice";
+import { realtimeService } from "../services/realtime";
+import { fileSystemAPI } from "../services/api";
+import type {
+  EditorReveal,
+  FileSystemNode,
+  LayoutMode,
+  NodePosition,
+  PresenceUser,
+  ProjectSnapshotSummary,
+  ReplaceOptions,
+  ReplaceTarget,
+} from "../types/index";
 import { FaJava, FaPhp } from "react-icons/fa";
+import {
+  LAYOUT_MODES,
+  computeLayout,
+  getChildPosition,
+  getNodeWidth,
+  getStackedChildPositions,
+} from "../utils/layout";
+import { getInitials } from "../utils/user";
+import SelectionToolbar from "./SelectionToolbar";
+import MoveToFolderModal from "./MoveToFolderModal";
+import ZipImportReport from "./ZipImportReport";
+import type { ZipImportSummary } from "./ZipImportReport";
+import DropUploadOverlay from "./DropUploadOverlay";
+import type { DropConflictChoice, DropUploadState } from "./DropUploadOverlay";
+import {
+  collectDroppedItems,
+  countNodes,
+  findDropConflicts,
+  planDropUpload,
+  readDroppedItems,
+} from "../utils/fileDrop";
+import type { DroppedItem } from "../utils/fileDrop";
+import TrashPanel from "./TrashPanel";
+import SnapshotsPanel from "./SnapshotsPanel";
+import SearchPanel from "./SearchPanel";
+import ReplacePanel from "./ReplacePanel";
+import QuickOpenDialog from "./QuickOpenDialog";
+import type { QuickOpenFile } from "./QuickOpenDialog";
+import { getRecentFiles } from "../utils/recentFiles";
+
+// Keys that add or remove nodes from the selection when clicking (Shift+drag draws a selection box)
+const MULTI_SELECTION_KEYS = ["Shift", "Control", "Meta"];
+
+// Pixels moved per arrow key press (Shift for a bigger step)
+const NUDGE_STEP = 10;
+const NUDGE_STEP_LARGE = 50;
+
+// How long "Arrange" takes to animate nodes to their new spots
+const ARRANGE_DURATION = 500;
+
+// Shared empty list, so nodes nobody has open keep the same props between renders
+const NO_EDITORS: PresenceUser[] = [];
 
 // Custom Node Component
 interface CustomNodeData {
@@ -64,7 +161,12 @@ interface CustomNodeData {
   onSelect: (nodeId: string) => void;
   onContextMenu: (e: React.MouseEvent, node: FileSystemNode) => void;
   isSelected: boolean;
+  isCut: boolean;
+  isRenaming: boolean;
+  onRenameSubmit: (node: FileSystemNode, name: string) => void;
+  onRenameCancel: () => void;
   parentNode?: FileSystemNode;
+  editors: PresenceUser[]; // Other users who have this file open
 }
 
 // Function to get file icon based on extension
@@ -173,6 +275,16 @@ const getFileIcon = (fileName: string, size: number = 20) => {
   }
 };
 
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (element.tagName === "INPUT" ||
+      element.tagName === "TEXTAREA" ||
+      element.isContentEditable)
+  );
+};
+
 const CustomNode: React.FC<{ data: CustomNodeData }> = ({ data }) => {
   const {
     fileSystemNode: node,
@@ -180,20 +292,44 @@ const CustomNode: React.FC<{ data: CustomNodeData }> = ({ data }) => {
     onSelect,
     onContextMenu,
     isSelected,
+    isCut,
+    isRenaming,
+    onRenameSubmit,
+    onRenameCancel,
+    editors,
   } = data;
+  const [renameValue, setRenameValue] = useState(node.name);
 
-  const handleClick = useCallback(() => {
+  // Reset the input every time inline editing starts
+  useEffect(() => {
+    if (isRenaming) {
+      setRenameValue(node.name);
+    }
+  }, [isRenaming, node.name]);
+
+  const submitRename = useCallback(() => {
+    const trimmed = renameValue.trim();
+    if (!trimmed || trimmed === node.name) {
+      onRenameCancel();
+      return;
+    }
+    onRenameSubmit(node, trimmed);
+  }, [renameValue, node, onRenameSubmit, onRenameCancel]);
+
+  const handleClick = useCallback((e: React.MouseEvent) => {
+    // Modifier clicks only change the selection, which React Flow handles
+    if (isRenaming || e.shiftKey || e.ctrlKey || e.metaKey) return;
     onSelect(node.id);
     if (node.type === "folder") {
       onDoubleClick(node);
     }
-  }, [node.id, node.type, onSelect, onDoubleClick]);
+  }, [node.id, node.type, isRenaming, onSelect, onDoubleClick]);
 
   const handleDoubleClick = useCallback(() => {
-    if (node.type === "file") {
+    if (node.type === "file" && !isRenaming) {
       onDoubleClick(node);
     }
-  }, [node, onDoubleClick]);
+  }, [node, isRenaming, onDoubleClick]);
 
   const handleRightClick = useCallback(
     (e: React.MouseEvent) => {
@@ -210,26 +346,10 @@ const CustomNode: React.FC<{ data: CustomNodeData }> = ({ data }) => {
     return getFileIcon(node.name, 20);
   };
 
-  // Calculate dynamic width based on text length
-  const getNodeWidth = () => {
-    const baseWidth = 140;
-    const textLength = node.name.length;
-
-    // Only expand if text is longer than 15 characters
-    if (textLength <= 6) {
-      return baseWidth; // use base width for short/normal names
-    }
-
-    // For long names, calculate width based on character count
-    const charWidth = 9; // pixels per character
-    const calculatedWidth = textLength * charWidth + 90; // +60 for padding and icon
-    return Math.min(calculatedWidth, 400); // max width 400px
-  };
-
   return (
     <div
       className={`
-        flex flex-col space-y-1 p-3 rounded-lg border-2 cursor-pointer
+        relative flex flex-col space-y-1 p-3 rounded-lg border-2 cursor-pointer
         transition-all duration-200 hover:shadow-lg
         ${
           isSelected
@@ -243,8 +363,9 @@ const CustomNode: React.FC<{ data: CustomNodeData }> = ({ data }) => {
               : "bg-gradient-to-br from-gray-50 to-gray-100 border-gray-200"
             : "bg-gradient-to-br from-white to-gray-50"
         }
+        ${isCut ? "opacity-50 border-dashed" : ""}
       `}
-      style={{ width: `${getNodeWidth()}px` }}
+      style={{ width: `${getNodeWidth(node.name)}px` }}
       onClick={handleClick}
       onDoubleClick={handleDoubleClick}
       onContextMenu={handleRightClick}
@@ -294,6 +415,29 @@ const CustomNode: React.FC<{ data: CustomNodeData }> = ({ data }) => {
         </>
       )}
 
+      {/* Presence: who else has this file open */}
+      {editors.length > 0 && (
+        <div
+          className="absolute -top-2.5 -right-2.5 flex -space-x-1.5"
+          title={`Open by ${editors.map(editor => editor.name).join(", ")}`}
+        >
+          {editors.slice(0, 3).map(editor => (
+            <span
+              key={editor.socketId}
+              className="w-5 h-5 rounded-full border-2 border-white text-white text-[9px] font-semibold flex items-center justify-center shadow"
+              style={{ backgroundColor: editor.color }}
+            >
+              {getInitials(editor.name)}
+            </span>
+          ))}
+          {editors.length > 3 && (
+            <span className="w-5 h-5 rounded-full border-2 border-white bg-gray-500 text-white text-[9px] font-semibold flex items-center justify-center shadow">
+              +{editors.length - 3}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Source indicator for child nodes */}
       {/* {parentNode && (
         <div className="flex items-center space-x-1 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
@@ -310,12 +454,33 @@ const CustomNode: React.FC<{ data: CustomNodeData }> = ({ data }) => {
           {getIcon()}
         </div>
         <div className="flex-1">
-          <span
-            className="text-sm font-medium text-gray-800 whitespace-nowrap "
-            title={node.name}
-          >
-            {node.name}
-          </span>
+          {isRenaming ? (
+            <input
+              type="text"
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === "Enter") {
+                  submitRename();
+                } else if (e.key === "Escape") {
+                  onRenameCancel();
+                }
+              }}
+              onBlur={submitRename}
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+              className="nodrag w-full px-1 py-0.5 text-sm font-medium text-gray-800 bg-white border border-blue-400 rounded outline-none focus:ring-2 focus:ring-blue-500/30"
+              autoFocus
+            />
+          ) : (
+            <span
+              className="text-sm font-medium text-gray-800 whitespace-nowrap "
+              title={node.name}
+            >
+              {node.name}
+            </span>
+          )}
           {node.type === "folder" &&
             node.children &&
             node.children.length > 0 && (
@@ -342,13 +507,25 @@ const CustomNode: React.FC<{ data: CustomNodeData }> = ({ data }) => {
   );
 };
 
-const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
+// With folderId (the /:projectId/folder/:folderId route) only that folder's subtree is shown
+const CanvasNew: React.FC<{ projectId?: string; folderId?: string }> = ({ projectId, folderId }) => {
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
-  const location = useLocation();
-  const { nodes: fileSystemNodes, selectedNodeId }: any = useAppSelector(
+  const { nodes: fileSystemNodes, selectedNodeId, selectedNodeIds, clipboard, layoutMode }: any = useAppSelector(
     (state) => state.fileSystem
   );
+  const editorOpen = useAppSelector((state) => state.editor.isOpen);
+  const editorFileId = useAppSelector((state) => state.editor.file?.id);
+  const editorDirty = useAppSelector((state) => state.editor.isDirty);
+  const { past: undoStack, future: redoStack } = useAppSelector((state) => state.history);
+  const {
+    items: trashItems,
+    retentionDays: trashRetentionDays,
+    stale: isTrashStale,
+    loading: trashLoading,
+    error: trashError,
+  } = useAppSelector((state) => state.trash);
+  const presenceUsers = useAppSelector((state) => state.presence.users);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [contextMenu, setContextMenu] = useState<{
@@ -361,8 +538,35 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
   const [createParentId, setCreateParentId] = useState<string | null>(null);
   const [createParentName, setCreateParentName] = useState<string | null>(null);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
-  const [deleteNodeId, setDeleteNodeId] = useState<string | null>(null);
+  const [deleteNodeIds, setDeleteNodeIds] = useState<string[]>([]);
   const [deleteNodeName, setDeleteNodeName] = useState<string | null>(null);
+  const [renamingNodeId, setRenamingNodeId] = useState<string | null>(null);
+  const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+  const [isArrangeMenuOpen, setIsArrangeMenuOpen] = useState(false);
+  // One side panel is open at a time
+  const [sidePanel, setSidePanel] = useState<"trash" | "snapshots" | "search" | "replace" | null>(null);
+  const [flowInstance, setFlowInstance] = useState<ReactFlowInstance | null>(null);
+  // Recently opened file ids while quick open is showing, read when it opens
+  const [quickOpenRecentIds, setQuickOpenRecentIds] = useState<string[] | null>(null);
+  const [zipImport, setZipImport] = useState<{
+    fileName: string;
+    importing: boolean;
+    error: string | null;
+    summary: ZipImportSummary | null;
+  } | null>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const zipTargetIdRef = useRef<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetIdRef = useRef<string | null>(null);
+  const [dropUpload, setDropUpload] = useState<DropUploadState | null>(null);
+  const dropChoiceRef = useRef<((choice: DropConflictChoice) => void) | null>(null);
+  const arrangeFrameRef = useRef<number | null>(null);
+  const dropTargetIdRef = useRef<string | null>(null);
+  const selectedNodeIdsRef = useRef<string[]>(selectedNodeIds);
+  const pendingNudgesRef = useRef<Map<string, NodePosition>>(new Map());
+  const nudgeOriginsRef = useRef<Map<string, NodePosition>>(new Map());
+  const nudgeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  selectedNodeIdsRef.current = selectedNodeIds;
 
   // Load project data when projectId changes
   useEffect(() => {
@@ -374,38 +578,54 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
     }
   }, [projectId, dispatch]);
 
-  // Sync URL state with folder expansion
+  // Apply changes other users make to this project while it is open
   useEffect(() => {
-    // Extract folder ID from URL path (format: /:projectId/folder/:folderId)
-    const pathParts = location.pathname.split('/');
-    const activeFolderId = pathParts.length > 3 && pathParts[2] === 'folder' ? pathParts[3] : null;
+    if (!projectId) return;
+    return realtimeService.joinProject(projectId, dispatch);
+  }, [projectId, dispatch]);
 
-    if (activeFolderId && selectedNodeId !== activeFolderId) {
-      // Select the folder mentioned in URL
-      dispatch(selectNode(activeFolderId));
-    }
-  }, [location.pathname, dispatch, selectedNodeId]);
+  // The folder the route focuses on, once the tree has loaded
+  const focusedFolder: FileSystemNode | null = useMemo(() => {
+    const node = folderId ? findNodeById(fileSystemNodes, folderId) : null;
+    return node?.type === "folder" ? node : null;
+  }, [fileSystemNodes, folderId]);
 
-  // Sync URL with folder navigation
+  // A focused folder that was deleted, or is not a folder, falls back to the whole project
   useEffect(() => {
-    const handleNodeSelect = (nodeId: string) => {
-      dispatch(selectNode(nodeId));
-      const selectedNode = fileSystemNodes.find((node: FileSystemNode) => node.id === nodeId);
-      if (selectedNode && selectedNode.type === "folder") {
-        // Update URL to reflect current folder
-        const newPath = `/projects/${projectId}/folder/${selectedNode.id}`;
-        navigate(newPath, { replace: true });
-      }
-    };
+    if (projectId && folderId && fileSystemNodes.length > 0 && !focusedFolder) {
+      navigate(`/${projectId}`, { replace: true });
+    }
+  }, [fileSystemNodes.length, focusedFolder, folderId, navigate, projectId]);
 
-    // Extract folder ID from URL and select corresponding node
-    const pathParts = location.pathname.split("/");
-    const folderIdFromUrl = pathParts[pathParts.length - 1];
-    if (folderIdFromUrl && folderIdFromUrl !== "projects" && folderIdFromUrl !== projectId) {
-      const nodeId = folderIdFromUrl;
-      handleNodeSelect(nodeId);
+  // Focusing a folder opens it, once per visit so it can still be collapsed, and frames its subtree
+  const expandedFocusRef = useRef<string | null>(null);
+  const focusedFolderId = focusedFolder?.id;
+  useEffect(() => {
+    if (!focusedFolder) {
+      if (!folderId) expandedFocusRef.current = null;
+      return;
+    }
+    if (expandedFocusRef.current === focusedFolder.id) return;
+    expandedFocusRef.current = focusedFolder.id;
+    if (!focusedFolder.expanded) {
+      dispatch(toggleFolderAPI(focusedFolder.id));
     }
-  }, [fileSystemNodes, projectId, dispatch, navigate, location.pathname]);
+  }, [dispatch, focusedFolder, folderId]);
+
+  useEffect(() => {
+    if (!flowInstance) return;
+    // The new set of nodes is measured on the next frame
+    const frame = requestAnimationFrame(() => flowInstance.fitView({ padding: 0.2, duration: 400 }));
+    return () => cancelAnimationFrame(frame);
+  }, [flowInstance, focusedFolderId]);
+
+  const focusFolder = useCallback(
+    (id: string | null) => {
+      if (!projectId) return;
+      navigate(id ? `/${projectId}/folder/${id}` : `/${projectId}`);
+    },
+    [navigate, projectId]
+  );
 
   // Use test data if enabled or if no real data
   const currentData = useMemo(() => {
@@ -413,6 +633,9 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
       console.log("Using test data");
       return;
     }
+    if (focusedFolder) {
+      return [focusedFolder];
+    }
     console.log("📊 Loaded file system nodes:", fileSystemNodes.map((n: FileSystemNode) => ({
       name: n.name,
       x: n.x,
@@ -421,7 +644,7 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
       expanded: n.expanded
     })));
     return fileSystemNodes;
-  }, [fileSystemNodes]);
+  }, [fileSystemNodes, focusedFolder]);
 
   const handleFileDoubleClick = useCallback(
     (node: FileSystemNode) => {
@@ -446,20 +669,9 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
       } else if (node.type === "folder") {
         console.log("🔄 Toggling folder:", node.id, "current expanded:", node.expanded);
         dispatch(toggleFolderAPI(node.id));
-
-        // Update URL to reflect folder state
-        if (projectId) {
-          if (node.expanded) {
-            // Folder is being collapsed, go back to project root
-            navigate(`/${projectId}`, { replace: true });
-          } else {
-            // Folder is being expanded, navigate to folder URL
-            navigate(`/${projectId}/folder/${node.id}`, { replace: true });
-          }
-        }
       }
     },
-    [dispatch, navigate, location.search, projectId]
+    [dispatch]
   );
 
   const handleNodeSelect = useCallback(
@@ -469,31 +681,6 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
     [dispatch]
   );
 
-  const handleNodeDragStop = useCallback(
-    (_: any, node: any) => {
-      console.log(`🔄 Node ${node.id} dragged to position:`, node.position.x, node.position.y);
-
-      // Update the node position in the Redux store (local state)
-      dispatch(
-        updateNodePosition({
-          id: node.id,
-          x: node.position.x,
-          y: node.position.y,
-        })
-      );
-
-      // Also save the position to the database
-      dispatch(
-        updateNodePositionAPI({
-          id: node.id,
-          x: node.position.x,
-          y: node.position.y,
-        })
-      );
-    },
-    [dispatch]
-  );
-
   const handleContextMenu = useCallback(
     (e: React.MouseEvent, node: FileSystemNode) => {
       e.preventDefault();
@@ -509,21 +696,6 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
   // Node creation handlers
   const handleCreateNode = useCallback(
     (type: "file" | "folder", parentId: string) => {
-      // Find parent node to get its name
-      const findNodeById = (
-        nodes: FileSystemNode[],
-        id: string
-      ): FileSystemNode | null => {
-        for (const node of nodes) {
-          if (node.id === id) return node;
-          if (node.children) {
-            const found = findNodeById(node.children, id);
-            if (found) return found;
-          }
-        }
-        return null;
-      };
-
       const parentNode = findNodeById(fileSystemNodes, parentId);
 
       // Set up modal state
@@ -538,23 +710,8 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
 
   const handleDeleteNode = useCallback(
     (nodeId: string) => {
-      // Find the node to get its name
-      const findNodeById = (
-        nodes: FileSystemNode[],
-        id: string
-      ): FileSystemNode | null => {
-        for (const node of nodes) {
-          if (node.id === id) return node;
-          if (node.children) {
-            const found = findNodeById(node.children, id);
-            if (found) return found;
-          }
-        }
-        return null;
-      };
-
       const nodeToDelete = findNodeById(fileSystemNodes, nodeId);
-      setDeleteNodeId(nodeId);
+      setDeleteNodeIds([nodeId]);
       setDeleteNodeName(nodeToDelete?.name || "this item");
       setIsDeleteModalOpen(true);
       setContextMenu(null);
@@ -562,14 +719,646 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
     [fileSystemNodes]
   );
 
+  const handleDeleteSelection = useCallback(() => {
+    const ids = getTopLevelIds(fileSystemNodes, selectedNodeIds);
+    if (ids.length === 0) return;
+    if (ids.length === 1) {
+      handleDeleteNode(ids[0]);
+      return;
+    }
+    setDeleteNodeIds(ids);
+    setDeleteNodeName(`${ids.length} items`);
+    setIsDeleteModalOpen(true);
+  }, [fileSystemNodes, selectedNodeIds, handleDeleteNode]);
+
+  const handleStartRename = useCallback((nodeId: string) => {
+    setRenamingNodeId(nodeId);
+    setContextMenu(null);
+  }, []);
+
+  const handleRenameSubmit = useCallback(
+    (node: FileSystemNode, name: string) => {
+      setRenamingNodeId(null);
+      dispatch(renameNodeAPI({ id: node.id, name }));
+    },
+    [dispatch]
+  );
+
+  const handleRenameCancel = useCallback(() => {
+    setRenamingNodeId(null);
+  }, []);
+
   const confirmDelete = useCallback(() => {
-    if (deleteNodeId) {
-      dispatch(deleteNodeAPI(deleteNodeId));
-      setIsDeleteModalOpen(false);
-      setDeleteNodeId(null);
-      setDeleteNodeName(null);
+    if (deleteNodeIds.length === 1) {
+      dispatch(deleteNodeAPI(deleteNodeIds[0]));
+    } else if (deleteNodeIds.length > 1 && projectId) {
+      dispatch(deleteNodesAPI({ ids: deleteNodeIds, projectId }));
+    }
+    setIsDeleteModalOpen(false);
+    setDeleteNodeIds([]);
+    setDeleteNodeName(null);
+  }, [dispatch, deleteNodeIds, projectId]);
+
+  // Mirror React Flow's selection (clicks, modifier clicks and the selection box) into the store
+  const handleSelectionChange = useCallback(
+    ({ nodes: selected }: OnSelectionChangeParams) => {
+      const ids = selected.map((n) => n.id);
+      const current = selectedNodeIdsRef.current;
+      const isSame =
+        ids.length === current.length && ids.every((id) => current.includes(id));
+      if (!isSame) {
+        dispatch(setSelectedNodes(ids));
+      }
+    },
+    [dispatch]
+  );
+
+  const handleSetSelectionExpanded = useCallback(
+    (expanded: boolean) => {
+      const folderIds = selectedNodeIds.filter(
+        (id: string) => findNodeById(fileSystemNodes, id)?.type === "folder"
+      );
+      if (folderIds.length > 0 && projectId) {
+        dispatch(setFoldersExpandedAPI({ ids: folderIds, expanded, projectId }));
+      }
+    },
+    [dispatch, fileSystemNodes, selectedNodeIds, projectId]
+  );
+
+  const handleMoveSelection = useCallback(
+    (ids: string[], folderId: string) => {
+      const target = findNodeById(fileSystemNodes, folderId);
+      if (!target || !projectId) return;
+
+      const movingNodes = getTopLevelIds(fileSystemNodes, ids)
+        .map((id) => findNodeById(fileSystemNodes, id))
+        .filter((n): n is FileSystemNode => !!n && n.parentId !== folderId);
+      if (movingNodes.length === 0) return;
+
+      return dispatch(
+        moveNodesAPI({
+          parentId: folderId,
+          moves: getStackedChildPositions(target, movingNodes),
+          projectId,
+        })
+      )
+        .unwrap()
+        .then(() => {
+          // Opening the folder is part of the move, not a separate undo step
+          if (!target.expanded) {
+            dispatch(updateFolderExpandedAPI({ id: target.id, expanded: true }));
+          }
+        });
+    },
+    [dispatch, fileSystemNodes, projectId]
+  );
+
+  // Nudge the selection with the arrow keys; saves are batched once the keys are released
+  // and a whole burst of nudges becomes a single undo step
+  const nudgeSelection = useCallback(
+    (dx: number, dy: number) => {
+      const selected: FileSystemNode[] = selectedNodeIds
+        .map((id: string) => findNodeById(fileSystemNodes, id))
+        .filter((n: FileSystemNode | null): n is FileSystemNode => !!n);
+      if (selected.length === 0) return;
+
+      const positions: NodePosition[] = selected.map((n) => ({ id: n.id, x: (n.x || 0) + dx, y: (n.y || 0) + dy }));
+      selected.forEach((n) => {
+        if (!nudgeOriginsRef.current.has(n.id)) {
+          nudgeOriginsRef.current.set(n.id, { id: n.id, x: n.x || 0, y: n.y || 0 });
+        }
+      });
+
+      dispatch(updateNodePositions(positions));
+      positions.forEach((position) => pendingNudgesRef.current.set(position.id, position));
+
+      if (nudgeTimerRef.current) clearTimeout(nudgeTimerRef.current);
+      nudgeTimerRef.current = setTimeout(() => {
+        const pending = [...pendingNudgesRef.current.values()];
+        const previous = [...nudgeOriginsRef.current.values()];
+        pendingNudgesRef.current.clear();
+        nudgeOriginsRef.current.clear();
+        if (projectId && pending.length > 0) {
+          dispatch(updateNodePositionsAPI({ positions: pending, projectId, previous }));
+        }
+      }, 400);
+    },
+    [dispatch, fileSystemNodes, selectedNodeIds, projectId]
+  );
+
+  // Lay the tree out with the chosen mode, animate the nodes there and save the new positions in one batch
+  const handleArrange = useCallback(
+    (mode: LayoutMode) => {
+      setIsArrangeMenuOpen(false);
+      if (!projectId) return;
+
+      const positions = computeLayout(fileSystemNodes, mode).filter(({ id, x, y }) => {
+        const node = findNodeById(fileSystemNodes, id);
+        return !!node && (node.x !== x || node.y !== y);
+      });
+      const targets = new Map(positions.map((position) => [position.id, position]));
+      const starts = new Map(nodes.map((n) => [n.id, n.position]));
+
+      if (arrangeFrameRef.current) cancelAnimationFrame(arrangeFrameRef.current);
+      const startTime = performance.now();
+
+      const step = (now: number) => {
+        const progress = Math.min((now - startTime) / ARRANGE_DURATION, 1);
+        const eased = 1 - Math.pow(1 - progress, 3);
+        setNodes((nds) =>
+          nds.map((n) => {
+            const start = starts.get(n.id);
+            const target = targets.get(n.id);
+            if (!start || !target) return n;
+            return {
+              ...n,
+              position: {
+                x: start.x + (target.x - start.x) * eased,
+                y: start.y + (target.y - start.y) * eased,
+              },
+            };
+          })
+        );
+
+        if (progress < 1) {
+          arrangeFrameRef.current = requestAnimationFrame(step);
+          return;
+        }
+        arrangeFrameRef.current = null;
+        dispatch(setLayoutMode(mode));
+        if (positions.length > 0) {
+          dispatch(updateNodePositionsAPI({ positions, projectId }));
+        }
+      };
+      arrangeFrameRef.current = requestAnimationFrame(step);
+    },
+    [dispatch, fileSystemNodes, nodes, projectId, setNodes]
+  );
+
+  // Stop a running arrange animation when leaving the canvas
+  useEffect(() => {
+    return () => {
+      if (arrangeFrameRef.current) cancelAnimationFrame(arrangeFrameRef.current);
+    };
+  }, []);
+
+  // Refresh the trash whenever something new was deleted
+  useEffect(() => {
+    if (projectId && isTrashStale) {
+      dispatch(fetchTrashAPI(projectId));
     }
-  }, [dispatch, deleteNodeId]);
+  }, [dispatch, projectId, isTrashStale]);
+
+  const handleRestoreFromTrash = useCallback(
+    (id: string) => {
+      if (!projectId) return;
+      dispatch(restoreFromTrashAPI({ ids: [id], projectId }))
+        .unwrap()
+        .then(({ restored }) => {
+          // Open the folder the item came back into
+          restored.forEach(({ parentId }) => {
+            const parent = parentId ? findNodeById(fileSystemNodes, parentId) : null;
+            if (parent && !parent.expanded) {
+              dispatch(updateFolderExpandedAPI({ id: parent.id, expanded: true }));
+            }
+          });
+        })
+        .catch(() => {});
+    },
+    [dispatch, fileSystemNodes, projectId]
+  );
+
+  const handleRestoreSnapshot = useCallback(
+    async (snapshot: ProjectSnapshotSummary, backup: boolean) => {
+      if (!projectId) return;
+      const { changedFileIds } = await dispatch(
+        restoreSnapshotAPI({ projectId, snapshotId: snapshot.id, backup })
+      ).unwrap();
+      // Other clients hear about the new content from the server, but our own echo is skipped
+      if (editorFileId && !editorDirty && changedFileIds.includes(editorFileId)) {
+        dispatch(loadFileContent(editorFileId));
+      }
+    },
+    [dispatch, editorDirty, editorFileId, projectId]
+  );
+
+  // Replace across the project; the open file takes its new content unless it has unsaved edits
+  const handleApplyReplace = useCallback(
+    (options: ReplaceOptions, files: ReplaceTarget[]) => {
+      if (!projectId) return Promise.reject(new Error("No project is open"));
+      return dispatch(replaceInProjectAPI({ projectId, options, files })).unwrap();
+    },
+    [dispatch, projectId]
+  );
+
+  // Languages of the project's files, offered as a search filter
+  const searchLanguages = useMemo(() => {
+    const languages = new Set<string>();
+    const collect = (nodes: FileSystemNode[]) =>
+      nodes.forEach((node) => {
+        if (node.type === "file" && node.metadata?.language) languages.add(node.metadata.language);
+        collect(node.children || []);
+      });
+    collect(fileSystemNodes);
+    return [...languages].sort();
+  }, [fileSystemNodes]);
+
+  // Show a node on the canvas: expand its collapsed folders one by one, select it and centre the canvas on it
+  const revealNode = useCallback(
+    async (node: FileSystemNode) => {
+      const ancestorIds = getAncestorIds(fileSystemNodes, node.id) || [];
+      // Nodes outside the focused folder are only on the canvas of the whole project
+      if (folderId && node.id !== folderId && !ancestorIds.includes(folderId)) {
+        focusFolder(null);
+      }
+      for (const id of ancestorIds) {
+        if (!findNodeById(fileSystemNodes, id)?.expanded) {
+          await dispatch(toggleFolderAPI(id));
+        }
+      }
+      dispatch(setSelectedNodes([node.id]));
+
+      // The expanded folders' nodes are measured on the next frame
+      requestAnimationFrame(() => {
+        if (!flowInstance) return;
+        const flowNode = flowInstance.getNode(node.id);
+        const x = (flowNode?.positionAbsolute?.x ?? node.x ?? 0) + (flowNode?.width ?? 0) / 2;
+        const y = (flowNode?.positionAbsolute?.y ?? node.y ?? 0) + (flowNode?.height ?? 0) / 2;
+        flowInstance.setCenter(x, y, { zoom: Math.max(flowInstance.getZoom(), 1), duration: 400 });
+      });
+    },
+    [dispatch, fileSystemNodes, flowInstance, focusFolder, folderId]
+  );
+
+  // Open a file in the editor; a file that is already open keeps its unsaved edits
+  const openFile = useCallback(
+    (node: FileSystemNode) => {
+      if (editorFileId === node.id) return;
+      if (node.content !== undefined) {
+        dispatch(openEditor(node));
+      } else {
+        dispatch(openEditorAndLoadContent(node));
+        dispatch(loadFileContent(node.id));
+      }
+    },
+    [dispatch, editorFileId]
+  );
+
+  // Show a search or replace result on the canvas, and open a file at the match
+  const handleOpenSearchResult = useCallback(
+    (result: { id: string }, position?: EditorReveal) => {
+      const node = findNodeById(fileSystemNodes, result.id);
+      if (!node) return;
+      revealNode(node);
+      if (node.type !== "file") return;
+      openFile(node);
+      if (position) {
+        dispatch(revealInEditor(position));
+      }
+    },
+    [dispatch, fileSystemNodes, openFile, revealNode]
+  );
+
+  // Files offered by quick open, with their paths below the project root
+  const quickOpenFiles = useMemo(() => {
+    const files: QuickOpenFile[] = [];
+    const collect = (nodes: FileSystemNode[], parentPath: string | null) =>
+      nodes.forEach((node) => {
+        // The top-level folder is the project itself, so paths start below it
+        const path = parentPath === null ? "" : parentPath ? `${parentPath}/${node.name}` : node.name;
+        if (node.type === "file") files.push({ node, path: path || node.name });
+        collect(node.children || [], path);
+      });
+    collect(fileSystemNodes, null);
+    return files;
+  }, [fileSystemNodes]);
+
+  const handleQuickOpen = useCallback(
+    (node: FileSystemNode) => {
+      setQuickOpenRecentIds(null);
+      openFile(node);
+      revealNode(node);
+    },
+    [openFile, revealNode]
+  );
+
+  // Ctrl+P (Cmd+P) finds a file by name from the canvas
+  useHotkeys(
+    "mod+p",
+    () => setQuickOpenRecentIds(projectId ? getRecentFiles(projectId) : []),
+    { enabled: !!projectId && !editorOpen, enableOnFormTags: true, preventDefault: true },
+    [projectId]
+  );
+
+  // Ids of the nodes waiting to be moved by a cut + paste
+  const cutNodeIds = useMemo(
+    () =>
+      clipboard?.mode === "cut" && clipboard.projectId === projectId
+        ? clipboard.nodes.map((n: FileSystemNode) => n.id)
+        : [],
+    [clipboard, projectId]
+  );
+
+  // Paste into a folder, or next to a file inside its folder
+  const handlePaste = useCallback(
+    (targetNode?: FileSystemNode | null) => {
+      if (!clipboard || !projectId) return;
+      const base =
+        targetNode ||
+        (selectedNodeId ? findNodeById(fileSystemNodes, selectedNodeId) : null) ||
+        focusedFolder ||
+        fileSystemNodes[0];
+      if (!base) return;
+      const targetId = base.type === "folder" ? base.id : base.parentId;
+      if (!targetId) return;
+
+      dispatch(pasteNodesAPI({ targetId, projectId }))
+        .unwrap()
+        .then(() => {
+          const target = findNodeById(fileSystemNodes, targetId);
+          if (target && !target.expanded) {
+            dispatch(updateFolderExpandedAPI({ id: target.id, expanded: true }));
+          }
+        })
+        .catch(() => {});
+      setContextMenu(null);
+    },
+    [dispatch, clipboard, projectId, selectedNodeId, fileSystemNodes, focusedFolder]
+  );
+
+  // The context menu picks the target folder, then the file picker picks the archive
+  const handleImportZip = useCallback((folderId: string) => {
+    zipTargetIdRef.current = folderId;
+    zipInputRef.current?.click();
+    setContextMenu(null);
+  }, []);
+
+  const handleZipSelected = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      const parentId = zipTargetIdRef.current;
+      // Clear the input so picking the same file again still fires a change
+      e.target.value = "";
+      if (!file || !parentId || !projectId) return;
+
+      setZipImport({ fileName: file.name, importing: true, error: null, summary: null });
+      dispatch(importZipAPI({ file, parentId, projectId }))
+        .unwrap()
+        .then(({ fileCount, folderCount, skipped }) => {
+          setZipImport({ fileName: file.name, importing: false, error: null, summary: { fileCount, folderCount, skipped } });
+        })
+        .catch((error: Error) => {
+          setZipImport({ fileName: file.name, importing: false, error: error.message || "Failed to import zip", summary: null });
+        });
+    },
+    [dispatch, projectId]
+  );
+
+  // Files and folders from the desktop, dropped or picked: read them, ask before overwriting, then create
+  // everything in one batch request
+  const uploadToFolder = useCallback(
+    async (target: FileSystemNode, items: Promise<DroppedItem[]>) => {
+      if (!projectId) return;
+      const targetName = target.name;
+
+      try {
+        setDropUpload({ phase: "reading", targetName, done: 0, total: 0 });
+        const { entries, skipped } = await readDroppedItems(await items, (done, total) =>
+          setDropUpload({ phase: "reading", targetName, done, total })
+        );
+
+        const conflicts = findDropConflicts(target, entries);
+        let overwrite = false;
+        if (conflicts.length > 0) {
+          const choice = await new Promise<DropConflictChoice>((resolve) => {
+            dropChoiceRef.current = resolve;
+            setDropUpload({ phase: "confirm", targetName, conflicts });
+          });
+          dropChoiceRef.current = null;
+          if (choice === "cancel") {
+            setDropUpload(null);
+            return;
+          }
+          overwrite = choice === "overwrite";
+        }
+
+        const plan = planDropUpload(target, entries, overwrite, projectId);
+        if (plan.nodes.length + plan.updates.length > 0) {
+          setDropUpload({ phase: "uploading", targetName, progress: 0 });
+          await dispatch(uploadNodesAPI({
+            parentId: target.id,
+            ...plan,
+            projectId,
+            onProgress: (progress) => setDropUpload({ phase: "uploading", targetName, progress }),
+          })).unwrap();
+          if (!target.expanded) {
+            dispatch(updateFolderExpandedAPI({ id: target.id, expanded: true }));
+          }
+        }
+
+        // The new nodes on the canvas are feedback enough, unless something was left out
+        if (skipped.length === 0) {
+          setDropUpload(null);
+        } else {
+          const { files, folders } = countNodes(plan.nodes);
+          setDropUpload({
+            phase: "done",
+            targetName,
+            fileCount: files,
+            folderCount: folders,
+            updatedCount: plan.updates.length,
+            skipped,
+          });
+        }
+      } catch (error) {
+        setDropUpload({
+          phase: "error",
+          targetName,
+          error: error instanceof Error ? error.message : "Failed to upload files",
+        });
+      }
+    },
+    [dispatch, projectId]
+  );
+
+  // Files picked from disk go through the same upload as a desktop drop: text stays text, anything else
+  // is stored as binary
+  const handleUploadFiles = useCallback((folderId: string) => {
+    uploadTargetIdRef.current = folderId;
+    uploadInputRef.current?.click();
+    setContextMenu(null);
+  }, []);
+
+  const handleUploadSelected = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      const parent = findNodeById(fileSystemNodes, uploadTargetIdRef.current || "");
+      e.target.value = "";
+      if (files.length === 0 || !parent) return;
+
+      uploadToFolder(parent, Promise.resolve(files.map((file) => ({ path: [file.name], type: "file" as const, file }))));
+    },
+    [fileSystemNodes, uploadToFolder]
+  );
+
+  // Copy, cut and duplicate act on the whole selection when the node is part of it
+  const getActionIds = useCallback(
+    (node?: FileSystemNode) =>
+      !node || selectedNodeIds.includes(node.id) ? selectedNodeIds : [node.id],
+    [selectedNodeIds]
+  );
+
+  const handleCopy = useCallback(
+    (node?: FileSystemNode) => {
+      dispatch(copyNodes(getActionIds(node)));
+      setContextMenu(null);
+    },
+    [dispatch, getActionIds]
+  );
+
+  const handleCut = useCallback(
+    (node?: FileSystemNode) => {
+      dispatch(cutNodes(getActionIds(node)));
+      setContextMenu(null);
+    },
+    [dispatch, getActionIds]
+  );
+
+  const handleDuplicate = useCallback(
+    (node?: FileSystemNode) => {
+      const ids = getActionIds(node);
+      if (ids.length > 0 && projectId) {
+        dispatch(duplicateNodesAPI({ ids, projectId }));
+      }
+      setContextMenu(null);
+    },
+    [dispatch, getActionIds, projectId]
+  );
+
+  // Canvas keyboard shortcuts for the selection and clipboard
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (editorOpen || isEditableTarget(e.target)) return;
+
+      // Ctrl+Shift+F searches the project
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && !e.altKey && e.key.toLowerCase() === "f") {
+        e.preventDefault();
+        setSidePanel("search");
+        return;
+      }
+
+      // Ctrl+Shift+H replaces across the project
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && !e.altKey && e.key.toLowerCase() === "h") {
+        e.preventDefault();
+        setSidePanel("replace");
+        return;
+      }
+
+      // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes
+      if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        const key = e.key.toLowerCase();
+        if (key === "z" || (key === "y" && !e.shiftKey)) {
+          e.preventDefault();
+          dispatch(key === "z" && !e.shiftKey ? undo() : redo());
+          return;
+        }
+      }
+
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey) {
+        switch (e.key.toLowerCase()) {
+          case "c":
+            if (selectedNodeIds.length === 0) return;
+            e.preventDefault();
+            handleCopy();
+            return;
+          case "x":
+            if (selectedNodeIds.length === 0) return;
+            e.preventDefault();
+            handleCut();
+            return;
+          case "v":
+            e.preventDefault();
+            handlePaste();
+            return;
+          case "d":
+            if (selectedNodeIds.length === 0) return;
+            e.preventDefault();
+            handleDuplicate();
+            return;
+        }
+      }
+
+      if (selectedNodeIds.length === 0) return;
+
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      switch (e.key) {
+        case "Delete":
+        case "Backspace":
+          e.preventDefault();
+          handleDeleteSelection();
+          break;
+        case "Escape":
+          dispatch(clearSelection());
+          break;
+        case "ArrowUp":
+          e.preventDefault();
+          nudgeSelection(0, -step);
+          break;
+        case "ArrowDown":
+          e.preventDefault();
+          nudgeSelection(0, step);
+          break;
+        case "ArrowLeft":
+          e.preventDefault();
+          nudgeSelection(-step, 0);
+          break;
+        case "ArrowRight":
+          e.preventDefault();
+          nudgeSelection(step, 0);
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [
+    editorOpen,
+    selectedNodeIds,
+    handleDeleteSelection,
+    nudgeSelection,
+    handleCopy,
+    handleCut,
+    handlePaste,
+    handleDuplicate,
+    dispatch,
+  ]);
+
+  // Flush pending nudges when leaving the canvas
+  useEffect(() => {
+    const pendingNudges = pendingNudgesRef.current;
+    const nudgeOrigins = nudgeOriginsRef.current;
+    return () => {
+      if (nudgeTimerRef.current) clearTimeout(nudgeTimerRef.current);
+      const pending = [...pendingNudges.values()];
+      const previous = [...nudgeOrigins.values()];
+      pendingNudges.clear();
+      nudgeOrigins.clear();
+      if (projectId && pending.length > 0) {
+        dispatch(updateNodePositionsAPI({ positions: pending, projectId, previous }));
+      }
+    };
+  }, [dispatch, projectId]);
+
+  // Other users grouped by the file they have open, for the badges on file nodes
+  const editorsByFile = useMemo(() => {
+    const byFile = new Map<string, PresenceUser[]>();
+    presenceUsers.forEach(user => {
+      if (user.fileId) {
+        byFile.set(user.fileId, [...(byFile.get(user.fileId) || []), user]);
+      }
+    });
+    return byFile;
+  }, [presenceUsers]);
 
   // Generate nodes and edges - SIMPLIFIED AND GUARANTEED TO WORK
   const { reactFlowNodes, reactFlowEdges } = useMemo(() => {
@@ -609,13 +1398,19 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
                 onDoubleClick: handleFileDoubleClick,
                 onSelect: handleNodeSelect,
                 onContextMenu: handleContextMenu,
-                isSelected: selectedNodeId === node.id,
+                isSelected: selectedNodeIds.includes(node.id),
+                isCut: cutNodeIds.includes(node.id),
+                isRenaming: renamingNodeId === node.id,
+                onRenameSubmit: handleRenameSubmit,
+                onRenameCancel: handleRenameCancel,
                 parentNode: parentNode,
+                editors: editorsByFile.get(node.id) || NO_EDITORS,
               }}
             />
           ),
         },
         draggable: true,
+        selected: selectedNodeIds.includes(node.id),
         style: {
           background: "transparent",
           border: "none",
@@ -700,7 +1495,17 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
     );
 
     return { reactFlowNodes: nodes, reactFlowEdges: edges };
-  }, [currentData, selectedNodeId, handleFileDoubleClick, handleNodeSelect]);
+  }, [
+    currentData,
+    editorsByFile,
+    selectedNodeIds,
+    cutNodeIds,
+    renamingNodeId,
+    handleFileDoubleClick,
+    handleNodeSelect,
+    handleRenameSubmit,
+    handleRenameCancel,
+  ]);
 
   // Update React Flow when data changes
   useEffect(() => {
@@ -715,6 +1520,178 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
     setEdges(reactFlowEdges);
   }, [reactFlowNodes, reactFlowEdges, setNodes, setEdges]);
 
+  // Find the folder under the centre of a dragged node, ignoring the dragged subtrees and
+  // the folder they all already live in
+  const findDropTarget = useCallback(
+    (draggedNode: Node, draggedIds: string[] = [draggedNode.id]): FileSystemNode | null => {
+      const draggedNodes = draggedIds
+        .map((id) => findNodeById(fileSystemNodes, id))
+        .filter((n): n is FileSystemNode => !!n);
+      if (draggedNodes.length === 0) return null;
+
+      const centerX = draggedNode.position.x + (draggedNode.width || 0) / 2;
+      const centerY = draggedNode.position.y + (draggedNode.height || 0) / 2;
+
+      for (let i = nodes.length - 1; i >= 0; i--) {
+        const candidate = nodes[i];
+        if (!candidate.width || !candidate.height) continue;
+        const { x, y } = candidate.positionAbsolute || candidate.position;
+        const isInside =
+          centerX >= x &&
+          centerX <= x + candidate.width &&
+          centerY >= y &&
+          centerY <= y + candidate.height;
+        if (!isInside) continue;
+
+        const folder = findNodeById(fileSystemNodes, candidate.id);
+        if (
+          folder &&
+          folder.type === "folder" &&
+          !draggedNodes.every((n) => n.parentId === folder.id) &&
+          !draggedNodes.some((n) => isSameOrDescendant(fileSystemNodes, n.id, folder.id))
+        ) {
+          return folder;
+        }
+      }
+      return null;
+    },
+    [fileSystemNodes, nodes]
+  );
+
+  const setDropTarget = useCallback(
+    (targetId: string | null) => {
+      if (dropTargetIdRef.current === targetId) return;
+      dropTargetIdRef.current = targetId;
+      setNodes((nds) =>
+        nds.map((n) => ({
+          ...n,
+          className: n.id === targetId ? "drop-target" : undefined,
+        }))
+      );
+    },
+    [setNodes]
+  );
+
+  // Folder under the pointer for a drop from the desktop: a folder node itself, or the folder holding a file node
+  const getDesktopDropFolder = useCallback(
+    (event: React.DragEvent) => {
+      const id = (event.target as Element).closest(".react-flow__node")?.getAttribute("data-id");
+      const node = id ? findNodeById(fileSystemNodes, id) : null;
+      if (!node) return null;
+      if (node.type === "folder") return node;
+      return node.parentId ? findNodeById(fileSystemNodes, node.parentId) : null;
+    },
+    [fileSystemNodes]
+  );
+
+  const handleDesktopDragOver = useCallback(
+    (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes("Files")) return;
+      event.preventDefault();
+      const target = getDesktopDropFolder(event);
+      event.dataTransfer.dropEffect = target ? "copy" : "none";
+      setDropTarget(target?.id ?? null);
+    },
+    [getDesktopDropFolder, setDropTarget]
+  );
+
+  const handleDesktopDragLeave = useCallback(
+    (event: React.DragEvent) => {
+      // Only when the pointer leaves the canvas, not when it moves between nodes
+      if (!event.currentTarget.contains(event.relatedTarget as globalThis.Node | null)) {
+        setDropTarget(null);
+      }
+    },
+    [setDropTarget]
+  );
+
+  const handleDesktopDrop = useCallback(
+    (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes("Files")) return;
+      event.preventDefault();
+      setDropTarget(null);
+      const target = getDesktopDropFolder(event);
+      if (!target) return;
+
+      // Has to start before the handler returns, while the browser still exposes the dropped items
+      uploadToFolder(target, collectDroppedItems(event.dataTransfer));
+    },
+    [getDesktopDropFolder, setDropTarget, uploadToFolder]
+  );
+
+  const handleNodeDrag = useCallback(
+    (_: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+      const draggedIds = draggedNodes.map((n) => n.id);
+      setDropTarget(findDropTarget(node, draggedIds)?.id ?? null);
+    },
+    [findDropTarget, setDropTarget]
+  );
+
+  const handleNodeDragStop = useCallback(
+    (_: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+      const draggedIds = draggedNodes.map((n) => n.id);
+      const dropTarget = findDropTarget(node, draggedIds);
+      setDropTarget(null);
+
+      // Dragging a multi-selection moves every node together
+      if (draggedNodes.length > 1) {
+        if (dropTarget) {
+          handleMoveSelection(draggedIds, dropTarget.id)?.catch(() => {
+            // Snap the nodes back to where the store still has them
+            setNodes(reactFlowNodes);
+          });
+          return;
+        }
+
+        const positions = draggedNodes.map((n) => ({ id: n.id, x: n.position.x, y: n.position.y }));
+        if (projectId) {
+          dispatch(updateNodePositionsAPI({ positions, projectId }));
+        }
+        return;
+      }
+
+      if (dropTarget) {
+        const dragged = findNodeById(fileSystemNodes, node.id);
+        const { x, y } = getChildPosition(dropTarget, dragged?.type || "file");
+
+        dispatch(moveNodeAPI({ id: node.id, parentId: dropTarget.id, x, y }))
+          .unwrap()
+          .then(() => {
+            // Show the moved node by opening the folder it landed in
+            if (!dropTarget.expanded) {
+              dispatch(updateFolderExpandedAPI({ id: dropTarget.id, expanded: true }));
+            }
+          })
+          .catch(() => {
+            // Snap the node back to where the store still has it
+            setNodes(reactFlowNodes);
+          });
+        return;
+      }
+
+      console.log(`🔄 Node ${node.id} dragged to position:`, node.position.x, node.position.y);
+
+      // Update the node position in the Redux store and save it to the database
+      dispatch(
+        updateNodePositionAPI({
+          id: node.id,
+          x: node.position.x,
+          y: node.position.y,
+        })
+      );
+    },
+    [
+      dispatch,
+      fileSystemNodes,
+      findDropTarget,
+      setDropTarget,
+      setNodes,
+      reactFlowNodes,
+      handleMoveSelection,
+      projectId,
+    ]
+  );
+
   return (
     <div className="w-full h-full">
       <style
@@ -741,6 +1718,11 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
             0% { stroke-dashoffset: 0; }
             100% { stroke-dashoffset: 24; }
           }
+          .react-flow__node.drop-target {
+            outline: 3px dashed #3b82f6;
+            outline-offset: 4px;
+            border-radius: 12px;
+          }
           .react-flow__edge-label {
             background: rgba(255, 255, 255, 0.95) !important;
             backdrop-filter: blur(4px) !important;
@@ -813,7 +1795,15 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
+        onNodeDrag={handleNodeDrag}
         onNodeDragStop={handleNodeDragStop}
+        onSelectionChange={handleSelectionChange}
+        onInit={setFlowInstance}
+        onDragOver={handleDesktopDragOver}
+        onDragLeave={handleDesktopDragLeave}
+        onDrop={handleDesktopDrop}
+        multiSelectionKeyCode={MULTI_SELECTION_KEYS}
+        deleteKeyCode={null}
         connectionMode={ConnectionMode.Loose}
         fitView
         className="bg-gray-50"
@@ -823,6 +1813,180 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
         }}
       >
         <Background color="#e5e7eb" gap={20} />
+        <Panel position="top-left">
+          <div className="flex items-center space-x-1 bg-white/95 backdrop-blur-xl border border-gray-200 rounded-xl shadow-lg p-1">
+            <button
+              className="p-1.5 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              onClick={() => dispatch(undo())}
+              disabled={undoStack.length === 0}
+              title={
+                undoStack.length > 0
+                  ? `Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)`
+                  : "Nothing to undo"
+              }
+            >
+              <Undo2 size={16} />
+            </button>
+            <button
+              className="p-1.5 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              onClick={() => dispatch(redo())}
+              disabled={redoStack.length === 0}
+              title={
+                redoStack.length > 0
+                  ? `Redo ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)`
+                  : "Nothing to redo"
+              }
+            >
+              <Redo2 size={16} />
+            </button>
+            <div className="w-px h-5 bg-gray-200" />
+            <button
+              className={`flex items-center space-x-1.5 px-2 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                sidePanel === "search" ? "bg-gray-100 text-gray-900" : "text-gray-700 hover:bg-gray-100"
+              }`}
+              onClick={() => setSidePanel((panel) => (panel === "search" ? null : "search"))}
+              title="Search file names and contents (Ctrl+Shift+F)"
+            >
+              <Search size={16} />
+              <span>Search</span>
+            </button>
+            <button
+              className={`flex items-center space-x-1.5 px-2 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                sidePanel === "replace" ? "bg-gray-100 text-gray-900" : "text-gray-700 hover:bg-gray-100"
+              }`}
+              onClick={() => setSidePanel((panel) => (panel === "replace" ? null : "replace"))}
+              title="Find and replace across files (Ctrl+Shift+H)"
+            >
+              <ReplaceAll size={16} />
+              <span>Replace</span>
+            </button>
+            <button
+              className={`flex items-center space-x-1.5 px-2 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                sidePanel === "trash" ? "bg-gray-100 text-gray-900" : "text-gray-700 hover:bg-gray-100"
+              }`}
+              onClick={() => setSidePanel((panel) => (panel === "trash" ? null : "trash"))}
+              title="Show deleted items"
+            >
+              <Trash2 size={16} />
+              <span>Trash</span>
+              {trashItems.length > 0 && (
+                <span className="px-1.5 py-0.5 text-xs font-semibold text-gray-600 bg-gray-200 rounded-full">
+                  {trashItems.length}
+                </span>
+              )}
+            </button>
+            <button
+              className={`flex items-center space-x-1.5 px-2 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                sidePanel === "snapshots" ? "bg-gray-100 text-gray-900" : "text-gray-700 hover:bg-gray-100"
+              }`}
+              onClick={() => setSidePanel((panel) => (panel === "snapshots" ? null : "snapshots"))}
+              title="Save and restore snapshots of the whole project"
+            >
+              <Camera size={16} />
+              <span>Snapshots</span>
+            </button>
+            <div className="relative">
+              <button
+                className="flex items-center space-x-1.5 px-2 py-1.5 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+                onClick={() => setIsArrangeMenuOpen((open) => !open)}
+                title="Arrange the tree automatically"
+              >
+                <Network size={16} />
+                <span>Arrange</span>
+                <ChevronDown size={14} />
+              </button>
+              {isArrangeMenuOpen && (
+                <div className="absolute left-0 top-full mt-2 bg-white border border-gray-200 rounded-lg shadow-xl py-1 z-50 min-w-52">
+                  {LAYOUT_MODES.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center justify-between space-x-4 text-sm"
+                      onClick={() => handleArrange(mode)}
+                    >
+                      <span>{label}</span>
+                      {layoutMode === mode && <Check size={14} className="text-blue-600" />}
+                    </button>
+                  ))}
+                  {layoutMode && (
+                    <>
+                      <hr className="my-1" />
+                      <button
+                        className="w-full px-4 py-2 text-left hover:bg-gray-100 text-sm text-gray-600"
+                        onClick={() => {
+                          dispatch(setLayoutMode(null));
+                          setIsArrangeMenuOpen(false);
+                        }}
+                        title="New nodes are no longer placed by the layout"
+                      >
+                        Stop auto-placing new nodes
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </Panel>
+        {sidePanel === "search" && projectId && (
+          <Panel position="top-right">
+            <SearchPanel
+              projectId={projectId}
+              languages={searchLanguages}
+              onOpen={handleOpenSearchResult}
+              onClose={() => setSidePanel(null)}
+            />
+          </Panel>
+        )}
+        {sidePanel === "replace" && projectId && (
+          <Panel position="top-right">
+            <ReplacePanel
+              projectId={projectId}
+              onApply={handleApplyReplace}
+              onOpen={handleOpenSearchResult}
+              onClose={() => setSidePanel(null)}
+            />
+          </Panel>
+        )}
+        {sidePanel === "trash" && projectId && (
+          <Panel position="top-right">
+            <TrashPanel
+              items={trashItems}
+              retentionDays={trashRetentionDays}
+              loading={trashLoading}
+              error={trashError}
+              onRestore={handleRestoreFromTrash}
+              onDelete={(id) => dispatch(deleteFromTrashAPI({ id, projectId }))}
+              onEmpty={() => dispatch(emptyTrashAPI(projectId))}
+              onClose={() => setSidePanel(null)}
+            />
+          </Panel>
+        )}
+        {sidePanel === "snapshots" && projectId && (
+          <Panel position="top-right">
+            <SnapshotsPanel
+              projectId={projectId}
+              onRestore={handleRestoreSnapshot}
+              onClose={() => setSidePanel(null)}
+            />
+          </Panel>
+        )}
+        {selectedNodeIds.length > 1 && (
+          <Panel position="top-center">
+            <SelectionToolbar
+              count={selectedNodeIds.length}
+              folderCount={
+                selectedNodeIds.filter(
+                  (id: string) => findNodeById(fileSystemNodes, id)?.type === "folder"
+                ).length
+              }
+              onMove={() => setIsMoveModalOpen(true)}
+              onExpand={() => handleSetSelectionExpanded(true)}
+              onCollapse={() => handleSetSelectionExpanded(false)}
+              onDelete={handleDeleteSelection}
+              onClear={() => dispatch(clearSelection())}
+            />
+          </Panel>
+        )}
         <Controls />
         <MiniMap
           nodeColor={(node) => {
@@ -853,6 +2017,18 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
           >
             {contextMenu.node.type === "folder" && (
               <>
+                {contextMenu.node.id !== folderId && (
+                  <button
+                    className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+                    onClick={() => {
+                      focusFolder(contextMenu.node.id);
+                      setContextMenu(null);
+                    }}
+                  >
+                    <Focus size={16} />
+                    <span>Focus on folder</span>
+                  </button>
+                )}
                 <button
                   className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
                   onClick={() => handleCreateNode("file", contextMenu.node.id)}
@@ -869,6 +2045,41 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
                   <FolderPlus size={16} />
                   <span>New Folder</span>
                 </button>
+                {clipboard && (
+                  <button
+                    className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+                    onClick={() => handlePaste(contextMenu.node)}
+                  >
+                    <ClipboardPaste size={16} />
+                    <span>Paste</span>
+                  </button>
+                )}
+                <button
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+                  onClick={() => handleUploadFiles(contextMenu.node.id)}
+                >
+                  <Upload size={16} />
+                  <span>Upload files...</span>
+                </button>
+                <button
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+                  onClick={() => handleImportZip(contextMenu.node.id)}
+                >
+                  <FileArchive size={16} />
+                  <span>Import .zip...</span>
+                </button>
+                <button
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+                  onClick={() => {
+                    if (projectId) {
+                      fileSystemAPI.downloadZip(projectId, contextMenu.node.id);
+                    }
+                    setContextMenu(null);
+                  }}
+                >
+                  <Download size={16} />
+                  <span>Download as zip</span>
+                </button>
                 <hr className="my-1" />
               </>
             )}
@@ -893,6 +2104,35 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
                 <hr className="my-1" />
               </>
             )}
+            <button
+              className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+              onClick={() => handleStartRename(contextMenu.node.id)}
+            >
+              <Edit3 size={16} />
+              <span>Rename</span>
+            </button>
+            <button
+              className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+              onClick={() => handleCopy(contextMenu.node)}
+            >
+              <Copy size={16} />
+              <span>Copy</span>
+            </button>
+            <button
+              className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+              onClick={() => handleCut(contextMenu.node)}
+            >
+              <Scissors size={16} />
+              <span>Cut</span>
+            </button>
+            <button
+              className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 transition-colors"
+              onClick={() => handleDuplicate(contextMenu.node)}
+            >
+              <CopyPlus size={16} />
+              <span>Duplicate</span>
+            </button>
+            <hr className="my-1" />
             {contextMenu.node.id !== "root" && (
               <button
                 className="w-full px-4 py-2 text-left hover:bg-red-100 text-red-600 flex items-center space-x-2 transition-colors"
@@ -906,6 +2146,65 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
         </>
       )}
 
+      {/* Zip Import */}
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={handleZipSelected}
+      />
+      {zipImport && (
+        <ZipImportReport
+          fileName={zipImport.fileName}
+          importing={zipImport.importing}
+          error={zipImport.error}
+          summary={zipImport.summary}
+          onClose={() => setZipImport(null)}
+        />
+      )}
+
+      {/* Quick Open */}
+      {quickOpenRecentIds && (
+        <QuickOpenDialog
+          files={quickOpenFiles}
+          recentIds={quickOpenRecentIds}
+          onOpen={handleQuickOpen}
+          onClose={() => setQuickOpenRecentIds(null)}
+        />
+      )}
+
+      {/* File Upload */}
+      <input
+        ref={uploadInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleUploadSelected}
+      />
+
+      {/* Desktop Drop Upload */}
+      {dropUpload && (
+        <DropUploadOverlay
+          upload={dropUpload}
+          onChoose={(choice) => dropChoiceRef.current?.(choice)}
+          onClose={() => setDropUpload(null)}
+        />
+      )}
+
+      {/* Move Selection Modal */}
+      {isMoveModalOpen && (
+        <MoveToFolderModal
+          nodes={fileSystemNodes}
+          movingIds={getTopLevelIds(fileSystemNodes, selectedNodeIds)}
+          onMove={(folderId) => {
+            setIsMoveModalOpen(false);
+            handleMoveSelection(selectedNodeIds, folderId)?.catch(() => {});
+          }}
+          onClose={() => setIsMoveModalOpen(false)}
+        />
+      )}
+
       {/* Create Node Modal */}
       {isCreateModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -962,38 +2261,8 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
                   const name = (formData.get('name') as string)?.trim();
                   if (name && createParentId && projectId) {
                     // Find parent node to get its position for new node placement
-                    const findNodeById = (
-                      nodes: FileSystemNode[],
-                      id: string
-                    ): FileSystemNode | null => {
-                      for (const node of nodes) {
-                        if (node.id === id) return node;
-                        if (node.children) {
-                          const found = findNodeById(node.children, id);
-                          if (found) return found;
-                        }
-                      }
-                      return null;
-                    };
-
                     const parentNode = findNodeById(fileSystemNodes, createParentId);
-                    let newX, newY;
-
-                    if (parentNode) {
-                      if (createNodeType === "folder") {
-                        // Position folders under the parent with a gap
-                        newX = parentNode.x || 100;
-                        newY = (parentNode.y || 100) + 120; // 120px below parent
-                      } else {
-                        // Position files to the bottom-right of parent
-                        newX = (parentNode.x || 100) + 200; // 200px to the right
-                        newY = (parentNode.y || 100) + 80; // 80px below parent
-                      }
-                    } else {
-                      // Fallback to random position if parent not found
-                      newX = Math.random() * 200 + 100;
-                      newY = Math.random() * 200 + 100;
-                    }
+                    const { x: newX, y: newY } = getChildPosition(parentNode, createNodeType);
 
                     dispatch(
                       createNodeAPI({
@@ -1104,7 +2373,7 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
                     Delete Item
                   </h3>
                   <p className="text-white/80 text-sm font-medium mt-1">
-                    This action cannot be undone
+                    Deleted items can be restored from the trash
                   </p>
                 </div>
               </div>
@@ -1126,7 +2395,7 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
                       ?
                     </p>
                     <p className="text-sm text-gray-600 mt-2 leading-relaxed">
-                      This will permanently remove the item and all its contents from your project. This action cannot be reversed.
+                      The item and all its contents will be moved to the trash, where you can restore them for {trashRetentionDays} days.
                     </p>
                   </div>
                 </div>
@@ -1146,7 +2415,7 @@ const CanvasNew: React.FC<{ projectId?: string }> = ({ projectId }) => {
                 >
                   <span className="flex items-center space-x-2">
                     <Trash2 size={16} />
-                    <span>Delete Forever</span>
+                    <span>Move to Trash</span>
                   </span>
                 </button>
               </div>
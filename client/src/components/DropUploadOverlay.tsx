@@ -0,0 +1,171 @@
+import React from 'react';
+import { AlertTriangle, Loader2, Upload, X } from 'lucide-react';
+import type { ImportSkippedEntry } from '../types/index';
+
+export type DropConflictChoice = 'overwrite' | 'keep-both' | 'cancel';
+
+// Where a desktop drop is in its progress, for the overlay to show
+export type DropUploadState =
+  | { phase: 'reading'; targetName: string; done: number; total: number }
+  | { phase: 'confirm'; targetName: string; conflicts: string[] }
+  | { phase: 'uploading'; targetName: string; progress: number }
+  | { phase: 'done'; targetName: string; fileCount: number; folderCount: number; updatedCount: number; skipped: ImportSkippedEntry[] }
+  | { phase: 'error'; targetName: string; error: string };
+
+interface DropUploadOverlayProps {
+  upload: DropUploadState;
+  onChoose: (choice: DropConflictChoice) => void;
+  onClose: () => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+// Conflicting paths listed before the rest are summarised as "and N more"
+const MAX_LISTED_CONFLICTS = 8;
+
+const ProgressBar: React.FC<{ value: number }> = ({ value }) => (
+  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+    <div
+      className="h-full bg-gradient-to-r from-blue-500 to-indigo-600 transition-all duration-200"
+      style={{ width: `${Math.round(Math.min(1, Math.max(0, value)) * 100)}%` }}
+    />
+  </div>
+);
+
+// Progress of files dropped from the desktop: reading, confirming overwrites, uploading and the outcome
+const DropUploadOverlay: React.FC<DropUploadOverlayProps> = ({ upload, onChoose, onClose }) => {
+  const isBusy = upload.phase === 'reading' || upload.phase === 'uploading';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-gradient-to-br from-black/60 via-black/50 to-black/60 backdrop-blur-md" />
+      {/* Modal */}
+      <div className="relative bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-0 w-full max-w-lg mx-4 transform transition-all animate-in zoom-in-95 duration-300 slide-in-from-bottom-4">
+        {/* Gradient Header */}
+        <div className="relative overflow-hidden rounded-t-2xl bg-gradient-to-r from-blue-500 via-blue-600 to-indigo-600">
+          <div className="absolute inset-0 bg-white/10 backdrop-blur-sm"></div>
+          <div className="relative px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center space-x-4 min-w-0">
+              <div className="p-3 bg-white/20 backdrop-blur-sm rounded-xl border border-white/30 shadow-lg">
+                <Upload size={24} className="text-white drop-shadow-sm" />
+              </div>
+              <div className="min-w-0">
+                <h3 className="text-xl font-bold text-white drop-shadow-sm">Upload Files</h3>
+                <p className="text-white/80 text-sm font-medium mt-1 truncate">Into "{upload.targetName}"</p>
+              </div>
+            </div>
+            {(upload.phase === 'done' || upload.phase === 'error') && (
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-white/20 rounded-xl transition-all duration-200 group border border-white/20 hover:border-white/40"
+              >
+                <X size={20} className="text-white/80 group-hover:text-white transition-colors" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {isBusy && (
+            <div className="space-y-3">
+              <div className="flex items-center space-x-3 text-gray-700">
+                <Loader2 size={20} className="animate-spin text-blue-600" />
+                <span className="font-medium">
+                  {upload.phase === 'reading'
+                    ? `Reading files... ${upload.done} of ${upload.total}`
+                    : 'Uploading...'}
+                </span>
+              </div>
+              <ProgressBar
+                value={upload.phase === 'reading' ? (upload.total ? upload.done / upload.total : 0) : upload.progress}
+              />
+            </div>
+          )}
+
+          {upload.phase === 'confirm' && (
+            <>
+              <p className="text-gray-800">
+                {upload.conflicts.length === 1
+                  ? `One file already exists in "${upload.targetName}". Replace it with the dropped file, or keep both?`
+                  : `${upload.conflicts.length} files already exist in "${upload.targetName}". Replace them with the dropped files, or keep both?`}
+              </p>
+              <ul className="max-h-48 overflow-auto space-y-1 border border-gray-200 rounded-xl p-2">
+                {upload.conflicts.slice(0, MAX_LISTED_CONFLICTS).map(path => (
+                  <li key={path} className="font-mono text-sm text-gray-800 truncate">{path}</li>
+                ))}
+                {upload.conflicts.length > MAX_LISTED_CONFLICTS && (
+                  <li className="text-sm text-gray-500">and {upload.conflicts.length - MAX_LISTED_CONFLICTS} more</li>
+                )}
+              </ul>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  onClick={() => onChoose('cancel')}
+                  className="px-5 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => onChoose('keep-both')}
+                  className="px-5 py-2.5 text-blue-700 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-xl transition-colors font-medium"
+                >
+                  Keep Both
+                </button>
+                <button
+                  onClick={() => onChoose('overwrite')}
+                  className="px-5 py-2.5 bg-gradient-to-r from-red-600 to-pink-600 text-white rounded-xl hover:from-red-700 hover:to-pink-700 transition-all duration-200 shadow-lg font-semibold"
+                >
+                  Overwrite
+                </button>
+              </div>
+            </>
+          )}
+
+          {upload.phase === 'error' && (
+            <div className="flex items-start space-x-3 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700">
+              <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+              <span className="text-sm font-medium">{upload.error}</span>
+            </div>
+          )}
+
+          {upload.phase === 'done' && (
+            <>
+              <p className="text-gray-800 font-medium">
+                {`Added ${plural(upload.fileCount, 'file')} and ${plural(upload.folderCount, 'folder')}`}
+                {upload.updatedCount > 0 && `, replaced ${plural(upload.updatedCount, 'file')}`}.
+              </p>
+              {upload.skipped.length > 0 && (
+                <div>
+                  <p className="text-sm font-semibold text-gray-700 mb-2">
+                    {upload.skipped.length} {upload.skipped.length === 1 ? 'file was' : 'files were'} skipped
+                  </p>
+                  <ul className="max-h-64 overflow-auto space-y-1 border border-gray-200 rounded-xl p-2">
+                    {upload.skipped.map(entry => (
+                      <li key={entry.path} className="flex items-center space-x-2 text-sm">
+                        <span className="font-mono text-gray-800 truncate">{entry.path}</span>
+                        <span className="text-gray-400 truncate">{entry.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {(upload.phase === 'done' || upload.phase === 'error') && (
+            <div className="flex justify-end pt-2">
+              <button
+                onClick={onClose}
+                className="px-5 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium"
+              >
+                Close
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DropUploadOverlay;
@@ -0,0 +1,307 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import type { DiffOnMount, MonacoDiffEditor, OnMount } from '@monaco-editor/react';
+import { ChevronDown, ChevronUp, Columns2, Rows2, Undo2, X } from 'lucide-react';
+import { fileSystemAPI } from '../services/api';
+import type { FileRevisionSummary } from '../types/index';
+
+type TextModel = NonNullable<ReturnType<Parameters<OnMount>[0]['getModel']>>;
+type LineChange = NonNullable<ReturnType<MonacoDiffEditor['getLineChanges']>>[number];
+
+// One side of the comparison: the editor's text, the saved file, or a revision from the file's history
+export type DiffSource = { kind: 'buffer' } | { kind: 'saved' } | { kind: 'revision'; id: string };
+
+export interface DiffSides {
+  original: DiffSource;
+  modified: DiffSource;
+}
+
+interface FileDiffViewProps {
+  fileId: string;
+  language: string;
+  theme: string;
+  fontSize: number;
+  savedContent: string;
+  // The live editor's model. When the buffer is on the right it is edited in place, so reverted changes
+  // reach everyone editing the file.
+  bufferModel: TextModel | null;
+  sides: DiffSides;
+  onSidesChange: (sides: DiffSides) => void;
+  onClose: () => void;
+}
+
+const sourceKey = (source: DiffSource) => (source.kind === 'revision' ? source.id : source.kind);
+
+const parseSourceKey = (key: string): DiffSource =>
+  key === 'buffer' || key === 'saved' ? { kind: key } : { kind: 'revision', id: key };
+
+const formatRevisionLabel = (revision: FileRevisionSummary) =>
+  `${new Date(revision.createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}` +
+  (revision.author ? ` by ${revision.author.name}` : '');
+
+// Index of the change containing line of the modified side, or -1
+const findChangeAt = (changes: LineChange[], line: number) =>
+  changes.findIndex(change => {
+    // A change with no modified lines sits right after modifiedStartLineNumber
+    const start = change.modifiedEndLineNumber === 0 ? change.modifiedStartLineNumber + 1 : change.modifiedStartLineNumber;
+    const end = change.modifiedEndLineNumber === 0 ? start : change.modifiedEndLineNumber;
+    return line >= start && line <= end;
+  });
+
+// Replace the lines of one change on the modified side with the matching original lines
+const revertLineChange = (original: TextModel, modified: TextModel, change: LineChange) => {
+  const eol = modified.getEOL();
+  const {
+    originalStartLineNumber: originalStart,
+    originalEndLineNumber: originalEnd,
+    modifiedStartLineNumber: modifiedStart,
+    modifiedEndLineNumber: modifiedEnd,
+  } = change;
+  const originalText = originalEnd > 0
+    ? original.getValueInRange({
+        startLineNumber: originalStart,
+        startColumn: 1,
+        endLineNumber: originalEnd,
+        endColumn: original.getLineMaxColumn(originalEnd),
+      })
+    : null;
+  const range = (startLineNumber: number, startColumn: number, endLineNumber: number, endColumn: number) => (
+    { startLineNumber, startColumn, endLineNumber, endColumn }
+  );
+
+  let edit;
+  if (modifiedEnd === 0) {
+    // Lines that were deleted: put them back after modifiedStart
+    const column = modifiedStart > 0 ? modified.getLineMaxColumn(modifiedStart) : 1;
+    edit = modifiedStart > 0
+      ? { range: range(modifiedStart, column, modifiedStart, column), text: eol + originalText }
+      : { range: range(1, 1, 1, 1), text: originalText + eol };
+  } else if (originalText === null) {
+    // Lines that were added: remove them along with a line break
+    const lastLine = modified.getLineCount();
+    edit = modifiedEnd < lastLine
+      ? { range: range(modifiedStart, 1, modifiedEnd + 1, 1), text: '' }
+      : modifiedStart > 1
+        ? { range: range(modifiedStart - 1, modified.getLineMaxColumn(modifiedStart - 1), modifiedEnd, modified.getLineMaxColumn(modifiedEnd)), text: '' }
+        : { range: range(1, 1, modifiedEnd, modified.getLineMaxColumn(modifiedEnd)), text: '' };
+  } else {
+    edit = { range: range(modifiedStart, 1, modifiedEnd, modified.getLineMaxColumn(modifiedEnd)), text: originalText };
+  }
+
+  modified.pushEditOperations([], [edit], () => null);
+};
+
+// Monaco diff of two versions of the open file, side by side or inline. With the unsaved buffer on the
+// right, the changes can be edited and reverted one at a time.
+const FileDiffView: React.FC<FileDiffViewProps> = ({
+  fileId,
+  language,
+  theme,
+  fontSize,
+  savedContent,
+  bufferModel,
+  sides,
+  onSidesChange,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<FileRevisionSummary[]>([]);
+  const [revisionContents, setRevisionContents] = useState<Record<string, string>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [sideBySide, setSideBySide] = useState(true);
+  const [diffEditor, setDiffEditor] = useState<MonacoDiffEditor | null>(null);
+  const [changes, setChanges] = useState<LineChange[]>([]);
+  const [currentChange, setCurrentChange] = useState(-1);
+
+  const editable = sides.modified.kind === 'buffer' && !!bufferModel;
+
+  useEffect(() => {
+    let cancelled = false;
+    fileSystemAPI.getRevisions(fileId)
+      .then(({ revisions }) => {
+        if (!cancelled) setRevisions(revisions);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error fetching revisions:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, savedContent]);
+
+  // Fetch the content of any revision being compared
+  useEffect(() => {
+    const missing = [sides.original, sides.modified].flatMap(source =>
+      source.kind === 'revision' && !(source.id in revisionContents) ? [source.id] : []
+    );
+    missing.forEach(revisionId => {
+      fileSystemAPI.getRevision(fileId, revisionId)
+        .then(revision => setRevisionContents(contents => ({ ...contents, [revision.id]: revision.content })))
+        .catch(error => {
+          console.error('Error fetching revision:', error);
+          setLoadError(error instanceof Error ? error.message : 'Failed to load revision');
+        });
+    });
+  }, [fileId, sides, revisionContents]);
+
+  const getContent = (source: DiffSource): string | undefined => {
+    if (source.kind === 'buffer') return bufferModel?.getValue();
+    if (source.kind === 'saved') return savedContent;
+    return revisionContents[source.id];
+  };
+
+  // Follow the diff as it is recomputed and the cursor moves through it
+  useEffect(() => {
+    if (!diffEditor) return;
+    const modifiedEditor = diffEditor.getModifiedEditor();
+    const update = () => {
+      const lineChanges = diffEditor.getLineChanges() ?? [];
+      setChanges(lineChanges);
+      const line = modifiedEditor.getPosition()?.lineNumber ?? 0;
+      setCurrentChange(findChangeAt(lineChanges, line));
+    };
+    const subscriptions = [diffEditor.onDidUpdateDiff(update), modifiedEditor.onDidChangeCursorPosition(update)];
+    update();
+    return () => subscriptions.forEach(subscription => subscription.dispose());
+  }, [diffEditor]);
+
+  const handleMount = useCallback<DiffOnMount>((editor) => {
+    if (bufferModel && sides.modified.kind === 'buffer') {
+      // Show the live model on the right instead of the copy the diff editor made
+      const { original, modified } = editor.getModel()!;
+      editor.setModel({ original, modified: bufferModel });
+      modified.dispose();
+    }
+    setDiffEditor(editor);
+  }, [bufferModel, sides.modified.kind]);
+
+  const goToChange = (target: 'next' | 'previous') => {
+    diffEditor?.goToDiff(target);
+    diffEditor?.getModifiedEditor().focus();
+  };
+
+  const handleRevert = () => {
+    const model = diffEditor?.getModel();
+    const change = changes[currentChange];
+    if (!editable || !model || !change) return;
+    revertLineChange(model.original, model.modified, change);
+    diffEditor?.getModifiedEditor().focus();
+  };
+
+  const originalContent = getContent(sides.original);
+  const modifiedContent = getContent(sides.modified);
+  const ready = originalContent !== undefined && (editable || modifiedContent !== undefined);
+
+  const renderSourceSelect = (side: keyof DiffSides) => (
+    <select
+      value={sourceKey(sides[side])}
+      onChange={(e) => onSidesChange({ ...sides, [side]: parseSourceKey(e.target.value) })}
+      className="min-w-0 max-w-[14rem] px-2 py-1 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {side === 'modified' && <option value="buffer" disabled={!bufferModel}>Unsaved changes</option>}
+      <option value="saved">Saved file</option>
+      {revisions.map(revision => (
+        <option key={revision.id} value={revision.id}>Revision {formatRevisionLabel(revision)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 text-sm bg-gray-50 border-b border-gray-200 space-x-4">
+        <div className="flex items-center space-x-2 min-w-0">
+          {renderSourceSelect('original')}
+          <span className="text-gray-400">→</span>
+          {renderSourceSelect('modified')}
+          {loadError && <span className="text-red-600 truncate">{loadError}</span>}
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          <span className="text-xs text-gray-500">
+            {changes.length === 0
+              ? 'No changes'
+              : currentChange >= 0
+                ? `Change ${currentChange + 1} of ${changes.length}`
+                : `${changes.length} ${changes.length === 1 ? 'change' : 'changes'}`}
+          </span>
+          <button
+            onClick={() => goToChange('previous')}
+            disabled={changes.length === 0}
+            className="p-1 rounded hover:bg-gray-200 text-gray-600 disabled:text-gray-300 disabled:hover:bg-transparent"
+            title="Previous change"
+          >
+            <ChevronUp size={16} />
+          </button>
+          <button
+            onClick={() => goToChange('next')}
+            disabled={changes.length === 0}
+            className="p-1 rounded hover:bg-gray-200 text-gray-600 disabled:text-gray-300 disabled:hover:bg-transparent"
+            title="Next change"
+          >
+            <ChevronDown size={16} />
+          </button>
+          {editable && (
+            <button
+              onClick={handleRevert}
+              disabled={currentChange < 0}
+              className="flex items-center space-x-1 px-2 py-1 rounded text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400"
+              title="Undo the change at the cursor (the arrows in the margin do the same)"
+            >
+              <Undo2 size={14} />
+              <span>Revert change</span>
+            </button>
+          )}
+          <div className="flex border border-gray-300 rounded overflow-hidden">
+            <button
+              onClick={() => setSideBySide(true)}
+              className={`p-1 ${sideBySide ? 'bg-gray-200 text-gray-900' : 'bg-white text-gray-500 hover:bg-gray-100'}`}
+              title="Side by side"
+            >
+              <Columns2 size={14} />
+            </button>
+            <button
+              onClick={() => setSideBySide(false)}
+              className={`p-1 ${!sideBySide ? 'bg-gray-200 text-gray-900' : 'bg-white text-gray-500 hover:bg-gray-100'}`}
+              title="Inline"
+            >
+              <Rows2 size={14} />
+            </button>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-200 text-gray-500" title="Close diff (Esc)">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {ready ? (
+          <DiffEditor
+            // The buffer's model is attached on mount, so switching to or from it needs a new diff editor
+            key={editable ? 'buffer' : 'static'}
+            height="100%"
+            language={language}
+            original={originalContent}
+            modified={editable ? undefined : modifiedContent}
+            keepCurrentModifiedModel={editable}
+            onMount={handleMount}
+            theme={theme}
+            options={{
+              renderSideBySide: sideBySide,
+              readOnly: !editable,
+              originalEditable: false,
+              renderMarginRevertIcon: editable,
+              fontSize,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              wordWrap: 'on',
+            }}
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500">Loading…</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileDiffView;
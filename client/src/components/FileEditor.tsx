@@ -1,21 +1,89 @@
-import React, { useCallback, useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect, useRef } from 'react';
 import { Editor } from '@monaco-editor/react';
-import { X, Save, Download, Copy, RotateCcw, Maximize, Minimize } from 'lucide-react';
+import type { OnMount } from '@monaco-editor/react';
+import { X, Save, Download, Copy, RotateCcw, Maximize, Minimize, Users, History, GitCompare } from 'lucide-react';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { closeEditor, updateContent } from '../store/editorSlice';
+import { closeEditor, markSaved, revealInEditor, updateContent } from '../store/editorSlice';
 import { saveFileToAPI } from '../store/editorSlice';
 import { updateFileContent } from '../store/fileSystemSlice';
+import { startCollabSession } from '../services/collaboration';
+import { fileSystemAPI } from '../services/api';
+import { realtimeService } from '../services/realtime';
+import type { CollabSession } from '../services/collaboration';
+import type { Collaborator, CollabStatus, FileRevision } from '../types/index';
+import { getInitials, getLocalUser } from '../utils/user';
+import { recordRecentFile } from '../utils/recentFiles';
+import FileHistoryPanel from './FileHistoryPanel';
+import FileDiffView from './FileDiffView';
+import type { DiffSides } from './FileDiffView';
+import BinaryFileViewer from './BinaryFileViewer';
+import { decodeBase64, getBase64Size, getMimeType } from '../utils/binaryFiles';
+
+type MonacoEditor = Parameters<OnMount>[0];
 
 const FileEditor: React.FC = () => {
   const dispatch = useAppDispatch();
-  const { isOpen, file, content, isDirty }:any = useAppSelector((state) => state.editor);
+  const { isOpen, file, content, isDirty, loading, reveal }:any = useAppSelector((state) => state.editor);
+  const projectId = useAppSelector((state) => state.fileSystem.currentProjectId);
+  const presenceUsers = useAppSelector((state) => state.presence.users);
   const [isMaximized, setIsMaximized] = useState(false);
   const [fontSize, setFontSize] = useState(14);
   const [theme, setTheme] = useState<'vs-dark' | 'light'>('vs-dark');
+  const [editorInstance, setEditorInstance] = useState<MonacoEditor | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>('connecting');
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [previewRevision, setPreviewRevision] = useState<FileRevision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [diff, setDiff] = useState<{ fileId: string; sides: DiffSides } | null>(null);
+  const sessionRef = useRef<CollabSession | null>(null);
+  const contentRef = useRef(content);
+  contentRef.current = content;
+
+  const fileId: string | undefined = file?.id;
+  // Binary files are shown read-only; saving, history and diffs only apply to text
+  const binary = !!file?.binary;
+  const mimeType: string = file ? file.metadata?.mimeType || getMimeType(file.name) : '';
+  const otherViewers = presenceUsers.filter(user => fileId && user.fileId === fileId);
+  // A preview left open for another file is not shown
+  const shownRevision = previewRevision?.fileId === fileId ? previewRevision : null;
+  const shownDiff = diff && diff.fileId === fileId ? diff.sides : null;
+  const bufferModel = !loading ? editorInstance?.getModel() ?? null : null;
+
+  // Tell the rest of the project which file we have open, and remember it for quick open
+  useEffect(() => {
+    if (!isOpen || !fileId || !projectId) return;
+    recordRecentFile(projectId, fileId);
+    return realtimeService.startEditing(projectId, fileId);
+  }, [isOpen, fileId, projectId]);
 
-  // Auto-save functionality
+  // Share the open file with everyone else editing it. The session owns the editor's text from here on,
+  // so the editor is uncontrolled and the store only mirrors what it shows.
   useEffect(() => {
-    if (isDirty && file) {
+    // A closed editor's instance lingers until the next mount, but its model is gone
+    if (!isOpen || loading || !fileId || !editorInstance?.getModel()) return;
+    const session = startCollabSession({
+      fileId,
+      projectId,
+      content: contentRef.current,
+      editor: editorInstance,
+      user: getLocalUser(),
+      onStatusChange: setCollabStatus,
+      onCollaboratorsChange: setCollaborators,
+      onSaved: (savedContent) => dispatch(markSaved(savedContent)),
+    });
+    sessionRef.current = session;
+
+    return () => {
+      session.destroy();
+      sessionRef.current = null;
+      setCollaborators([]);
+    };
+  }, [isOpen, loading, editorInstance, fileId, projectId, dispatch]);
+
+  // Live sessions are saved by the server; offline edits fall back to auto-saving over REST
+  useEffect(() => {
+    if (isDirty && file && collabStatus === 'offline') {
       const autoSaveTimer = setTimeout(() => {
         dispatch(saveFileToAPI({ id: file.id, content }));
         dispatch(updateFileContent({ id: file.id, content }));
@@ -23,32 +91,57 @@ const FileEditor: React.FC = () => {
 
       return () => clearTimeout(autoSaveTimer);
     }
-  }, [content, isDirty, file, dispatch]);
+  }, [content, isDirty, file, collabStatus, dispatch]);
+
+  // Jump to a range asked for from outside, such as a search match, once the file's text is in the editor
+  useEffect(() => {
+    if (!reveal || loading || !editorInstance?.getModel()) return;
+    const { line, column, length } = reveal;
+    setDiff(null);
+    setPreviewRevision(null);
+    editorInstance.setSelection({ startLineNumber: line, startColumn: column, endLineNumber: line, endColumn: column + length });
+    editorInstance.revealLineInCenter(line);
+    editorInstance.focus();
+    dispatch(revealInEditor(null));
+  }, [reveal, loading, editorInstance, dispatch]);
+
+  const handleEditorMount = useCallback<OnMount>((editor) => {
+    setEditorInstance(editor);
+  }, []);
 
   const handleContentChange = useCallback((value: string | undefined) => {
     dispatch(updateContent(value || ''));
   }, [dispatch]);
 
   const handleSave = useCallback(() => {
-    if (file) {
-      // Save to API
-      dispatch(saveFileToAPI({ id: file.id, content }));
-      // Also update local file system state
-      dispatch(updateFileContent({ id: file.id, content }));
+    if (!file || file.binary) return;
+    const session = sessionRef.current;
+    if (session?.isLive()) {
+      session.save()
+        .then(savedContent => dispatch(markSaved(savedContent)))
+        .catch(error => console.error('Failed to save file:', error));
+      return;
     }
+    // Save to API
+    dispatch(saveFileToAPI({ id: file.id, content }));
+    // Also update local file system state
+    dispatch(updateFileContent({ id: file.id, content }));
   }, [dispatch, file, content]);
 
   const handleClose = useCallback(() => {
-    if (isDirty) {
+    // A live session is saved by the server when the last editor leaves
+    if (isDirty && collabStatus !== 'live') {
       const confirmClose = confirm('You have unsaved changes. Are you sure you want to close?');
       if (!confirmClose) return;
     }
     dispatch(closeEditor());
-  }, [dispatch, isDirty]);
+  }, [dispatch, isDirty, collabStatus]);
 
   const handleDownload = useCallback(() => {
     if (file) {
-      const blob = new Blob([content], { type: 'text/plain' });
+      const blob = file.binary
+        ? new Blob([decodeBase64(content)], { type: file.metadata?.mimeType || getMimeType(file.name) })
+        : new Blob([content], { type: 'text/plain' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -69,9 +162,60 @@ const FileEditor: React.FC = () => {
 
   const handleReset = useCallback(() => {
     if (confirm('Are you sure you want to reset to the original content?')) {
-      dispatch(updateContent(file?.content || ''));
+      // Edit the model so the reset reaches everyone editing the file
+      const model = editorInstance?.getModel();
+      if (model) {
+        model.pushEditOperations([], [{ range: model.getFullModelRange(), text: file?.content || '' }], () => null);
+      } else {
+        dispatch(updateContent(file?.content || ''));
+      }
     }
-  }, [dispatch, file]);
+  }, [dispatch, file, editorInstance]);
+
+  // Restoring saves the revision's content as a new revision on the server
+  const handleRestoreRevision = useCallback(async (revision: FileRevision) => {
+    if (!file) return;
+    const session = sessionRef.current;
+    const live = !!session?.isLive();
+    if (isDirty && !live && !confirm('Restoring this revision replaces your unsaved changes. Continue?')) return;
+
+    setRestoring(true);
+    try {
+      await fileSystemAPI.restoreRevision(file.id, revision.id);
+      // A live session gets the restored text from the server; otherwise put it into the editor here
+      if (!live) {
+        const model = editorInstance?.getModel();
+        if (model) {
+          model.pushEditOperations([], [{ range: model.getFullModelRange(), text: revision.content }], () => null);
+        }
+        dispatch(markSaved(revision.content));
+      }
+      dispatch(updateFileContent({ id: file.id, content: revision.content }));
+      setPreviewRevision(null);
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+    } finally {
+      setRestoring(false);
+    }
+  }, [dispatch, file, isDirty, editorInstance]);
+
+  // Compare a version of the file with the editor's text; by default the saved file, to see unsaved changes
+  const openDiff = useCallback((original: DiffSides['original'] = { kind: 'saved' }) => {
+    if (!fileId) return;
+    setPreviewRevision(null);
+    setDiff({ fileId, sides: { original, modified: { kind: 'buffer' } } });
+  }, [fileId]);
+
+  // While comparing, picking a revision in the history puts it on the left
+  const handleHistoryPreview = useCallback((revision: FileRevision | null) => {
+    if (shownDiff && fileId) {
+      if (revision) {
+        setDiff({ fileId, sides: { ...shownDiff, original: { kind: 'revision', id: revision.id } } });
+      }
+      return;
+    }
+    setPreviewRevision(revision);
+  }, [fileId, shownDiff]);
 
   const getLanguage = (filename: string) => {
     const ext = filename.split('.').pop()?.toLowerCase();
@@ -169,7 +313,14 @@ const FileEditor: React.FC = () => {
         }
       }
       if (e.key === 'Escape') {
-        handleClose();
+        // Leave a diff or revision preview before closing the editor
+        if (shownDiff) {
+          setDiff(null);
+        } else if (shownRevision) {
+          setPreviewRevision(null);
+        } else {
+          handleClose();
+        }
       }
     };
 
@@ -177,7 +328,7 @@ const FileEditor: React.FC = () => {
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
     }
-  }, [isOpen, handleSave, handleClose]);
+  }, [isOpen, handleSave, handleClose, shownRevision, shownDiff]);
 
   if (!isOpen || !file) {
     return null;
@@ -195,11 +346,17 @@ const FileEditor: React.FC = () => {
                 {file.name}
               </h2>
               <div className="flex items-center space-x-2 text-xs text-gray-500">
-                <span>{getLanguage(file.name).toUpperCase()}</span>
-                <span>•</span>
-                <span>{content.length} characters</span>
-                <span>•</span>
-                <span>{content.split('\n').length} lines</span>
+                {binary ? (
+                  <span>{mimeType}</span>
+                ) : (
+                  <>
+                    <span>{getLanguage(file.name).toUpperCase()}</span>
+                    <span>•</span>
+                    <span>{content.length} characters</span>
+                    <span>•</span>
+                    <span>{content.split('\n').length} lines</span>
+                  </>
+                )}
               </div>
             </div>
             {isDirty && (
@@ -207,6 +364,34 @@ const FileEditor: React.FC = () => {
                 ● Unsaved
               </span>
             )}
+            {!binary && (
+              <span
+                className={`text-xs px-2 py-1 rounded-full ${
+                  collabStatus === 'live'
+                    ? 'bg-green-100 text-green-800'
+                    : collabStatus === 'connecting'
+                      ? 'bg-gray-100 text-gray-600'
+                      : 'bg-red-100 text-red-700'
+                }`}
+                title={collabStatus === 'offline' ? 'Edits stay local until the connection is back' : undefined}
+              >
+                {collabStatus === 'live' ? '● Live' : collabStatus === 'connecting' ? 'Connecting…' : 'Offline'}
+              </span>
+            )}
+            {collaborators.length > 0 && (
+              <div className="flex -space-x-2">
+                {collaborators.map(collaborator => (
+                  <span
+                    key={collaborator.clientId}
+                    className="w-7 h-7 rounded-full border-2 border-white text-white text-xs font-semibold flex items-center justify-center"
+                    style={{ backgroundColor: collaborator.color }}
+                    title={`${collaborator.name} is editing`}
+                  >
+                    {getInitials(collaborator.name)}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Toolbar */}
@@ -240,26 +425,54 @@ const FileEditor: React.FC = () => {
             </button>
 
             {/* Action Buttons */}
-            <button
-              onClick={handleReset}
-              disabled={!isDirty}
-              className={`flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium ${
-                isDirty
-                  ? 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                  : 'bg-gray-100 text-gray-400 cursor-not-allowed'
-              }`}
-              title="Reset to original"
-            >
-              <RotateCcw size={14} />
-            </button>
+            {!binary && (
+              <>
+                <button
+                  onClick={handleReset}
+                  disabled={!isDirty}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium ${
+                    isDirty
+                      ? 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                  }`}
+                  title="Reset to original"
+                >
+                  <RotateCcw size={14} />
+                </button>
 
-            <button
-              onClick={handleCopyToClipboard}
-              className="flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
-              title="Copy to clipboard"
-            >
-              <Copy size={14} />
-            </button>
+                <button
+                  onClick={() => {
+                    setShowHistory(prev => !prev);
+                    setPreviewRevision(null);
+                  }}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium ${
+                    showHistory ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                  title="Revision history"
+                >
+                  <History size={14} />
+                </button>
+
+                <button
+                  onClick={() => (shownDiff ? setDiff(null) : openDiff())}
+                  disabled={!bufferModel}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium disabled:bg-gray-100 disabled:text-gray-400 ${
+                    shownDiff ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                  title="Compare changes"
+                >
+                  <GitCompare size={14} />
+                </button>
+
+                <button
+                  onClick={handleCopyToClipboard}
+                  className="flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  title="Copy to clipboard"
+                >
+                  <Copy size={14} />
+                </button>
+              </>
+            )}
 
             <button
               onClick={handleDownload}
@@ -269,19 +482,21 @@ const FileEditor: React.FC = () => {
               <Download size={14} />
             </button>
 
-            <button
-              onClick={handleSave}
-              disabled={!isDirty}
-              className={`flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium ${
-                isDirty
-                  ? 'bg-blue-600 text-white hover:bg-blue-700'
-                  : 'bg-gray-200 text-gray-500 cursor-not-allowed'
-              }`}
-              title="Save file (Ctrl+S)"
-            >
-              <Save size={14} />
-              <span>Save</span>
-            </button>
+            {!binary && (
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className={`flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium ${
+                  isDirty
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                }`}
+                title="Save file (Ctrl+S)"
+              >
+                <Save size={14} />
+                <span>Save</span>
+              </button>
+            )}
 
             <button
               onClick={() => setIsMaximized(!isMaximized)}
@@ -302,56 +517,178 @@ const FileEditor: React.FC = () => {
           </div>
         </div>
 
+        {/* Presence notice */}
+        {otherViewers.length > 0 && (
+          <div className="flex items-center space-x-2 px-4 py-2 text-sm text-blue-800 bg-blue-50 border-b border-blue-100">
+            <Users size={14} />
+            <span>
+              {otherViewers.length === 1
+                ? `${otherViewers[0].name} also has this file open.`
+                : `${otherViewers.slice(0, -1).map(user => user.name).join(', ')} and ${otherViewers[otherViewers.length - 1].name} also have this file open.`}
+              {' '}Changes are merged live.
+            </span>
+          </div>
+        )}
+
         {/* Editor */}
-        <div className="flex-1 overflow-hidden">
-          <Editor
-            height="100%"
-            language={getLanguage(file.name)}
-            value={content}
-            onChange={handleContentChange}
-            theme={theme}
-            options={{
-              minimap: { enabled: true },
-              fontSize,
-              lineNumbers: 'on',
-              roundedSelection: false,
-              scrollBeyondLastLine: false,
-              automaticLayout: true,
-              tabSize: 2,
-              insertSpaces: true,
-              wordWrap: 'on',
-              formatOnPaste: true,
-              formatOnType: true,
-              scrollbar: {
-                vertical: 'visible',
-                horizontal: 'visible',
-                useShadows: false,
-                verticalHasArrows: true,
-                horizontalHasArrows: true,
-              },
-              suggestOnTriggerCharacters: true,
-              quickSuggestions: true,
-              bracketPairColorization: {
-                enabled: true,
-              },
-              guides: {
-                indentation: true,
-                bracketPairs: true,
-              },
-            }}
-          />
+        <div className="flex-1 flex overflow-hidden">
+          <div className="flex-1 flex flex-col min-w-0">
+            {shownDiff && (
+              <FileDiffView
+                key={file.id}
+                fileId={file.id}
+                language={getLanguage(file.name)}
+                theme={theme}
+                fontSize={fontSize}
+                savedContent={file.content || ''}
+                bufferModel={bufferModel}
+                sides={shownDiff}
+                onSidesChange={(sides) => setDiff({ fileId: file.id, sides })}
+                onClose={() => setDiff(null)}
+              />
+            )}
+            {shownRevision && !shownDiff && (
+              <div className="flex items-center justify-between px-4 py-2 text-sm text-amber-900 bg-amber-50 border-b border-amber-200">
+                <span className="truncate">
+                  Previewing the revision from {new Date(shownRevision.createdAt).toLocaleString()}
+                  {shownRevision.author && ` by ${shownRevision.author.name}`} (read-only)
+                </span>
+                <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                  <button
+                    onClick={() => setPreviewRevision(null)}
+                    className="px-3 py-1 rounded text-sm font-medium bg-white border border-amber-200 hover:bg-amber-100"
+                  >
+                    Back to editing
+                  </button>
+                  <button
+                    onClick={() => openDiff({ kind: 'revision', id: shownRevision.id })}
+                    disabled={!bufferModel}
+                    className="px-3 py-1 rounded text-sm font-medium bg-white border border-amber-200 hover:bg-amber-100 disabled:opacity-60"
+                  >
+                    Compare with current
+                  </button>
+                  <button
+                    onClick={() => handleRestoreRevision(shownRevision)}
+                    disabled={restoring}
+                    className="px-3 py-1 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60"
+                  >
+                    {restoring ? 'Restoring…' : 'Restore this revision'}
+                  </button>
+                </div>
+              </div>
+            )}
+            {shownRevision && !shownDiff && (
+              <div className="flex-1 min-h-0">
+                <Editor
+                  key={shownRevision.id}
+                  height="100%"
+                  language={getLanguage(file.name)}
+                  value={shownRevision.content}
+                  theme={theme}
+                  options={{
+                    readOnly: true,
+                    minimap: { enabled: true },
+                    fontSize,
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                    wordWrap: 'on',
+                  }}
+                />
+              </div>
+            )}
+            {/* The live editor stays mounted during a preview or diff so its collaboration session carries on.
+                It comes after the diff view, which has to let go of the editor's model before it is disposed. */}
+            <div className={shownRevision || shownDiff ? 'hidden' : 'flex-1 min-h-0'}>
+              {loading ? (
+                <div className="h-full flex items-center justify-center text-sm text-gray-500">Loading…</div>
+              ) : binary ? (
+                <BinaryFileViewer key={file.id} content={content} mimeType={mimeType} fontSize={fontSize} theme={theme} />
+              ) : (
+                <Editor
+                  key={file.id}
+                  height="100%"
+                  language={getLanguage(file.name)}
+                  defaultValue={content}
+                  onMount={handleEditorMount}
+                  onChange={handleContentChange}
+                  theme={theme}
+                  options={{
+                    minimap: { enabled: true },
+                    fontSize,
+                    lineNumbers: 'on',
+                    roundedSelection: false,
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                    tabSize: 2,
+                    insertSpaces: true,
+                    wordWrap: 'on',
+                    formatOnPaste: true,
+                    formatOnType: true,
+                    scrollbar: {
+                      vertical: 'visible',
+                      horizontal: 'visible',
+                      useShadows: false,
+                      verticalHasArrows: true,
+                      horizontalHasArrows: true,
+                    },
+                    suggestOnTriggerCharacters: true,
+                    quickSuggestions: true,
+                    bracketPairColorization: {
+                      enabled: true,
+                    },
+                    guides: {
+                      indentation: true,
+                      bracketPairs: true,
+                    },
+                  }}
+                />
+              )}
+            </div>
+          </div>
+          {showHistory && !binary && (
+            <FileHistoryPanel
+              fileId={file.id}
+              savedContent={file.content || ''}
+              previewId={
+                shownDiff
+                  ? shownDiff.original.kind === 'revision' ? shownDiff.original.id : null
+                  : shownRevision?.id ?? null
+              }
+              onPreview={handleHistoryPreview}
+              onClose={() => {
+                setShowHistory(false);
+                setPreviewRevision(null);
+              }}
+            />
+          )}
         </div>
 
         {/* Status Bar */}
         <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-t text-xs text-gray-600 rounded-b-lg">
           <div className="flex items-center space-x-4">
-            <span>Language: {getLanguage(file.name)}</span>
-            <span>Size: {(new Blob([content]).size / 1024).toFixed(2)} KB</span>
-            <span>Encoding: UTF-8</span>
+            {binary ? (
+              <>
+                <span>Type: {mimeType}</span>
+                <span>Size: {(getBase64Size(content) / 1024).toFixed(2)} KB</span>
+                <span>Encoding: Binary</span>
+              </>
+            ) : (
+              <>
+                <span>Language: {getLanguage(file.name)}</span>
+                <span>Size: {(new Blob([content]).size / 1024).toFixed(2)} KB</span>
+                <span>Encoding: UTF-8</span>
+              </>
+            )}
           </div>
           <div className="flex items-center space-x-4">
-            <span>Auto-save: {isDirty ? 'Pending' : 'Saved'}</span>
-            <span>Ctrl+S to save • Ctrl+W to close • Esc to exit</span>
+            {binary ? (
+              <span>Read-only • Ctrl+W to close • Esc to exit</span>
+            ) : (
+              <>
+                <span>{collabStatus === 'live' ? 'Saved automatically' : 'Auto-save'}: {isDirty ? 'Pending' : 'Saved'}</span>
+                <span>Ctrl+S to save • Ctrl+W to close • Esc to exit</span>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { fileSystemAPI } from '../services/api';
+import type { FileRevision, FileRevisionSummary } from '../types/index';
+import { getInitials } from '../utils/user';
+
+interface FileHistoryPanelProps {
+  fileId: string;
+  // The file's last saved content; the list is fetched again whenever it changes
+  savedContent: string;
+  previewId: string | null;
+  onPreview: (revision: FileRevision | null) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<FileRevisionSummary['source'], string> = {
+  original: 'Before history',
+  save: 'Saved',
+  upload: 'Uploaded',
+  restore: 'Restored',
+  replace: 'Find and replace',
+};
+
+const formatRevisionTime = (date: string) => {
+  const time = new Date(date);
+  const sameDay = time.toDateString() === new Date().toDateString();
+  return sameDay
+    ? `Today ${time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`
+    : time.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+// Saved revisions of the open file. Picking one previews it in the editor, where it can be restored.
+const FileHistoryPanel: React.FC<FileHistoryPanelProps> = ({ fileId, savedContent, previewId, onPreview, onClose }) => {
+  const [revisions, setRevisions] = useState<FileRevisionSummary[] | null>(null);
+  const [retention, setRetention] = useState<{ retentionDays: number; maxRevisions: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fileSystemAPI.getRevisions(fileId)
+      .then(({ revisions, retentionDays, maxRevisions }) => {
+        if (cancelled) return;
+        setRevisions(revisions);
+        setRetention({ retentionDays, maxRevisions });
+        setLoadError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error fetching revisions:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, savedContent]);
+
+  const openRevision = async (revision: FileRevisionSummary) => {
+    if (revision.id === previewId) {
+      onPreview(null);
+      return;
+    }
+    setOpeningId(revision.id);
+    try {
+      onPreview(await fileSystemAPI.getRevision(fileId, revision.id));
+    } catch (error) {
+      console.error('Error fetching revision:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load revision');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const findRevision = (id: string | null) => revisions?.find(revision => revision.id === id);
+
+  return (
+    <div className="w-80 flex-shrink-0 flex flex-col border-l border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center space-x-2 text-gray-800">
+          <History size={16} />
+          <h3 className="font-semibold text-sm">History</h3>
+        </div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-gray-200 text-gray-500" title="Close history">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {loadError && <p className="px-4 py-3 text-sm text-red-600">{loadError}</p>}
+        {!revisions && !loadError && (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 size={18} className="animate-spin" />
+          </div>
+        )}
+        {revisions?.length === 0 && (
+          <p className="px-4 py-3 text-sm text-gray-500">No revisions yet. Each save of this file is kept here.</p>
+        )}
+        <ul>
+          {revisions?.map((revision, index) => {
+            const restoredFrom = findRevision(revision.restoredFrom);
+            return (
+              <li key={revision.id}>
+                <button
+                  onClick={() => openRevision(revision)}
+                  className={`w-full flex items-start space-x-3 px-4 py-2.5 text-left border-b border-gray-100 transition-colors ${
+                    revision.id === previewId ? 'bg-blue-100' : 'hover:bg-white'
+                  }`}
+                >
+                  <span
+                    className="w-7 h-7 rounded-full flex-shrink-0 text-white text-xs font-semibold flex items-center justify-center"
+                    style={{ backgroundColor: revision.author?.color || '#9ca3af' }}
+                    title={revision.author?.name}
+                  >
+                    {revision.author ? getInitials(revision.author.name) : '–'}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-800">{formatRevisionTime(revision.createdAt)}</span>
+                      {openingId === revision.id && <Loader2 size={12} className="animate-spin text-gray-400" />}
+                      {index === 0 && openingId !== revision.id && (
+                        <span className="text-[10px] font-semibold uppercase text-green-700 bg-green-100 px-1.5 py-0.5 rounded">Current</span>
+                      )}
+                    </span>
+                    <span className="block text-xs text-gray-500 truncate">
+                      {SOURCE_LABELS[revision.source]}
+                      {revision.source === 'restore' && restoredFrom && ` from ${formatRevisionTime(restoredFrom.createdAt)}`}
+                      {revision.author && ` by ${revision.author.name}`}
+                    </span>
+                    <span className="block text-xs text-gray-400">
+                      {formatSize(revision.size)} · {revision.lineCount} {revision.lineCount === 1 ? 'line' : 'lines'}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {retention && (
+        <p className="px-4 py-2 text-[11px] leading-snug text-gray-400 border-t border-gray-200">
+          Every save is kept for a day, then the last one of each hour. Up to {retention.maxRevisions} revisions are
+          kept, for {retention.retentionDays} days.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FileHistoryPanel;
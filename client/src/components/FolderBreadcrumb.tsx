@@ -0,0 +1,69 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CornerLeftUp } from 'lucide-react';
+import { useAppSelector } from '../store/hooks';
+import { findNodeById, getAncestorIds } from '../store/fileSystemSlice';
+import type { FileSystemNode } from '../types/index';
+
+interface FolderBreadcrumbProps {
+  projectId: string;
+  folderId?: string; // The focused folder, if any
+}
+
+// Header trail from the project to the focused folder. Every step is a link, so it moves through the
+// browser history like any other navigation.
+const FolderBreadcrumb: React.FC<FolderBreadcrumbProps> = ({ projectId, folderId }) => {
+  const navigate = useNavigate();
+  const nodes = useAppSelector((state) => state.fileSystem.nodes);
+
+  const folder = folderId ? findNodeById(nodes, folderId) : null;
+  const trail = folder
+    ? [...(getAncestorIds(nodes, folder.id) || []).map(id => findNodeById(nodes, id)), folder]
+        .filter((node): node is FileSystemNode => !!node)
+    : [];
+  const parent = trail.length > 1 ? trail[trail.length - 2] : null;
+
+  const focus = (id: string | null) => navigate(id ? `/${projectId}/folder/${id}` : `/${projectId}`);
+
+  return (
+    <div className="flex items-center space-x-2 text-sm text-gray-300 min-w-0">
+      <span>Project:</span>
+      {folderId ? (
+        <button onClick={() => focus(null)} className="font-medium text-white hover:underline" title="Show the whole project">
+          {projectId}
+        </button>
+      ) : (
+        <span className="font-medium text-white">{projectId}</span>
+      )}
+      {folderId && !folder && (
+        <>
+          <span className="text-gray-400">/</span>
+          <span className="text-gray-400">…</span>
+        </>
+      )}
+      {trail.map((node, index) => (
+        <React.Fragment key={node.id}>
+          <span className="text-gray-400">/</span>
+          {index === trail.length - 1 ? (
+            <span className="font-medium text-blue-300 truncate">{node.name}</span>
+          ) : (
+            <button onClick={() => focus(node.id)} className="hover:text-white hover:underline truncate">
+              {node.name}
+            </button>
+          )}
+        </React.Fragment>
+      ))}
+      {folderId && (
+        <button
+          onClick={() => focus(parent ? parent.id : null)}
+          className="p-1 rounded text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+          title={parent ? `Up to ${parent.name}` : 'Up to the whole project'}
+        >
+          <CornerLeftUp size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FolderBreadcrumb;
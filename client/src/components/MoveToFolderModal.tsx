@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { Folder, FolderInput, Search, X } from 'lucide-react';
+import type { FileSystemNode } from '../types/index';
+import { isSameOrDescendant } from '../store/fileSystemSlice';
+
+interface MoveToFolderModalProps {
+  nodes: FileSystemNode[];
+  movingIds: string[];
+  onMove: (folderId: string) => void;
+  onClose: () => void;
+}
+
+interface FolderOption {
+  folder: FileSystemNode;
+  path: string;
+}
+
+// Flatten every folder in the tree together with its path from the root
+const collectFolders = (nodes: FileSystemNode[], parentPath = ''): FolderOption[] => {
+  const folders: FolderOption[] = [];
+  nodes.forEach(node => {
+    if (node.type !== 'folder') return;
+    const path = parentPath ? `${parentPath}/${node.name}` : node.name;
+    folders.push({ folder: node, path });
+    folders.push(...collectFolders(node.children || [], path));
+  });
+  return folders;
+};
+
+const MoveToFolderModal: React.FC<MoveToFolderModalProps> = ({ nodes, movingIds, onMove, onClose }) => {
+  const [filter, setFilter] = useState('');
+
+  // Folders that cannot hold the selection (the moved nodes themselves and anything inside them) are left out
+  const folderOptions = useMemo(() => {
+    return collectFolders(nodes).filter(({ folder }) =>
+      !movingIds.some(id => isSameOrDescendant(nodes, id, folder.id))
+    );
+  }, [nodes, movingIds]);
+
+  const visibleOptions = folderOptions.filter(({ path }) =>
+    path.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-gradient-to-br from-black/60 via-black/50 to-black/60 backdrop-blur-md"
+        onClick={onClose}
+      />
+      {/* Modal */}
+      <div className="relative bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-0 w-full max-w-lg mx-4 transform transition-all animate-in zoom-in-95 duration-300 slide-in-from-bottom-4">
+        {/* Gradient Header */}
+        <div className="relative overflow-hidden rounded-t-2xl bg-gradient-to-r from-blue-500 via-blue-600 to-indigo-600">
+          <div className="absolute inset-0 bg-white/10 backdrop-blur-sm"></div>
+          <div className="relative px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <div className="p-3 bg-white/20 backdrop-blur-sm rounded-xl border border-white/30 shadow-lg">
+                <FolderInput size={24} className="text-white drop-shadow-sm" />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white drop-shadow-sm">Move to Folder</h3>
+                <p className="text-white/80 text-sm font-medium mt-1">
+                  {movingIds.length} item{movingIds.length !== 1 ? 's' : ''} selected
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-xl transition-all duration-200 group border border-white/20 hover:border-white/40"
+            >
+              <X size={20} className="text-white/80 group-hover:text-white transition-colors" />
+            </button>
+          </div>
+        </div>
+
+        {/* Folder List */}
+        <div className="p-6 space-y-4">
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter folders..."
+              className="w-full pl-9 pr-4 py-2.5 bg-gray-50/80 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all duration-300 text-gray-800 placeholder-gray-400 font-medium"
+              autoFocus
+            />
+          </div>
+          <div className="max-h-72 overflow-auto space-y-1">
+            {visibleOptions.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No folders available</p>
+            ) : (
+              visibleOptions.map(({ folder, path }) => (
+                <button
+                  key={folder.id}
+                  onClick={() => onMove(folder.id)}
+                  className="w-full px-3 py-2 text-left rounded-lg hover:bg-blue-50 flex items-center space-x-2 transition-colors"
+                >
+                  <Folder size={16} className="text-blue-600 flex-shrink-0" />
+                  <span className="text-sm font-medium text-gray-800 truncate" title={path}>{path}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MoveToFolderModal;
@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { useAppSelector } from '../store/hooks';
+import { findNodeById } from '../store/fileSystemSlice';
+import { getInitials, getLocalUser } from '../utils/user';
+
+// Avatars shown before the rest are collapsed into "+N"
+const MAX_AVATARS = 5;
+
+// Everyone currently in the project, with the file each of them has open
+const PresenceAvatars: React.FC = () => {
+  const { users, connected } = useAppSelector((state) => state.presence);
+  const nodes = useAppSelector((state) => state.fileSystem.nodes);
+  const localUser = useMemo(() => getLocalUser(), []);
+
+  const visibleUsers = users.slice(0, MAX_AVATARS);
+  const hiddenCount = users.length - visibleUsers.length;
+
+  const describe = (name: string, fileId: string | null) => {
+    const file = fileId ? findNodeById(nodes, fileId) : null;
+    return file ? `${name} · editing ${file.name}` : `${name} · viewing the canvas`;
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className="flex -space-x-2">
+        <span
+          className="w-8 h-8 rounded-full border-2 border-gray-800 ring-2 ring-white/40 text-white text-xs font-semibold flex items-center justify-center"
+          style={{ backgroundColor: localUser.color }}
+          title={`${localUser.name} (you)`}
+        >
+          {getInitials(localUser.name)}
+        </span>
+        {visibleUsers.map(user => (
+          <span
+            key={user.socketId}
+            className="relative w-8 h-8 rounded-full border-2 border-gray-800 text-white text-xs font-semibold flex items-center justify-center"
+            style={{ backgroundColor: user.color }}
+            title={describe(user.name, user.fileId)}
+          >
+            {getInitials(user.name)}
+            {user.fileId && (
+              <span className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full bg-green-400 border border-gray-800" />
+            )}
+          </span>
+        ))}
+        {hiddenCount > 0 && (
+          <span
+            className="w-8 h-8 rounded-full border-2 border-gray-800 bg-gray-600 text-white text-xs font-semibold flex items-center justify-center"
+            title={users.slice(MAX_AVATARS).map(user => user.name).join(', ')}
+          >
+            +{hiddenCount}
+          </span>
+        )}
+      </div>
+      {!connected && (
+        <span className="text-xs text-gray-400" title="Live updates and presence resume when the connection is back">
+          Offline
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
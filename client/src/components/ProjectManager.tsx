@@ -1,13 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Plus,
+  FileArchive,
+  FileJson,
+  Download,
+  AlertTriangle,
+  X,
   FolderOpen,
   Calendar,
   Trash2,
   Edit3,
   Search,
+  LayoutTemplate,
+  Copy,
+  Loader2,
 } from 'lucide-react';
-import { projectAPI } from '../services/api';
+import { fileSystemAPI, projectAPI } from '../services/api';
+import type { FileSystemNode, ImportSkippedEntry, ProjectTemplateSummary } from '../types/index';
+import TemplatePicker from './TemplatePicker';
+import ZipImportReport from './ZipImportReport';
+import type { ZipImportSummary } from './ZipImportReport';
 
 interface Project {
   id: string;
@@ -50,6 +62,26 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
     name: '',
     description: ''
   });
+  const [zipImport, setZipImport] = useState<{
+    fileName: string;
+    importing: boolean;
+    error: string | null;
+    summary: ZipImportSummary | null;
+    projectId: string | null;
+  } | null>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ProjectTemplateSummary[]>([]);
+  const [templatesLoading, setTemplatesLoading] = useState(false);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  const [projectToTemplate, setProjectToTemplate] = useState<Project | null>(null);
+  const [templateForm, setTemplateForm] = useState({
+    name: '',
+    description: '',
+    parameterize: true
+  });
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetchProjects();
@@ -66,13 +98,31 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
     }
   };
 
+  const fetchTemplates = async () => {
+    setTemplatesLoading(true);
+    try {
+      setTemplates(await projectAPI.getTemplates());
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+    } finally {
+      setTemplatesLoading(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setSelectedTemplateId(null);
+    setShowCreateModal(true);
+    fetchTemplates();
+  };
+
   const createProject = async () => {
     if (!newProject.name.trim()) return;
 
     try {
-      const project = await projectAPI.createProject(newProject);
+      const project = await projectAPI.createProject({ ...newProject, templateId: selectedTemplateId ?? undefined });
       setProjects(prev => [project, ...prev]);
       setNewProject({ name: '', description: '' });
+      setSelectedTemplateId(null);
       setShowCreateModal(false);
       // Automatically select the new project
       onSelectProject(project.id);
@@ -81,6 +131,118 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
     }
   };
 
+  // New project from a zip; its name comes from the file name
+  const importProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setZipImport({ fileName: file.name, importing: true, error: null, summary: null, projectId: null });
+    try {
+      const { project, nodes, skipped }: { project: Project; nodes: FileSystemNode[]; skipped: ImportSkippedEntry[] } =
+        await projectAPI.importProject(file, file.name.replace(/\.zip$/i, ''));
+      setProjects(prev => [project, ...prev]);
+
+      // Only stop to show the report when something was left out
+      if (skipped.length === 0) {
+        setZipImport(null);
+        onSelectProject(project.id);
+        return;
+      }
+      setZipImport({
+        fileName: file.name,
+        importing: false,
+        error: null,
+        summary: {
+          fileCount: nodes.filter(node => node.type === 'file').length,
+          folderCount: nodes.filter(node => node.type === 'folder').length,
+          skipped
+        },
+        projectId: project.id
+      });
+    } catch (error) {
+      console.error('Error importing project:', error);
+      setZipImport({
+        fileName: file.name,
+        importing: false,
+        error: error instanceof Error ? error.message : 'Failed to import project',
+        summary: null,
+        projectId: null
+      });
+    }
+  };
+
+  // New project from a JSON snapshot exported by this or another server
+  const importSnapshot = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(await file.text());
+    } catch {
+      setImportError(`"${file.name}" is not valid JSON`);
+      return;
+    }
+
+    try {
+      const { project }: { project: Project } = await projectAPI.importSnapshot(snapshot);
+      setProjects(prev => [project, ...prev]);
+      onSelectProject(project.id);
+    } catch (error) {
+      console.error('Error importing snapshot:', error);
+      const details: string[] | undefined = (error as { response?: { data?: { details?: string[] } } }).response?.data?.details;
+      const message = error instanceof Error ? error.message : 'Failed to import snapshot';
+      setImportError(details?.length ? `${message}: ${details.join('; ')}` : message);
+    }
+  };
+
+  const deleteTemplate = async (template: ProjectTemplateSummary) => {
+    if (!confirm(`Delete the template "${template.name}"? Projects created from it are not affected.`)) return;
+
+    try {
+      await projectAPI.deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      if (selectedTemplateId === template.id) {
+        setSelectedTemplateId(null);
+      }
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
+
+  // The copy is listed but not opened, so the original stays the active project
+  const duplicateProject = async (project: Project) => {
+    setDuplicatingId(project.id);
+    try {
+      const { project: copy }: { project: Project } = await projectAPI.duplicateProject(project.id);
+      setProjects(prev => [copy, ...prev]);
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+    } finally {
+      setDuplicatingId(null);
+    }
+  };
+
+  const openTemplateModal = (project: Project) => {
+    setProjectToTemplate(project);
+    setTemplateForm({ name: project.name, description: project.description, parameterize: true });
+  };
+
+  const saveAsTemplate = async () => {
+    if (!projectToTemplate || !templateForm.name.trim()) return;
+
+    try {
+      const template = await projectAPI.saveAsTemplate(projectToTemplate.id, templateForm);
+      setTemplates(prev => [template, ...prev]);
+      setProjectToTemplate(null);
+    } catch (error) {
+      console.error('Error saving template:', error);
+    }
+  };
+
   const openEditModal = (project: Project) => {
     setProjectToEdit(project);
     setEditProject({
@@ -168,15 +330,61 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
             </div>
 
           </div>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="flex items-center px-6 py-3 bg-gradient-to-r from-blue-600 via-blue-600 to-indigo-600 text-white rounded-xl hover:from-blue-700 hover:via-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95 font-semibold"
-          >
-            <Plus size={18} className="mr-2" />
-            New Project
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => zipInputRef.current?.click()}
+              className="flex items-center px-5 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-xl hover:border-blue-300 hover:bg-blue-50 transition-all duration-200 shadow-sm font-semibold"
+              title="Create a project from a .zip archive"
+            >
+              <FileArchive size={18} className="mr-2" />
+              Import .zip
+            </button>
+            <input
+              ref={zipInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={importProject}
+            />
+            <button
+              onClick={() => snapshotInputRef.current?.click()}
+              className="flex items-center px-5 py-3 bg-white text-gray-700 border-2 border-gray-200 rounded-xl hover:border-blue-300 hover:bg-blue-50 transition-all duration-200 shadow-sm font-semibold"
+              title="Create a project from a .fse.json snapshot"
+            >
+              <FileJson size={18} className="mr-2" />
+              Import snapshot
+            </button>
+            <input
+              ref={snapshotInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={importSnapshot}
+            />
+            <button
+              onClick={openCreateModal}
+              className="flex items-center px-6 py-3 bg-gradient-to-r from-blue-600 via-blue-600 to-indigo-600 text-white rounded-xl hover:from-blue-700 hover:via-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95 font-semibold"
+            >
+              <Plus size={18} className="mr-2" />
+              New Project
+            </button>
+          </div>
         </div>
 
+        {importError && (
+          <div className="flex items-start space-x-3 mb-6 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+            <span className="flex-1 text-sm font-medium break-words">{importError}</span>
+            <button
+              onClick={() => setImportError(null)}
+              className="p-1 hover:bg-red-100 rounded-lg transition-colors"
+              title="Dismiss"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
         {/* Search and View Controls */}
         <div className="flex items-center justify-between">
           <div className="relative flex-1 max-w-md">
@@ -211,7 +419,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
             </p>
             {!searchQuery && (
               <button
-                onClick={() => setShowCreateModal(true)}
+                onClick={openCreateModal}
                 className="px-8 py-4 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 font-semibold"
               >
                 Create Your First Project
@@ -258,6 +466,47 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
 
                     {/* Action buttons - positioned absolutely to prevent overflow */}
                     <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          fileSystemAPI.downloadZip(project.id);
+                        }}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200"
+                        title="Download as zip"
+                      >
+                        <Download size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          projectAPI.downloadSnapshot(project.id);
+                        }}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200"
+                        title="Export snapshot"
+                      >
+                        <FileJson size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          duplicateProject(project);
+                        }}
+                        disabled={duplicatingId === project.id}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 disabled:cursor-wait"
+                        title="Duplicate project"
+                      >
+                        {duplicatingId === project.id ? <Loader2 size={14} className="animate-spin" /> : <Copy size={14} />}
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openTemplateModal(project);
+                        }}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200"
+                        title="Save as template"
+                      >
+                        <LayoutTemplate size={14} />
+                      </button>
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -303,7 +552,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
       {/* Create Project Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-gradient-to-br from-black/60 via-black/50 to-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
-          <div className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-0 w-full max-w-lg mx-4 transform transition-all">
+          <div className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-0 w-full max-w-3xl max-h-[90vh] overflow-auto mx-4 transform transition-all">
             {/* Header */}
             <div className="relative overflow-hidden rounded-t-2xl bg-gradient-to-r from-blue-500 via-blue-600 to-indigo-600">
               <div className="absolute inset-0 bg-white/10 backdrop-blur-sm"></div>
@@ -343,10 +592,25 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                     value={newProject.description}
                     onChange={(e) => setNewProject(prev => ({ ...prev, description: e.target.value }))}
                     placeholder="Describe what this project is about..."
-                    rows={4}
+                    rows={2}
                     className="w-full px-4 py-3 bg-gray-50/80 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all duration-300 text-gray-800 placeholder-gray-400 font-medium hover:bg-gray-50 focus:bg-white focus:shadow-lg resize-none"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-3">
+                    Template
+                  </label>
+                  <TemplatePicker
+                    templates={templates}
+                    loading={templatesLoading}
+                    selectedId={selectedTemplateId}
+                    onSelect={setSelectedTemplateId}
+                    onDelete={deleteTemplate}
+                    projectName={newProject.name}
+                    description={newProject.description}
+                  />
+                </div>
               </div>
 
               {/* Action Buttons */}
@@ -355,6 +619,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                   onClick={() => {
                     setShowCreateModal(false);
                     setNewProject({ name: '', description: '' });
+                    setSelectedTemplateId(null);
                   }}
                   className="px-6 py-2.5 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-200 font-semibold hover:shadow-md focus:ring-2 focus:ring-gray-300/50 focus:outline-none"
                 >
@@ -376,6 +641,90 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
         </div>
       )}
 
+      {/* Save as Template Modal */}
+      {projectToTemplate && (
+        <div className="fixed inset-0 bg-gradient-to-br from-black/60 via-black/50 to-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+          <div className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-0 w-full max-w-lg mx-4 transform transition-all">
+            {/* Header */}
+            <div className="relative overflow-hidden rounded-t-2xl bg-gradient-to-r from-blue-500 via-blue-600 to-indigo-600">
+              <div className="absolute inset-0 bg-white/10 backdrop-blur-sm"></div>
+              <div className="relative px-6 py-5 flex items-center space-x-4">
+                <div className="p-3 bg-white/20 backdrop-blur-sm rounded-xl border border-white/30 shadow-lg">
+                  <LayoutTemplate size={24} className="text-white drop-shadow-sm" />
+                </div>
+                <div className="min-w-0">
+                  <h2 className="text-xl font-bold text-white drop-shadow-sm">Save as Template</h2>
+                  <p className="text-white/80 text-sm font-medium truncate">Start new projects from "{projectToTemplate.name}"</p>
+                </div>
+              </div>
+            </div>
+
+            {/* Form Content */}
+            <div className="p-6">
+              <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-3">
+                    Template Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={templateForm.name}
+                    onChange={(e) => setTemplateForm(prev => ({ ...prev, name: e.target.value }))}
+                    className="w-full px-4 py-3 bg-gray-50/80 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all duration-300 text-gray-800 placeholder-gray-400 font-medium hover:bg-gray-50 focus:bg-white focus:shadow-lg"
+                    autoFocus
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-3">
+                    Description
+                  </label>
+                  <textarea
+                    value={templateForm.description}
+                    onChange={(e) => setTemplateForm(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="What projects is this template for?"
+                    rows={3}
+                    className="w-full px-4 py-3 bg-gray-50/80 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all duration-300 text-gray-800 placeholder-gray-400 font-medium hover:bg-gray-50 focus:bg-white focus:shadow-lg resize-none"
+                  />
+                </div>
+
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={templateForm.parameterize}
+                    onChange={(e) => setTemplateForm(prev => ({ ...prev, parameterize: e.target.checked }))}
+                    className="mt-1 w-4 h-4 accent-blue-600"
+                  />
+                  <span className="text-sm text-gray-700">
+                    Replace "{projectToTemplate.name}" in file names and contents with the new project's name
+                  </span>
+                </label>
+              </div>
+
+              {/* Action Buttons */}
+              <div className="flex justify-end space-x-3 mt-8 pt-6 border-t border-gray-100">
+                <button
+                  onClick={() => setProjectToTemplate(null)}
+                  className="px-6 py-2.5 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-200 font-semibold hover:shadow-md focus:ring-2 focus:ring-gray-300/50 focus:outline-none"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveAsTemplate}
+                  disabled={!templateForm.name.trim()}
+                  className="px-6 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl font-semibold transition-all duration-200 hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed focus:ring-2 focus:ring-blue-300/50 focus:outline-none hover:shadow-lg transform hover:scale-105 active:scale-95 shadow-lg"
+                >
+                  <span className="flex items-center space-x-2">
+                    <LayoutTemplate size={16} />
+                    <span>Save Template</span>
+                  </span>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Edit Project Modal */}
       {showEditModal && projectToEdit && (
         <div className="fixed inset-0 bg-gradient-to-br from-black/60 via-black/50 to-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
@@ -519,6 +868,25 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
           </div>
         </div>
       )}
+
+      {/* Zip Import Report */}
+      {zipImport && (
+        <ZipImportReport
+          fileName={zipImport.fileName}
+          importing={zipImport.importing}
+          error={zipImport.error}
+          summary={zipImport.summary}
+          onClose={() => setZipImport(null)}
+          action={zipImport.projectId ? {
+            label: 'Open Project',
+            onClick: () => {
+              const { projectId } = zipImport;
+              setZipImport(null);
+              if (projectId) onSelectProject(projectId);
+            }
+          } : undefined}
+        />
+      )}
     </div>
   );
 };
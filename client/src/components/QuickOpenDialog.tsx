@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Clock, File, Search } from 'lucide-react';
+import type { FileSystemNode } from '../types/index';
+import { fuzzyMatch } from '../utils/fuzzyMatch';
+
+// A file offered by quick open, with its path below the project root
+export interface QuickOpenFile {
+  node: FileSystemNode;
+  path: string;
+}
+
+interface QuickOpenDialogProps {
+  files: QuickOpenFile[];
+  recentIds: string[]; // Most recently opened first
+  onOpen: (node: FileSystemNode) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+// The most recently opened file gets this much added to its match score, older ones less
+const RECENT_BONUS = 8;
+
+// The text with the matched characters in bold, joining neighbours into one run
+const renderMatched = (text: string, positions: Set<number>, offset: number) => {
+  const parts: React.ReactNode[] = [];
+  let run = '';
+  let runMatched = false;
+  const flush = () => {
+    if (!run) return;
+    parts.push(runMatched ? <span key={parts.length} className="text-blue-700 font-semibold">{run}</span> : run);
+    run = '';
+  };
+  text.split('').forEach((char, index) => {
+    const matched = positions.has(offset + index);
+    if (matched !== runMatched) {
+      flush();
+      runMatched = matched;
+    }
+    run += char;
+  });
+  flush();
+  return parts;
+};
+
+// Keyboard-driven file finder: fuzzy-matches the query against every file's path
+const QuickOpenDialog: React.FC<QuickOpenDialogProps> = ({ files, recentIds, onOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => {
+    const recentRank = new Map(recentIds.map((id, index) => [id, index]));
+    const recentBonus = (id: string) => {
+      const rank = recentRank.get(id);
+      return rank === undefined ? 0 : RECENT_BONUS * (1 - rank / recentIds.length);
+    };
+
+    // Without a query, recently opened files come first and the rest follow by path
+    if (!query.trim()) {
+      return [...files]
+        .sort((a, b) => (recentRank.get(a.node.id) ?? Infinity) - (recentRank.get(b.node.id) ?? Infinity)
+          || a.path.localeCompare(b.path))
+        .slice(0, MAX_RESULTS)
+        .map(file => ({ ...file, positions: new Set<number>(), recent: recentRank.has(file.node.id) }));
+    }
+
+    return files
+      .map(file => ({ file, match: fuzzyMatch(query, file.path) }))
+      .filter((entry): entry is { file: QuickOpenFile; match: NonNullable<typeof entry.match> } => !!entry.match)
+      .map(({ file, match }) => ({ file, match, score: match.score + recentBonus(file.node.id) }))
+      .sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path))
+      .slice(0, MAX_RESULTS)
+      .map(({ file, match }) => ({ ...file, positions: new Set(match.positions), recent: recentRank.has(file.node.id) }));
+  }, [files, recentIds, query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (results[activeIndex]) onOpen(results[activeIndex].node);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center items-start pt-24 px-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      {/* Dialog */}
+      <div className="relative w-full max-w-xl bg-white rounded-xl shadow-2xl border border-gray-200 overflow-hidden">
+        <div className="flex items-center space-x-2 px-4 py-3 border-b border-gray-200">
+          <Search size={16} className="text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Go to file…"
+            className="flex-1 text-sm focus:outline-none"
+            autoFocus
+          />
+          <kbd className="text-[10px] text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {results.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            {files.length === 0 ? 'This project has no files yet' : 'No files match'}
+          </p>
+        ) : (
+          <ul ref={listRef} className="max-h-96 overflow-auto py-1">
+            {results.map((result, index) => {
+              const nameStart = result.path.length - result.node.name.length;
+              const folder = result.path.slice(0, Math.max(0, nameStart - 1));
+              return (
+                <li key={result.node.id}>
+                  <button
+                    onClick={() => onOpen(result.node)}
+                    onMouseMove={() => setActiveIndex(index)}
+                    className={`w-full flex items-center space-x-3 px-4 py-2 text-left ${
+                      index === activeIndex ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <File size={14} className="flex-shrink-0 text-gray-500" />
+                    <span className="flex-1 min-w-0 flex items-baseline space-x-2">
+                      <span className="text-sm text-gray-800 whitespace-nowrap">
+                        {renderMatched(result.node.name, result.positions, nameStart)}
+                      </span>
+                      {folder && (
+                        <span className="text-xs text-gray-400 truncate">{renderMatched(folder, result.positions, 0)}</span>
+                      )}
+                    </span>
+                    {result.recent && <Clock size={12} className="flex-shrink-0 text-gray-400" aria-label="Recently opened" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <p className="px-4 py-2 text-[11px] text-gray-400 bg-gray-50 border-t border-gray-100">
+          ↑↓ to choose · Enter to open · recently opened files rank higher
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default QuickOpenDialog;
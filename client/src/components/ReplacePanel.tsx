@@ -0,0 +1,363 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CaseSensitive, ChevronDown, ChevronRight, File, Loader2, Regex, ReplaceAll, WholeWord, X } from 'lucide-react';
+import { fileSystemAPI } from '../services/api';
+import type { EditorReveal, ReplaceOptions, ReplacePreview, ReplacePreviewFile, ReplaceResult, ReplaceTarget } from '../types/index';
+
+interface ReplacePanelProps {
+  projectId: string;
+  onApply: (options: ReplaceOptions, files: ReplaceTarget[]) => Promise<ReplaceResult>;
+  onOpen: (file: ReplacePreviewFile, position?: EditorReveal) => void;
+  onClose: () => void;
+}
+
+// Wait for a pause in typing before previewing
+const PREVIEW_DELAY = 300;
+
+// "src/, *.test.ts" -> ["src/", "*.test.ts"]
+const splitGlobs = (text: string) => text.split(',').map(glob => glob.trim()).filter(Boolean);
+
+// Selections are tracked per changed line as "<file id>:<line>"
+const changeKey = (fileId: string, line: number) => `${fileId}:${line}`;
+
+const countMatches = (count: number) => `${count} ${count === 1 ? 'match' : 'matches'}`;
+const countFiles = (count: number) => `${count} ${count === 1 ? 'file' : 'files'}`;
+
+const ToggleButton: React.FC<{
+  active: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ active, title, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`p-1 rounded transition-colors ${
+      active ? 'bg-blue-100 text-blue-700' : 'text-gray-400 hover:text-gray-700 hover:bg-gray-100'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+// Side panel replacing text across the project's text files. Every change is previewed first; lines can be
+// left out one by one or a file at a time, and the rest are applied together on the server.
+const ReplacePanel: React.FC<ReplacePanelProps> = ({ projectId, onApply, onOpen, onClose }) => {
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  // The preview along with the options it was made with, which are the ones applied
+  const [preview, setPreview] = useState<{ options: ReplaceOptions; result: ReplacePreview } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [unselected, setUnselected] = useState<Set<string>>(new Set());
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // How the last replace went; kept apart from preview errors, since a fresh preview follows every replace
+  const [outcome, setOutcome] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const options = useMemo<ReplaceOptions>(() => ({
+    find,
+    replace,
+    regex,
+    caseSensitive,
+    wholeWord,
+    include: splitGlobs(include),
+    exclude: splitGlobs(exclude),
+  }), [find, replace, regex, caseSensitive, wholeWord, include, exclude]);
+
+  useEffect(() => {
+    if (!options.find) {
+      setPreview(null);
+      setError(null);
+      setPreviewing(false);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewing(true);
+    const timer = setTimeout(() => {
+      fileSystemAPI.previewReplace(projectId, options)
+        .then(result => {
+          if (cancelled) return;
+          setPreview({ options, result });
+          setUnselected(new Set());
+          setError(null);
+        })
+        .catch(previewError => {
+          if (cancelled) return;
+          console.error('Error previewing replace:', previewError);
+          setPreview(null);
+          setError(previewError instanceof Error ? previewError.message : 'Preview failed');
+        })
+        .finally(() => {
+          if (!cancelled) setPreviewing(false);
+        });
+    }, PREVIEW_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, options, refreshCount]);
+
+  const files = preview?.result.files || [];
+  const selectedLines = (file: ReplacePreviewFile) =>
+    file.changes.filter(change => !unselected.has(changeKey(file.id, change.line)));
+  const selectedCount = files.reduce(
+    (count, file) => count + selectedLines(file).reduce((sum, change) => sum + change.count, 0),
+    0
+  );
+  const selectedFileCount = files.filter(file => selectedLines(file).length > 0).length;
+
+  const toggleLine = (file: ReplacePreviewFile, line: number) => {
+    setUnselected(keys => {
+      const next = new Set(keys);
+      const key = changeKey(file.id, line);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // A partly selected file becomes fully selected; a fully selected one is left out
+  const toggleFile = (file: ReplacePreviewFile) => {
+    const selectAll = selectedLines(file).length < file.changes.length;
+    setUnselected(keys => {
+      const next = new Set(keys);
+      file.changes.forEach(change => {
+        const key = changeKey(file.id, change.line);
+        if (selectAll) next.delete(key);
+        else next.add(key);
+      });
+      return next;
+    });
+  };
+
+  const toggleCollapsed = (fileId: string) => {
+    setCollapsed(ids => {
+      const next = new Set(ids);
+      if (next.has(fileId)) next.delete(fileId);
+      else next.add(fileId);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!preview || selectedCount === 0) return;
+    const targets: ReplaceTarget[] = files
+      .map(file => ({ file, lines: selectedLines(file).map(change => change.line) }))
+      .filter(({ lines }) => lines.length > 0)
+      .map(({ file, lines }) => ({
+        id: file.id,
+        updatedAt: file.updatedAt,
+        // Files with every change selected are replaced whole
+        ...(lines.length < file.changes.length ? { lines } : {}),
+      }));
+
+    setApplying(true);
+    setOutcome(null);
+    try {
+      const result = await onApply(preview.options, targets);
+      setOutcome({ ok: true, text: result.message });
+    } catch (applyError) {
+      console.error('Error applying replace:', applyError);
+      setOutcome({ ok: false, text: (applyError as Error).message || 'Replace failed' });
+    } finally {
+      setApplying(false);
+      // Whether it worked or the files changed underneath it, show what is left to replace
+      setRefreshCount(count => count + 1);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="w-96 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-xl border border-gray-200 rounded-xl shadow-2xl overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <ReplaceAll size={18} className="text-gray-700" />
+          <h3 className="font-semibold text-gray-800">Find and replace</h3>
+          {(previewing || applying) && <Loader2 size={14} className="animate-spin text-gray-400" />}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+          title="Close find and replace"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Query, replacement and filters */}
+      <div
+        className="px-4 py-3 space-y-2 border-b border-gray-100"
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        <div className="relative">
+          <input
+            value={find}
+            onChange={(e) => setFind(e.target.value)}
+            placeholder="Find"
+            className={`${inputClassName} pr-24`}
+            autoFocus
+          />
+          <div className="absolute inset-y-0 right-1.5 flex items-center space-x-0.5">
+            <ToggleButton active={caseSensitive} title="Match case" onClick={() => setCaseSensitive(value => !value)}>
+              <CaseSensitive size={16} />
+            </ToggleButton>
+            <ToggleButton active={wholeWord} title="Match whole words" onClick={() => setWholeWord(value => !value)}>
+              <WholeWord size={16} />
+            </ToggleButton>
+            <ToggleButton active={regex} title="Use a regular expression" onClick={() => setRegex(value => !value)}>
+              <Regex size={16} />
+            </ToggleButton>
+          </div>
+        </div>
+        <input
+          value={replace}
+          onChange={(e) => setReplace(e.target.value)}
+          placeholder={regex ? 'Replace ($1 inserts the first group)' : 'Replace'}
+          className={inputClassName}
+        />
+        <div className="flex space-x-2">
+          <input
+            value={include}
+            onChange={(e) => setInclude(e.target.value)}
+            placeholder="Files to include, e.g. src/"
+            title="Comma-separated globs in .gitignore syntax, matched against paths below the project folder"
+            className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            value={exclude}
+            onChange={(e) => setExclude(e.target.value)}
+            placeholder="Files to exclude, e.g. *.test.ts"
+            title="Comma-separated globs in .gitignore syntax, matched against paths below the project folder"
+            className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {preview && (
+        <p className="px-4 py-2 text-xs text-gray-500 bg-gray-50 border-b border-gray-100">
+          {countMatches(preview.result.matchCount)} in {countFiles(preview.result.fileCount)}
+          {preview.result.truncated && '. Only the first files are shown; narrow the filters to see the rest.'}
+        </p>
+      )}
+
+      {error && (
+        <p className="px-4 py-2 text-sm text-red-600 bg-red-50 border-b border-red-100">{error}</p>
+      )}
+      {outcome && (
+        <p className={`px-4 py-2 text-sm border-b ${
+          outcome.ok ? 'text-green-700 bg-green-50 border-green-100' : 'text-red-600 bg-red-50 border-red-100'
+        }`}>
+          {outcome.text}
+        </p>
+      )}
+
+      {/* Preview */}
+      <div className="flex-1 overflow-auto">
+        {!find ? (
+          <p className="text-sm text-gray-500 text-center py-8">Type the text to replace across this project</p>
+        ) : preview && files.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">Nothing to replace. Binary files are not searched.</p>
+        ) : (
+          files.map(file => {
+            const selected = selectedLines(file).length;
+            const isCollapsed = collapsed.has(file.id);
+            return (
+              <div key={file.id} className="px-4 py-2 border-b border-gray-100 last:border-b-0">
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => toggleCollapsed(file.id)}
+                    className="text-gray-400 hover:text-gray-700"
+                    title={isCollapsed ? 'Show changes' : 'Hide changes'}
+                  >
+                    {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                  </button>
+                  <input
+                    type="checkbox"
+                    checked={selected === file.changes.length}
+                    ref={(input) => {
+                      if (input) input.indeterminate = selected > 0 && selected < file.changes.length;
+                    }}
+                    onChange={() => toggleFile(file)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    title="Replace in this file"
+                  />
+                  <button onClick={() => onOpen(file)} className="flex-1 min-w-0 flex items-center space-x-2 text-left group">
+                    <File size={14} className="flex-shrink-0 text-gray-600" />
+                    <span className="text-sm font-medium text-gray-800 truncate group-hover:text-blue-700" title={file.path}>
+                      {file.name}
+                    </span>
+                  </button>
+                  <span className="flex-shrink-0 px-1.5 py-0.5 text-xs font-semibold text-gray-600 bg-gray-200 rounded-full">
+                    {file.matchCount}
+                  </span>
+                </div>
+                <p className="ml-11 text-xs text-gray-500 truncate" title={file.path}>{file.path}</p>
+
+                {!isCollapsed && (
+                  <div className="mt-1.5 rounded-md border border-gray-100 bg-gray-50 font-mono text-[11px] leading-5 overflow-hidden">
+                    {file.changes.map(change => (
+                      <div key={change.line} className="flex items-start bg-white border-b border-gray-100 last:border-b-0">
+                        <input
+                          type="checkbox"
+                          checked={!unselected.has(changeKey(file.id, change.line))}
+                          onChange={() => toggleLine(file, change.line)}
+                          className="mt-1 ml-1.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          title="Replace on this line"
+                        />
+                        <button
+                          onClick={() => onOpen(file, { line: change.line, column: 1, length: 0 })}
+                          className="flex-1 min-w-0 flex text-left hover:bg-blue-50"
+                          title="Open the file at this line"
+                        >
+                          <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-400 select-none">{change.line}</span>
+                          <span className="min-w-0 whitespace-pre">
+                            <span className="block truncate text-red-700 bg-red-50 line-through decoration-red-300">
+                              {change.clippedStart && '…'}{change.before}
+                            </span>
+                            <span className="block truncate text-green-800 bg-green-50">
+                              {change.clippedStart && '…'}{change.after}
+                            </span>
+                          </span>
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+        <span className="text-xs text-gray-500">
+          {selectedCount > 0 ? `${countMatches(selectedCount)} in ${countFiles(selectedFileCount)} selected` : 'Nothing selected'}
+        </span>
+        <button
+          onClick={handleApply}
+          disabled={selectedCount === 0 || applying || previewing}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {applying ? 'Replacing…' : 'Replace selected'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplacePanel;
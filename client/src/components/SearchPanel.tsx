@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { File, Folder, Loader2, Search, X } from 'lucide-react';
+import { fileSystemAPI } from '../services/api';
+import type { EditorReveal, SearchContextLine, SearchLineMatch, SearchResponse, SearchResult } from '../types/index';
+
+interface SearchPanelProps {
+  projectId: string;
+  languages: string[]; // Languages of the project's files, for the filter
+  onOpen: (result: SearchResult, position?: EditorReveal) => void;
+  onClose: () => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 250;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every occurrence of the query in the text, marked. Splitting on a capture group puts the matches at odd indexes.
+const highlight = (text: string, query: string) =>
+  text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi')).map((part, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{part}</mark> : part
+  );
+
+// A file's matching lines and their context as one run of lines, so overlapping context is shown once
+const mergeLines = (matches: SearchLineMatch[]) => {
+  const lines = new Map<number, SearchContextLine & { match?: SearchLineMatch }>();
+  matches.forEach(match => {
+    [...match.before, ...match.after].forEach(context => {
+      if (!lines.has(context.line)) lines.set(context.line, context);
+    });
+    lines.set(match.line, { line: match.line, text: match.text, match });
+  });
+  return [...lines.values()].sort((a, b) => a.line - b.line);
+};
+
+const ResultLines: React.FC<{
+  result: SearchResult;
+  query: string;
+  onOpen: (position: EditorReveal) => void;
+}> = ({ result, query, onOpen }) => {
+  const lines = useMemo(() => mergeLines(result.matches), [result.matches]);
+
+  return (
+    <div className="mt-1.5 rounded-md border border-gray-100 bg-gray-50 font-mono text-[11px] leading-5 overflow-hidden">
+      {lines.map((entry, index) => (
+        <React.Fragment key={entry.line}>
+          {index > 0 && entry.line > lines[index - 1].line + 1 && (
+            <div className="px-2 text-gray-300 select-none">⋯</div>
+          )}
+          <button
+            onClick={() => onOpen(entry.match
+              ? { line: entry.line, column: entry.match.column, length: entry.match.length }
+              : { line: entry.line, column: 1, length: 0 })}
+            className={`w-full flex text-left whitespace-pre ${
+              entry.match ? 'text-gray-800 bg-white hover:bg-blue-50' : 'text-gray-400 hover:bg-gray-100'
+            }`}
+          >
+            <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-400 select-none">{entry.line}</span>
+            <span className="truncate">
+              {entry.match?.clippedStart && '…'}
+              {entry.match ? highlight(entry.text, query) : entry.text}
+            </span>
+          </button>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+// Side panel searching the names and text of the project's files and folders
+const SearchPanel: React.FC<SearchPanelProps> = ({ projectId, languages, onOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [type, setType] = useState<'' | 'file' | 'folder'>('');
+  const [language, setLanguage] = useState('');
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResponse(null);
+      setError(null);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      fileSystemAPI.searchProject(projectId, query, {
+        type: type || undefined,
+        // Folders have no language
+        language: (type !== 'folder' && language) || undefined,
+      })
+        .then(result => {
+          if (cancelled) return;
+          setResponse(result);
+          setError(null);
+        })
+        .catch(searchError => {
+          if (cancelled) return;
+          console.error('Error searching project:', searchError);
+          setError(searchError instanceof Error ? searchError.message : 'Search failed');
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, query, type, language]);
+
+  const results = response?.query === query ? response.results : [];
+  const lineCount = results.reduce((count, result) => count + result.matchCount, 0);
+
+  return (
+    <div className="w-96 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-xl border border-gray-200 rounded-xl shadow-2xl overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <Search size={18} className="text-gray-700" />
+          <h3 className="font-semibold text-gray-800">Search</h3>
+          {searching && <Loader2 size={14} className="animate-spin text-gray-400" />}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+          title="Close search"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Query and filters */}
+      <div className="px-4 py-3 space-y-2 border-b border-gray-100">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder="Search file names and contents"
+          className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          autoFocus
+        />
+        <div className="flex space-x-2">
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as '' | 'file' | 'folder')}
+            className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white"
+          >
+            <option value="">Files and folders</option>
+            <option value="file">Files only</option>
+            <option value="folder">Folders only</option>
+          </select>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            disabled={type === 'folder'}
+            className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white disabled:text-gray-400"
+          >
+            <option value="">Any language</option>
+            {languages.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {response && response.query === query && (
+        <p className="px-4 py-2 text-xs text-gray-500 bg-gray-50 border-b border-gray-100">
+          {results.length} {results.length === 1 ? 'result' : 'results'}
+          {lineCount > 0 && `, ${lineCount} matching ${lineCount === 1 ? 'line' : 'lines'}`}
+          {response.truncated && '. Only the first results are shown; narrow the search to see the rest.'}
+        </p>
+      )}
+
+      {error && (
+        <p className="px-4 py-2 text-sm text-red-600 bg-red-50 border-b border-red-100">{error}</p>
+      )}
+
+      {/* Results */}
+      <div className="flex-1 overflow-auto">
+        {!query.trim() ? (
+          <p className="text-sm text-gray-500 text-center py-8">Type to search this project</p>
+        ) : response?.query === query && results.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">Nothing matches "{query}"</p>
+        ) : (
+          results.map(result => (
+            <div key={result.id} className="px-4 py-3 border-b border-gray-100 last:border-b-0">
+              <button onClick={() => onOpen(result)} className="w-full flex items-start space-x-2 text-left group">
+                <div className="mt-0.5 flex-shrink-0">
+                  {result.type === 'folder'
+                    ? <Folder size={16} className="text-blue-600" />
+                    : <File size={16} className="text-gray-600" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate group-hover:text-blue-700" title={result.name}>
+                    {result.nameMatch ? highlight(result.name, query) : result.name}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate" title={result.path}>{result.path}</p>
+                </div>
+              </button>
+              {result.matches.length > 0 && (
+                <ResultLines result={result} query={query} onOpen={(position) => onOpen(result, position)} />
+              )}
+              {result.matchCount > result.matches.length && (
+                <p className="mt-1 text-xs text-gray-400">
+                  {result.matchCount - result.matches.length} more matching {result.matchCount - result.matches.length === 1 ? 'line' : 'lines'}
+                </p>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { FolderInput, FolderOpen, Folder, Trash2, X } from 'lucide-react';
+
+interface SelectionToolbarProps {
+  count: number;
+  folderCount: number;
+  onMove: () => void;
+  onExpand: () => void;
+  onCollapse: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const buttonClass =
+  'flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors disabled:text-gray-300 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+
+// Floating toolbar with bulk actions for the current multi-selection
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count,
+  folderCount,
+  onMove,
+  onExpand,
+  onCollapse,
+  onDelete,
+  onClear,
+}) => {
+  return (
+    <div className="flex items-center space-x-1 bg-white/95 backdrop-blur-xl border border-gray-200 rounded-xl shadow-lg px-2 py-1.5">
+      <span className="px-2 text-sm font-semibold text-blue-700">
+        {count} selected
+      </span>
+      <div className="w-px h-5 bg-gray-200" />
+      <button className={buttonClass} onClick={onMove} title="Move to folder">
+        <FolderInput size={16} />
+        <span>Move to…</span>
+      </button>
+      <button
+        className={buttonClass}
+        onClick={onExpand}
+        disabled={folderCount === 0}
+        title="Expand selected folders"
+      >
+        <FolderOpen size={16} />
+        <span>Expand</span>
+      </button>
+      <button
+        className={buttonClass}
+        onClick={onCollapse}
+        disabled={folderCount === 0}
+        title="Collapse selected folders"
+      >
+        <Folder size={16} />
+        <span>Collapse</span>
+      </button>
+      <button
+        className={`${buttonClass} text-red-600 hover:bg-red-50`}
+        onClick={onDelete}
+        title="Delete selected (Del)"
+      >
+        <Trash2 size={16} />
+        <span>Delete</span>
+      </button>
+      <div className="w-px h-5 bg-gray-200" />
+      <button
+        className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+        onClick={onClear}
+        title="Clear selection (Esc)"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
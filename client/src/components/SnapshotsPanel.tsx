@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, File, Folder, GitCompare, Loader2, RotateCcw, Trash2, X } from 'lucide-react';
+import { projectAPI } from '../services/api';
+import type { ProjectSnapshotChange, ProjectSnapshotDiff, ProjectSnapshotSummary } from '../types/index';
+
+interface SnapshotsPanelProps {
+  projectId: string;
+  onRestore: (snapshot: ProjectSnapshotSummary, backup: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ProjectSnapshotChange['status'], { label: string; className: string }> = {
+  added: { label: 'New', className: 'text-green-700 bg-green-100' },
+  removed: { label: 'Deleted', className: 'text-red-700 bg-red-100' },
+  modified: { label: 'Changed', className: 'text-amber-700 bg-amber-100' },
+};
+
+const CHANGE_LABELS: Record<NonNullable<ProjectSnapshotChange['changes']>[number], string> = {
+  content: 'content',
+  name: 'renamed',
+  folder: 'moved',
+  position: 'repositioned',
+};
+
+// Changes listed per snapshot before the rest are summarised as "and N more"
+const MAX_LISTED_CHANGES = 50;
+
+const formatSnapshotTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+// Side panel for taking named snapshots of the whole project, comparing them with the current tree and
+// restoring one
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ projectId, onRestore, onClose }) => {
+  const [snapshots, setSnapshots] = useState<ProjectSnapshotSummary[] | null>(null);
+  const [panelError, setPanelError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [diff, setDiff] = useState<ProjectSnapshotDiff | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [backup, setBackup] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  // Restores and deletes need a second click: holds "<action>:<snapshot id>"
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  const loadSnapshots = async () => {
+    try {
+      setSnapshots(await projectAPI.getSnapshots(projectId));
+    } catch (error) {
+      console.error('Error fetching snapshots:', error);
+      setPanelError(error instanceof Error ? error.message : 'Failed to load snapshots');
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    projectAPI.getSnapshots(projectId)
+      .then(list => {
+        if (!cancelled) setSnapshots(list);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error fetching snapshots:', error);
+        setPanelError(error instanceof Error ? error.message : 'Failed to load snapshots');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCreating(true);
+    setPanelError(null);
+    try {
+      const snapshot = await projectAPI.createSnapshot(projectId, name.trim());
+      setSnapshots(list => [snapshot, ...(list ?? [])]);
+      setName('');
+    } catch (error) {
+      console.error('Error creating snapshot:', error);
+      setPanelError(error instanceof Error ? error.message : 'Failed to create snapshot');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCompare = async (snapshot: ProjectSnapshotSummary) => {
+    if (diff?.snapshot.id === snapshot.id) {
+      setDiff(null);
+      return;
+    }
+    setComparingId(snapshot.id);
+    setPanelError(null);
+    try {
+      setDiff(await projectAPI.getSnapshotDiff(projectId, snapshot.id));
+    } catch (error) {
+      console.error('Error comparing snapshot:', error);
+      setPanelError(error instanceof Error ? error.message : 'Failed to compare snapshot');
+    } finally {
+      setComparingId(null);
+    }
+  };
+
+  const handleRestore = async (snapshot: ProjectSnapshotSummary) => {
+    setRestoringId(snapshot.id);
+    setPanelError(null);
+    try {
+      await onRestore(snapshot, backup);
+      setDiff(null);
+      // A backup shows up as a new snapshot
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      setPanelError(error instanceof Error ? error.message : 'Failed to restore snapshot');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleDelete = async (snapshot: ProjectSnapshotSummary) => {
+    setPanelError(null);
+    try {
+      await projectAPI.deleteSnapshot(projectId, snapshot.id);
+      setSnapshots(list => list?.filter(item => item.id !== snapshot.id) ?? null);
+      setDiff(current => (current?.snapshot.id === snapshot.id ? null : current));
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+      setPanelError(error instanceof Error ? error.message : 'Failed to delete snapshot');
+    }
+  };
+
+  // Run the action on the second click
+  const confirmThen = (key: string, action: () => void) => {
+    if (confirming === key) {
+      setConfirming(null);
+      action();
+    } else {
+      setConfirming(key);
+    }
+  };
+  const clearConfirming = (key: string) => setConfirming(current => (current === key ? null : current));
+
+  const renderDiff = ({ summary, changes }: ProjectSnapshotDiff) => (
+    <div className="mt-2 border border-gray-200 rounded-lg bg-white">
+      {changes.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-gray-500">Nothing has changed since this snapshot.</p>
+      ) : (
+        <>
+          <p className="px-3 py-2 text-xs text-gray-600 border-b border-gray-100">
+            Since this snapshot: {summary.added} new, {summary.removed} deleted, {summary.modified} changed
+          </p>
+          <ul className="max-h-56 overflow-auto py-1">
+            {changes.slice(0, MAX_LISTED_CHANGES).map(change => (
+              <li key={change.id} className="flex items-center space-x-2 px-3 py-1 text-xs">
+                <span className={`flex-shrink-0 px-1.5 py-0.5 rounded font-semibold ${STATUS_STYLES[change.status].className}`}>
+                  {STATUS_STYLES[change.status].label}
+                </span>
+                {change.type === 'folder'
+                  ? <Folder size={12} className="flex-shrink-0 text-blue-600" />
+                  : <File size={12} className="flex-shrink-0 text-gray-500" />}
+                <span className="flex-1 min-w-0">
+                  <span
+                    className="block font-mono text-gray-800 truncate"
+                    title={change.snapshotPath && change.snapshotPath !== change.path
+                      ? `${change.path}\nwas ${change.snapshotPath}`
+                      : change.path}
+                  >
+                    {change.path}
+                  </span>
+                  {change.changes && (
+                    <span className="block text-gray-400">{change.changes.map(item => CHANGE_LABELS[item]).join(', ')}</span>
+                  )}
+                </span>
+              </li>
+            ))}
+            {changes.length > MAX_LISTED_CHANGES && (
+              <li className="px-3 py-1 text-xs text-gray-500">and {changes.length - MAX_LISTED_CHANGES} more</li>
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-96 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-xl border border-gray-200 rounded-xl shadow-2xl overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <Camera size={18} className="text-gray-700" />
+          <h3 className="font-semibold text-gray-800">Snapshots</h3>
+          {snapshots && <span className="text-xs text-gray-500">{plural(snapshots.length, 'snapshot')}</span>}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+          title="Close snapshots"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <p className="px-4 py-2 text-xs text-gray-500 bg-gray-50 border-b border-gray-100">
+        A snapshot keeps every file, folder and canvas position. Restoring one replaces the whole tree.
+      </p>
+
+      <form onSubmit={handleCreate} className="flex items-center space-x-2 px-4 py-3 border-b border-gray-100">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Snapshot name, e.g. Before refactor"
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim() || creating}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {creating ? <Loader2 size={14} className="animate-spin" /> : <Camera size={14} />}
+          <span>Take</span>
+        </button>
+      </form>
+
+      {panelError && (
+        <p className="px-4 py-2 text-sm text-red-600 bg-red-50 border-b border-red-100">{panelError}</p>
+      )}
+
+      {/* Snapshots */}
+      <div className="flex-1 overflow-auto">
+        {!snapshots ? (
+          !panelError && <p className="text-sm text-gray-500 text-center py-8">Loading…</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No snapshots yet</p>
+        ) : (
+          snapshots.map(snapshot => (
+            <div key={snapshot.id} className="px-4 py-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50">
+              <p className="text-sm font-medium text-gray-800 truncate" title={snapshot.name}>{snapshot.name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {formatSnapshotTime(snapshot.createdAt)}
+                {snapshot.author && ` by ${snapshot.author.name}`}
+              </p>
+              <p className="text-xs text-gray-400 mt-0.5">
+                {plural(snapshot.fileCount, 'file')} · {plural(snapshot.folderCount, 'folder')} · {formatSize(snapshot.size)}
+              </p>
+              <div className="flex justify-end space-x-2 mt-2">
+                <button
+                  onClick={() => handleCompare(snapshot)}
+                  className={`flex items-center space-x-1 px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+                    diff?.snapshot.id === snapshot.id ? 'text-gray-900 bg-gray-200' : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                  title="Show what changed since this snapshot"
+                >
+                  {comparingId === snapshot.id ? <Loader2 size={12} className="animate-spin" /> : <GitCompare size={12} />}
+                  <span>Compare</span>
+                </button>
+                <button
+                  onClick={() => confirmThen(`restore:${snapshot.id}`, () => handleRestore(snapshot))}
+                  onBlur={() => clearConfirming(`restore:${snapshot.id}`)}
+                  disabled={restoringId !== null}
+                  className={`flex items-center space-x-1 px-2.5 py-1 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                    confirming === `restore:${snapshot.id}`
+                      ? 'text-white bg-blue-600 hover:bg-blue-700'
+                      : 'text-blue-700 bg-blue-50 hover:bg-blue-100'
+                  }`}
+                >
+                  {restoringId === snapshot.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                  <span>{confirming === `restore:${snapshot.id}` ? 'Replace the tree?' : 'Restore'}</span>
+                </button>
+                <button
+                  onClick={() => confirmThen(`delete:${snapshot.id}`, () => handleDelete(snapshot))}
+                  onBlur={() => clearConfirming(`delete:${snapshot.id}`)}
+                  className={`flex items-center space-x-1 px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+                    confirming === `delete:${snapshot.id}`
+                      ? 'text-white bg-red-600 hover:bg-red-700'
+                      : 'text-red-600 hover:bg-red-50'
+                  }`}
+                  title="Delete snapshot"
+                >
+                  <Trash2 size={12} />
+                  {confirming === `delete:${snapshot.id}` && <span>Click to confirm</span>}
+                </button>
+              </div>
+              {diff?.snapshot.id === snapshot.id && renderDiff(diff)}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Footer */}
+      <label className="flex items-center space-x-2 px-4 py-3 border-t border-gray-200 text-xs text-gray-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={backup}
+          onChange={(e) => setBackup(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>Take a snapshot of the current tree before restoring</span>
+      </label>
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
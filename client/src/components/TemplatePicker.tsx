@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Atom, BookOpen, File, Folder, FolderOpen, Loader2, Package, Server, Square, Trash2 } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { projectAPI } from '../services/api';
+import type { ProjectTemplate, ProjectTemplateSummary } from '../types/index';
+
+interface TemplatePickerProps {
+  templates: ProjectTemplateSummary[];
+  loading: boolean;
+  selectedId: string | null; // null for a blank project
+  onSelect: (templateId: string | null) => void;
+  onDelete: (template: ProjectTemplateSummary) => void;
+  // The project being created, so the preview shows its name in place of the placeholders
+  projectName: string;
+  description: string;
+}
+
+const TEMPLATE_ICONS: Record<string, LucideIcon> = {
+  atom: Atom,
+  server: Server,
+  package: Package,
+  book: BookOpen,
+};
+
+// Wait for typing to pause before filling the preview with the new project name
+const PREVIEW_DELAY = 300;
+
+// The file opened in the preview when a template is picked
+const pickPreviewFile = (template: ProjectTemplate) =>
+  template.files.find(file => /^readme\.md$/i.test(file.path)) ?? template.files[0] ?? null;
+
+// Template cards for the create-project modal, with the chosen template's files previewed underneath
+const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates,
+  loading,
+  selectedId,
+  onSelect,
+  onDelete,
+  projectName,
+  description
+}) => {
+  const [preview, setPreview] = useState<ProjectTemplate | null>(null);
+  const [previewPath, setPreviewPath] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPreviewError(null);
+    if (!selectedId) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const template = await projectAPI.getTemplate(selectedId, {
+          name: projectName.trim() || 'My Project',
+          description
+        });
+        if (cancelled) return;
+        setPreview(template);
+        setPreviewPath(path => template.files.some(file => file.path === path) ? path : pickPreviewFile(template)?.path ?? null);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error loading template preview:', error);
+        setPreview(null);
+        setPreviewError(error instanceof Error ? error.message : 'Failed to load preview');
+      }
+    }, PREVIEW_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedId, projectName, description]);
+
+  const previewFile = preview?.files.find(file => file.path === previewPath) ?? null;
+  const cardClassName = (selected: boolean) =>
+    `relative flex items-start space-x-3 p-3 rounded-xl border-2 text-left transition-all duration-200 group ${
+      selected
+        ? 'border-blue-500 bg-gradient-to-br from-blue-50 to-indigo-50 shadow-md'
+        : 'border-gray-200 hover:border-blue-300 hover:bg-blue-50/40'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-60 overflow-auto p-0.5">
+        <button type="button" onClick={() => onSelect(null)} className={cardClassName(selectedId === null)}>
+          <div className="p-2 rounded-lg bg-gray-100 text-gray-600 flex-shrink-0">
+            <Square size={18} />
+          </div>
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-900">Blank Project</p>
+            <p className="text-xs text-gray-500">An empty project root</p>
+          </div>
+        </button>
+
+        {templates.map(template => {
+          const Icon = TEMPLATE_ICONS[template.icon] ?? FolderOpen;
+          return (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => onSelect(template.id)}
+              className={cardClassName(selectedId === template.id)}
+              title={template.description}
+            >
+              <div className="p-2 rounded-lg bg-blue-100 text-blue-600 flex-shrink-0">
+                <Icon size={18} />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold text-gray-900 truncate">{template.name}</p>
+                <p className="text-xs text-gray-500 line-clamp-2">{template.description}</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {template.fileCount} {template.fileCount === 1 ? 'file' : 'files'}
+                  {!template.builtIn && ' · Custom'}
+                </p>
+              </div>
+              {!template.builtIn && (
+                <span
+                  role="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(template);
+                  }}
+                  className="absolute top-2 right-2 p-1 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all"
+                  title="Delete template"
+                >
+                  <Trash2 size={12} />
+                </span>
+              )}
+            </button>
+          );
+        })}
+
+        {loading && (
+          <div className="flex items-center justify-center p-3 text-gray-400">
+            <Loader2 size={18} className="animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {selectedId && (
+        <div className="border border-gray-200 rounded-xl overflow-hidden">
+          {previewError ? (
+            <p className="p-3 text-sm text-red-600">{previewError}</p>
+          ) : !preview ? (
+            <div className="flex items-center justify-center h-48 text-gray-400">
+              <Loader2 size={18} className="animate-spin" />
+            </div>
+          ) : (
+            <div className="flex h-56">
+              <ul className="w-2/5 overflow-auto border-r border-gray-200 bg-gray-50/80 py-2 text-sm">
+                {preview.entries.map(entry => {
+                  const depth = entry.path.split('/').length - 1;
+                  const name = entry.path.split('/').pop();
+                  return (
+                    <li key={entry.path}>
+                      <button
+                        type="button"
+                        disabled={entry.type === 'folder'}
+                        onClick={() => setPreviewPath(entry.path)}
+                        className={`w-full flex items-center space-x-1.5 py-0.5 pr-2 text-left truncate ${
+                          entry.path === previewPath ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100 disabled:hover:bg-transparent'
+                        }`}
+                        style={{ paddingLeft: `${8 + depth * 14}px` }}
+                      >
+                        {entry.type === 'folder'
+                          ? <Folder size={13} className="flex-shrink-0 text-blue-500" />
+                          : <File size={13} className="flex-shrink-0 text-gray-400" />}
+                        <span className="truncate font-mono text-xs">{name}</span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              <pre className="flex-1 overflow-auto p-3 text-xs font-mono text-gray-800 bg-white whitespace-pre">
+                {previewFile ? previewFile.content || '(empty file)' : ''}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { File, Folder, RotateCcw, Trash2, X } from 'lucide-react';
+import type { TrashItem } from '../types/index';
+
+interface TrashPanelProps {
+  items: TrashItem[];
+  retentionDays: number;
+  loading: boolean;
+  error: string | null;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onEmpty: () => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDeletedAt = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const getDaysLeft = (expiresAt: string) => Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / DAY_MS));
+
+// Side panel listing deleted subtrees with restore and permanent delete actions
+const TrashPanel: React.FC<TrashPanelProps> = ({
+  items,
+  retentionDays,
+  loading,
+  error,
+  onRestore,
+  onDelete,
+  onEmpty,
+  onClose,
+}) => {
+  // Permanent deletes need a second click: holds the item id, or 'all' for emptying the trash
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  return (
+    <div className="w-96 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-xl border border-gray-200 rounded-xl shadow-2xl overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <Trash2 size={18} className="text-gray-700" />
+          <h3 className="font-semibold text-gray-800">Trash</h3>
+          <span className="text-xs text-gray-500">{items.length} item{items.length !== 1 ? 's' : ''}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+          title="Close trash"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <p className="px-4 py-2 text-xs text-gray-500 bg-gray-50 border-b border-gray-100">
+        Items are permanently deleted {retentionDays} days after they were moved to the trash.
+      </p>
+
+      {error && (
+        <p className="px-4 py-2 text-sm text-red-600 bg-red-50 border-b border-red-100">{error}</p>
+      )}
+
+      {/* Items */}
+      <div className="flex-1 overflow-auto">
+        {loading && items.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">Loading…</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">The trash is empty</p>
+        ) : (
+          items.map(item => (
+            <div key={item.id} className="px-4 py-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50">
+              <div className="flex items-start space-x-2">
+                <div className="mt-0.5 flex-shrink-0">
+                  {item.type === 'folder'
+                    ? <Folder size={16} className="text-blue-600" />
+                    : <File size={16} className="text-gray-600" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate" title={item.name}>{item.name}</p>
+                  <p className="text-xs text-gray-500 truncate" title={item.originalPath || undefined}>
+                    {item.originalPath
+                      ? `from ${item.originalPath}`
+                      : item.originalParentId
+                        ? 'Original folder no longer exists, restores to the project root'
+                        : 'from the top level'}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    Deleted {formatDeletedAt(item.deletedAt)}
+                    {item.itemCount > 0 && ` · ${item.itemCount} item${item.itemCount !== 1 ? 's' : ''} inside`}
+                    {` · ${getDaysLeft(item.expiresAt)}d left`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2 mt-2">
+                <button
+                  onClick={() => onRestore(item.id)}
+                  className="flex items-center space-x-1 px-2.5 py-1 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                >
+                  <RotateCcw size={12} />
+                  <span>Restore</span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirming === item.id) {
+                      setConfirming(null);
+                      onDelete(item.id);
+                    } else {
+                      setConfirming(item.id);
+                    }
+                  }}
+                  onBlur={() => setConfirming(current => (current === item.id ? null : current))}
+                  className={`flex items-center space-x-1 px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+                    confirming === item.id
+                      ? 'text-white bg-red-600 hover:bg-red-700'
+                      : 'text-red-600 hover:bg-red-50'
+                  }`}
+                >
+                  <Trash2 size={12} />
+                  <span>{confirming === item.id ? 'Click to confirm' : 'Delete forever'}</span>
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Footer */}
+      {items.length > 0 && (
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={() => {
+              if (confirming === 'all') {
+                setConfirming(null);
+                onEmpty();
+              } else {
+                setConfirming('all');
+              }
+            }}
+            onBlur={() => setConfirming(current => (current === 'all' ? null : current))}
+            className={`flex items-center space-x-1.5 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+              confirming === 'all'
+                ? 'text-white bg-red-600 hover:bg-red-700'
+                : 'text-red-600 hover:bg-red-50'
+            }`}
+          >
+            <Trash2 size={14} />
+            <span>{confirming === 'all' ? `Delete ${items.length} item${items.length !== 1 ? 's' : ''} forever?` : 'Empty trash'}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { AlertTriangle, FileArchive, Loader2, X } from 'lucide-react';
+import type { ImportSkippedEntry } from '../types/index';
+
+export interface ZipImportSummary {
+  fileCount: number;
+  folderCount: number;
+  skipped: ImportSkippedEntry[];
+}
+
+interface ZipImportReportProps {
+  fileName: string;
+  importing: boolean;
+  error: string | null;
+  summary: ZipImportSummary | null;
+  onClose: () => void;
+  // Offered once the import has finished, e.g. "Open project"
+  action?: { label: string; onClick: () => void };
+}
+
+const REASON_LABELS: Record<ImportSkippedEntry['reason'], { label: string; className: string }> = {
+  ignored: { label: 'Ignored', className: 'bg-gray-100 text-gray-600' },
+  binary: { label: 'Binary', className: 'bg-purple-100 text-purple-700' },
+  'too-large': { label: 'Too large', className: 'bg-amber-100 text-amber-700' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-700' },
+  limit: { label: 'Over limit', className: 'bg-red-100 text-red-700' },
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+// Progress and outcome of a zip import, listing every entry that was left out and why
+const ZipImportReport: React.FC<ZipImportReportProps> = ({ fileName, importing, error, summary, onClose, action }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-gradient-to-br from-black/60 via-black/50 to-black/60 backdrop-blur-md"
+        onClick={importing ? undefined : onClose}
+      />
+      {/* Modal */}
+      <div className="relative bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-0 w-full max-w-lg mx-4 transform transition-all animate-in zoom-in-95 duration-300 slide-in-from-bottom-4">
+        {/* Gradient Header */}
+        <div className="relative overflow-hidden rounded-t-2xl bg-gradient-to-r from-blue-500 via-blue-600 to-indigo-600">
+          <div className="absolute inset-0 bg-white/10 backdrop-blur-sm"></div>
+          <div className="relative px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center space-x-4 min-w-0">
+              <div className="p-3 bg-white/20 backdrop-blur-sm rounded-xl border border-white/30 shadow-lg">
+                <FileArchive size={24} className="text-white drop-shadow-sm" />
+              </div>
+              <div className="min-w-0">
+                <h3 className="text-xl font-bold text-white drop-shadow-sm">Import Zip</h3>
+                <p className="text-white/80 text-sm font-medium mt-1 truncate" title={fileName}>{fileName}</p>
+              </div>
+            </div>
+            {!importing && (
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-white/20 rounded-xl transition-all duration-200 group border border-white/20 hover:border-white/40"
+              >
+                <X size={20} className="text-white/80 group-hover:text-white transition-colors" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {importing && (
+            <div className="flex items-center space-x-3 text-gray-700">
+              <Loader2 size={20} className="animate-spin text-blue-600" />
+              <span className="font-medium">Unpacking archive...</span>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start space-x-3 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700">
+              <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+              <span className="text-sm font-medium">{error}</span>
+            </div>
+          )}
+
+          {summary && (
+            <>
+              <p className="text-gray-800 font-medium">
+                Imported {plural(summary.fileCount, 'file')} and {plural(summary.folderCount, 'folder')}.
+              </p>
+              {summary.skipped.length > 0 && (
+                <div>
+                  <p className="text-sm font-semibold text-gray-700 mb-2">
+                    {summary.skipped.length} {summary.skipped.length === 1 ? 'entry was' : 'entries were'} skipped
+                  </p>
+                  <ul className="max-h-64 overflow-auto space-y-1 border border-gray-200 rounded-xl p-2">
+                    {summary.skipped.map(entry => (
+                      <li key={`${entry.path}:${entry.reason}`} className="flex items-center space-x-2 text-sm" title={entry.message}>
+                        <span className={`px-2 py-0.5 rounded-md text-xs font-semibold flex-shrink-0 ${REASON_LABELS[entry.reason].className}`}>
+                          {REASON_LABELS[entry.reason].label}
+                        </span>
+                        <span className="font-mono text-gray-800 truncate">{entry.path}</span>
+                        <span className="text-gray-400 truncate hidden sm:inline">{entry.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {!importing && (
+            <div className="flex justify-end space-x-3 pt-2">
+              <button
+                onClick={onClose}
+                className="px-5 py-2.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium"
+              >
+                Close
+              </button>
+              {action && summary && (
+                <button
+                  onClick={action.onClick}
+                  className="px-5 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg font-semibold"
+                >
+                  {action.label}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ZipImportReport;
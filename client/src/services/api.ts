@@ -1,15 +1,60 @@
 import axios from 'axios';
-import type { FileSystemNode } from '../types/index';
+import type {
+  FileContentUpdate,
+  FileRevision,
+  FileRevisionSummary,
+  FileSystemNode,
+  NodePosition,
+  ProjectSnapshotDiff,
+  ProjectSnapshotRestoreResult,
+  ProjectSnapshotSummary,
+  ProjectTemplate,
+  ProjectTemplateSummary,
+  ReplaceOptions,
+  ReplacePreview,
+  ReplaceResult,
+  ReplaceTarget,
+  RestoredTrashItem,
+  SearchResponse,
+  TrashItem,
+  ZipImportResult,
+} from '../types/index';
+import { getLocalUser } from '../utils/user';
 
 const API_BASE_URL = 'http://localhost:5000/api';
 
+// Identifies this browser tab. The server tags real-time updates with it so we can skip our own echoes.
+export const CLIENT_ID = `client_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
 const api = axios.create({
   baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
+    'X-Client-Id': CLIENT_ID,
   },
 });
 
+// Surface the server's error message instead of axios' generic status text
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    const serverMessage = error.response?.data?.error;
+    if (serverMessage) {
+      error.message = serverMessage;
+    }
+    return Promise.reject(error);
+  }
+);
+
+// Let the browser save a download itself; the server names the file with Content-Disposition
+const downloadFromUrl = (url: string) => {
+  const a = document.createElement('a');
+  a.href = url;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
 export const fileSystemAPI = {
   // Get the complete file system tree
   getTree: async (): Promise<FileSystemNode[]> => {
@@ -31,7 +76,25 @@ export const fileSystemAPI = {
 
   // Save file content
   saveFile: async (id: string, content: string): Promise<void> => {
-    await api.post(`/file/${id}`, { content });
+    await api.post(`/file/${id}`, { content, author: getLocalUser() });
+  },
+
+  // List a file's saved revisions, newest first
+  getRevisions: async (fileId: string): Promise<{ revisions: FileRevisionSummary[]; retentionDays: number; maxRevisions: number }> => {
+    const response = await api.get(`/file/${fileId}/revisions`);
+    return response.data;
+  },
+
+  // Get one revision with its content
+  getRevision: async (fileId: string, revisionId: string): Promise<FileRevision> => {
+    const response = await api.get(`/file/${fileId}/revisions/${revisionId}`);
+    return response.data;
+  },
+
+  // Save an earlier revision's content as the file's newest revision
+  restoreRevision: async (fileId: string, revisionId: string): Promise<{ file: FileSystemNode; revision: FileRevision }> => {
+    const response = await api.post(`/file/${fileId}/revisions/${revisionId}/restore`, { author: getLocalUser() });
+    return response.data;
   },
 
   // Save entire tree structure
@@ -64,11 +127,122 @@ export const fileSystemAPI = {
     await api.post(`/projects/${projectId}/node`, node);
   },
 
-  // Delete node
+  // Rename file or folder
+  renameNode: async (id: string, name: string): Promise<FileSystemNode> => {
+    const response = await api.patch(`/node/${id}/rename`, { name });
+    return response.data.node;
+  },
+
+  // Move node (and its subtree) into another folder
+  moveNode: async (id: string, parentId: string, x: number, y: number): Promise<void> => {
+    await api.patch(`/node/${id}/move`, { parentId, x, y });
+  },
+
+  // Update the positions of many nodes in one request
+  updateNodePositions: async (positions: NodePosition[], projectId: string): Promise<void> => {
+    await api.patch(`/projects/${projectId}/nodes/positions`, { positions });
+  },
+
+  // Expand or collapse many folders in one request
+  updateFoldersExpanded: async (ids: string[], expanded: boolean, projectId: string): Promise<void> => {
+    await api.patch(`/projects/${projectId}/nodes/expanded`, { ids, expanded });
+  },
+
+  // Move many nodes into one folder in one request
+  moveNodes: async (parentId: string, moves: NodePosition[], projectId: string): Promise<void> => {
+    await api.post(`/projects/${projectId}/nodes/move`, { parentId, moves });
+  },
+
+  // Move many nodes (and their descendants) to the trash in one request, or delete them for good
+  deleteNodes: async (ids: string[], projectId: string, permanent = false): Promise<void> => {
+    await api.post(`/projects/${projectId}/nodes/delete`, { ids, permanent });
+  },
+
+  // Create many nodes (a flat list with parentId links) in one request
+  createNodes: async (nodes: FileSystemNode[], projectId: string): Promise<FileSystemNode[]> => {
+    const response = await api.post(`/projects/${projectId}/nodes/batch`, { nodes });
+    return response.data.nodes;
+  },
+
+  // Create dropped files and folders and overwrite clashing files in one request, reporting upload progress (0-1)
+  uploadNodes: async (
+    nodes: FileSystemNode[],
+    updates: FileContentUpdate[],
+    projectId: string,
+    onProgress?: (progress: number) => void
+  ): Promise<void> => {
+    await api.post(`/projects/${projectId}/nodes/batch`, { nodes, updates }, {
+      onUploadProgress: (event) => onProgress?.(event.total ? event.loaded / event.total : 0),
+    });
+  },
+
+  // Unpack a zip archive into a folder
+  importZip: async (file: File, parentId: string, projectId: string): Promise<ZipImportResult> => {
+    const response = await api.post(`/projects/${projectId}/import`, file, {
+      params: { parentId },
+      headers: { 'Content-Type': 'application/zip' },
+    });
+    return response.data;
+  },
+
+  // Download a project, or one of its folders, as a zip. The browser streams the archive straight to disk.
+  downloadZip: (projectId: string, folderId?: string): void => {
+    const url = new URL(`${API_BASE_URL}/projects/${projectId}/export`);
+    if (folderId) {
+      url.searchParams.set('folderId', folderId);
+    }
+    downloadFromUrl(url.toString());
+  },
+
+  // Move node (and its descendants) to the trash
   deleteNode: async (id: string): Promise<void> => {
     await api.delete(`/node/${id}`);
   },
 
+  // List the project's trash
+  getTrash: async (projectId: string): Promise<{ items: TrashItem[]; retentionDays: number }> => {
+    const response = await api.get(`/projects/${projectId}/trash`);
+    return response.data;
+  },
+
+  // Restore trashed items (with their subtrees) in one request
+  restoreFromTrash: async (ids: string[], projectId: string): Promise<RestoredTrashItem[]> => {
+    const response = await api.post(`/projects/${projectId}/trash/restore`, { ids });
+    return response.data.restored;
+  },
+
+  // Permanently delete one trashed item
+  deleteFromTrash: async (id: string, projectId: string): Promise<void> => {
+    await api.delete(`/projects/${projectId}/trash/${id}`);
+  },
+
+  // Permanently delete everything in the trash
+  emptyTrash: async (projectId: string): Promise<void> => {
+    await api.delete(`/projects/${projectId}/trash`);
+  },
+
+  // Search the names and text contents of a project's nodes
+  searchProject: async (
+    projectId: string,
+    query: string,
+    filters: { type?: 'file' | 'folder'; language?: string } = {}
+  ): Promise<SearchResponse> => {
+    const response = await api.get('/search', { params: { q: query, projectId, ...filters } });
+    return response.data;
+  },
+
+  // Every line a find and replace would change in a project's text files
+  previewReplace: async (projectId: string, options: ReplaceOptions): Promise<ReplacePreview> => {
+    const response = await api.post(`/projects/${projectId}/replace/preview`, options);
+    return response.data;
+  },
+
+  // Apply a find and replace to the files (and lines) picked from its preview, all or nothing
+  applyReplace: async (projectId: string, options: ReplaceOptions, files: ReplaceTarget[]): Promise<ReplaceResult> => {
+    const response = await api.post(`/projects/${projectId}/replace`, { ...options, files, author: getLocalUser() });
+    return response.data;
+  },
+
   // Health check
   healthCheck: async (): Promise<{ status: string; database: string }> => {
     const response = await api.get('/health');
@@ -84,12 +258,98 @@ export const projectAPI = {
     return response.data;
   },
 
-  // Create new project
-  createProject: async (projectData: { name: string; description: string }) => {
+  // Create new project, optionally filled from a template
+  createProject: async (projectData: { name: string; description: string; templateId?: string }) => {
     const response = await api.post('/projects', projectData);
     return response.data;
   },
 
+  // Create a project from a zip archive
+  importProject: async (file: File, name: string) => {
+    const response = await api.post('/projects/import', file, {
+      params: { name },
+      headers: { 'Content-Type': 'application/zip' },
+    });
+    return response.data;
+  },
+
+  // Copy a project and all of its files under new ids
+  duplicateProject: async (projectId: string, name?: string) => {
+    const response = await api.post(`/projects/${projectId}/duplicate`, { name });
+    return response.data;
+  },
+
+  // Download the project as a versioned JSON snapshot
+  downloadSnapshot: (projectId: string): void => {
+    downloadFromUrl(`${API_BASE_URL}/projects/${projectId}/snapshot`);
+  },
+
+  // Create a project from a JSON snapshot, which may come from another server
+  importSnapshot: async (snapshot: unknown) => {
+    const response = await api.post('/projects/snapshot', snapshot);
+    return response.data;
+  },
+
+  // List the project's named snapshots, newest first
+  getSnapshots: async (projectId: string): Promise<ProjectSnapshotSummary[]> => {
+    const response = await api.get(`/projects/${projectId}/snapshots`);
+    return response.data;
+  },
+
+  // Take a named snapshot of the project's current tree
+  createSnapshot: async (projectId: string, name: string): Promise<ProjectSnapshotSummary> => {
+    const response = await api.post(`/projects/${projectId}/snapshots`, { name, author: getLocalUser() });
+    return response.data;
+  },
+
+  // Delete a named snapshot
+  deleteSnapshot: async (projectId: string, snapshotId: string) => {
+    const response = await api.delete(`/projects/${projectId}/snapshots/${snapshotId}`);
+    return response.data;
+  },
+
+  // What changed since a snapshot was taken
+  getSnapshotDiff: async (projectId: string, snapshotId: string): Promise<ProjectSnapshotDiff> => {
+    const response = await api.get(`/projects/${projectId}/snapshots/${snapshotId}/diff`);
+    return response.data;
+  },
+
+  // Replace the project's tree with a snapshot, snapshotting the current state first when backup is set
+  restoreSnapshot: async (projectId: string, snapshotId: string, backup: boolean): Promise<ProjectSnapshotRestoreResult> => {
+    const response = await api.post(`/projects/${projectId}/snapshots/${snapshotId}/restore`, {
+      backup,
+      author: getLocalUser(),
+    });
+    return response.data;
+  },
+
+  // List built-in and custom templates
+  getTemplates: async (): Promise<ProjectTemplateSummary[]> => {
+    const response = await api.get('/templates');
+    return response.data;
+  },
+
+  // Get a template's files, with placeholders filled in for the given project name
+  getTemplate: async (templateId: string, project?: { name: string; description: string }): Promise<ProjectTemplate> => {
+    const response = await api.get(`/templates/${templateId}`, { params: project });
+    return response.data;
+  },
+
+  // Save a project as a custom template
+  saveAsTemplate: async (
+    projectId: string,
+    template: { name: string; description: string; parameterize: boolean }
+  ): Promise<ProjectTemplateSummary> => {
+    const response = await api.post(`/projects/${projectId}/templates`, template);
+    return response.data;
+  },
+
+  // Delete a custom template
+  deleteTemplate: async (templateId: string) => {
+    const response = await api.delete(`/templates/${templateId}`);
+    return response.data;
+  },
+
   // Update project
   updateProject: async (projectId: string, projectData: Partial<{ name: string; description: string }>) => {
     const response = await api.put(`/projects/${projectId}`, projectData);
@@ -0,0 +1,371 @@
+import * as Y from 'yjs';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import type { editor as monacoEditor, IDisposable } from 'monaco-editor';
+import type { Collaborator, CollabStatus, UserIdentity } from '../types/index';
+import { getSocket } from './realtime';
+
+// How long to wait for the server to answer a join or save
+const ACK_TIMEOUT = 5000;
+
+// Transaction origins, so changes coming from the server aren't sent straight back to it
+const REMOTE = 'remote';
+const LOCAL = 'local';
+
+// Peers choose their own colour and it ends up in a style sheet, so anything but a plain hex colour is replaced
+const FALLBACK_COLOR = '#6b7280';
+const toSafeColor = (color: unknown) =>
+  typeof color === 'string' && /^#[0-9a-fA-F]{6}$/.test(color) ? color : FALLBACK_COLOR;
+
+interface CollabSessionOptions {
+  fileId: string;
+  projectId: string | null;
+  content: string; // Our copy of the file, used to seed the document when the server has none (mock mode)
+  editor: monacoEditor.IStandaloneCodeEditor;
+  user: UserIdentity;
+  onStatusChange: (status: CollabStatus) => void;
+  onCollaboratorsChange: (collaborators: Collaborator[]) => void;
+  onSaved: (content: string) => void;
+}
+
+export interface CollabSession {
+  isLive: () => boolean;
+  save: () => Promise<string>;
+  destroy: () => void;
+}
+
+interface JoinResponse {
+  docId?: string;
+  update?: ArrayBuffer;
+  awareness?: ArrayBuffer;
+  error?: string;
+}
+
+// Cursor and selection of an editor, anchored to the document so they survive concurrent edits
+interface SelectionState {
+  anchor: unknown;
+  head: unknown;
+}
+
+// Replace only the part of text that differs from content
+const replaceText = (text: Y.Text, content: string) => {
+  const current = text.toString();
+  if (current === content) return;
+  let start = 0;
+  while (start < current.length && start < content.length && current[start] === content[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < content.length - start &&
+    current[current.length - 1 - end] === content[content.length - 1 - end]
+  ) end++;
+  text.delete(start, current.length - start - end);
+  text.insert(start, content.slice(start, content.length - end));
+};
+
+// Edit a file together with everyone else who has it open. The Monaco model and a Yjs document are kept
+// in sync both ways; the server merges the documents of all editors and saves the result to the file.
+// While offline the editor keeps working on its own, and its edits are merged back in on reconnect.
+export const startCollabSession = ({
+  fileId,
+  projectId,
+  content,
+  editor,
+  user,
+  onStatusChange,
+  onCollaboratorsChange,
+  onSaved,
+}: CollabSessionOptions): CollabSession => {
+  const socket = getSocket();
+  const model = editor.getModel();
+
+  let doc: Y.Doc | null = null;
+  let awareness: awarenessProtocol.Awareness | null = null;
+  let docId: string | null = null; // The server's document; a new one means it was reloaded from the database
+  let live = false;
+  let destroyed = false;
+  let editedOffline = false;
+  let applyingRemote = false;
+  let decorationIds: string[] = [];
+
+  const cursorStyles = document.createElement('style');
+  document.head.appendChild(cursorStyles);
+
+  const setStatus = (status: CollabStatus) => {
+    live = status === 'live';
+    onStatusChange(status);
+  };
+
+  // Draw everyone else's cursor and selection, coloured per person, and return who they are
+  const renderCollaborators = (): Collaborator[] => {
+    if (!doc || !awareness || !model) return [];
+    const collaborators: Collaborator[] = [];
+    const decorations: monacoEditor.IModelDeltaDecoration[] = [];
+    const styles: string[] = [];
+
+    awareness.getStates().forEach((state, clientId) => {
+      if (clientId === doc!.clientID || !state.user) return;
+      const { id, name } = state.user as UserIdentity;
+      const color = toSafeColor(state.user.color);
+      collaborators.push({ clientId, id, name, color });
+
+      styles.push(
+        `.collab-selection-${clientId} { background-color: ${color}33; }`,
+        `.collab-cursor-${clientId} { border-left: 2px solid ${color}; margin-left: -1px; }`,
+        `.collab-cursor-${clientId}::after { content: ${JSON.stringify(name)}; position: absolute; transform: translateY(-100%);` +
+          ` background: ${color}; color: white; font-size: 10px; line-height: 14px; padding: 0 4px; border-radius: 3px;` +
+          ' white-space: nowrap; pointer-events: none; z-index: 10; }'
+      );
+
+      const selection = state.selection as SelectionState | undefined;
+      if (!selection) return;
+      const toOffset = (position: unknown) => {
+        const absolute = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(position), doc!);
+        return absolute ? absolute.index : null;
+      };
+      const anchor = toOffset(selection.anchor);
+      const head = toOffset(selection.head);
+      if (anchor === null || head === null) return;
+
+      const anchorPosition = model.getPositionAt(anchor);
+      const headPosition = model.getPositionAt(head);
+      if (anchor !== head) {
+        const [start, end] = anchor < head ? [anchorPosition, headPosition] : [headPosition, anchorPosition];
+        decorations.push({
+          range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+          options: { className: `collab-selection-${clientId}`, hoverMessage: { value: name } },
+        });
+      }
+      decorations.push({
+        range: {
+          startLineNumber: headPosition.lineNumber,
+          startColumn: headPosition.column,
+          endLineNumber: headPosition.lineNumber,
+          endColumn: headPosition.column,
+        },
+        options: { beforeContentClassName: `collab-cursor-${clientId}`, hoverMessage: { value: name } },
+      });
+    });
+
+    cursorStyles.textContent = styles.join('\n');
+    decorationIds = model.deltaDecorations(decorationIds, decorations);
+    return collaborators;
+  };
+
+  const shareSelection = () => {
+    const selection = editor.getSelection();
+    if (!doc || !awareness || !model || !selection) return;
+    const text = doc.getText('content');
+    // getSelectionStart() is where the selection was started (the anchor) and getPosition() where the cursor is
+    const anchor = model.getOffsetAt(selection.getSelectionStart());
+    const head = model.getOffsetAt(selection.getPosition());
+    awareness.setLocalStateField('selection', {
+      anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, anchor)),
+      head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, head)),
+    });
+  };
+
+  // Start over with the server's document and show its text in the editor
+  const loadDocument = (response: JoinResponse) => {
+    awareness?.destroy();
+    doc?.destroy();
+
+    const nextDoc = new Y.Doc();
+    const nextAwareness = new awarenessProtocol.Awareness(nextDoc);
+    const text = nextDoc.getText('content');
+    Y.applyUpdate(nextDoc, new Uint8Array(response.update!), REMOTE);
+    if (response.awareness) {
+      awarenessProtocol.applyAwarenessUpdate(nextAwareness, new Uint8Array(response.awareness), REMOTE);
+    }
+
+    // Remote edits are applied to the model one delta at a time, at their position in the text
+    text.observe((event, transaction) => {
+      if (transaction.origin === LOCAL || !model) return;
+      applyingRemote = true;
+      try {
+        let index = 0;
+        event.delta.forEach(op => {
+          if (op.retain !== undefined) {
+            index += op.retain;
+          } else if (op.insert !== undefined) {
+            const inserted = typeof op.insert === 'string' ? op.insert : '';
+            const position = model.getPositionAt(index);
+            model.applyEdits([{
+              range: { startLineNumber: position.lineNumber, startColumn: position.column, endLineNumber: position.lineNumber, endColumn: position.column },
+              text: inserted,
+            }]);
+            index += inserted.length;
+          } else if (op.delete !== undefined) {
+            const start = model.getPositionAt(index);
+            const end = model.getPositionAt(index + op.delete);
+            model.applyEdits([{
+              range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+              text: '',
+            }]);
+          }
+        });
+      } finally {
+        applyingRemote = false;
+      }
+    });
+
+    nextDoc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin === REMOTE) return;
+      if (live) {
+        socket.emit('file-update', { fileId, update });
+      } else {
+        editedOffline = true;
+      }
+    });
+
+    nextAwareness.on('update', ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+      if (origin === REMOTE || !live) return;
+      const changed = [...added, ...updated, ...removed];
+      socket.emit('file-awareness', { fileId, update: awarenessProtocol.encodeAwarenessUpdate(nextAwareness, changed) });
+    });
+    nextAwareness.on('change', () => onCollaboratorsChange(renderCollaborators()));
+    // Edits move the positions the cursors are anchored to
+    nextDoc.on('afterTransaction', () => renderCollaborators());
+
+    doc = nextDoc;
+    awareness = nextAwareness;
+    docId = response.docId || null;
+
+    if (model && model.getValue() !== text.toString()) {
+      applyingRemote = true;
+      model.pushEditOperations([], [{ range: model.getFullModelRange(), text: text.toString() }], () => null);
+      applyingRemote = false;
+    }
+  };
+
+  const join = () => {
+    if (destroyed) return;
+    setStatus('connecting');
+    editor.updateOptions({ readOnly: !doc });
+
+    socket.timeout(ACK_TIMEOUT).emit(
+      'file-join',
+      { fileId, projectId, content: model ? model.getValue() : content },
+      (error: Error | null, response: JoinResponse) => {
+        if (destroyed) return;
+        editor.updateOptions({ readOnly: false });
+        if (error || !response || response.error || !response.update) {
+          setStatus('offline');
+          return;
+        }
+
+        const offlineText = editedOffline && model ? model.getValue() : null;
+        if (!doc || response.docId !== docId) {
+          loadDocument(response);
+          // Our offline edits go on top of the reloaded document as one change
+          if (offlineText !== null && doc) {
+            setStatus('live');
+            doc.transact(() => replaceText(doc!.getText('content'), offlineText), LOCAL);
+          }
+        } else {
+          // Same document as before the disconnect: merge both ways
+          Y.applyUpdate(doc, new Uint8Array(response.update), REMOTE);
+          if (response.awareness && awareness) {
+            awarenessProtocol.applyAwarenessUpdate(awareness, new Uint8Array(response.awareness), REMOTE);
+          }
+          const missing = Y.encodeStateAsUpdate(doc, Y.encodeStateVectorFromUpdate(new Uint8Array(response.update)));
+          socket.emit('file-update', { fileId, update: missing });
+        }
+
+        editedOffline = false;
+        setStatus('live');
+        awareness?.setLocalStateField('user', user);
+        shareSelection();
+        onCollaboratorsChange(renderCollaborators());
+      }
+    );
+  };
+
+  // Local edits go into the document, and from there to everyone else
+  const disposables: IDisposable[] = [];
+  if (model) {
+    disposables.push(model.onDidChangeContent(event => {
+      if (applyingRemote) return;
+      if (!doc) {
+        // Never joined yet: the text is sent over as a whole once we are
+        editedOffline = true;
+        return;
+      }
+      const text = doc.getText('content');
+      doc.transact(() => {
+        [...event.changes]
+          .sort((a, b) => b.rangeOffset - a.rangeOffset)
+          .forEach(change => {
+            text.delete(change.rangeOffset, change.rangeLength);
+            text.insert(change.rangeOffset, change.text);
+          });
+      }, LOCAL);
+    }));
+  }
+  disposables.push(editor.onDidChangeCursorSelection(() => shareSelection()));
+
+  const handleUpdate = ({ fileId: updatedId, update }: { fileId: string; update: ArrayBuffer }) => {
+    if (updatedId === fileId && doc) {
+      Y.applyUpdate(doc, new Uint8Array(update), REMOTE);
+    }
+  };
+  const handleAwareness = ({ fileId: updatedId, update }: { fileId: string; update: ArrayBuffer }) => {
+    if (updatedId === fileId && awareness) {
+      awarenessProtocol.applyAwarenessUpdate(awareness, new Uint8Array(update), REMOTE);
+    }
+  };
+  const handleSaved = ({ fileId: savedId, content: savedContent }: { fileId: string; content: string }) => {
+    if (savedId === fileId) {
+      onSaved(savedContent);
+    }
+  };
+  const handleDisconnect = () => {
+    setStatus('offline');
+    onCollaboratorsChange([]);
+  };
+
+  socket.on('file-update', handleUpdate);
+  socket.on('file-awareness', handleAwareness);
+  socket.on('file-saved', handleSaved);
+  socket.on('connect', join);
+  socket.on('disconnect', handleDisconnect);
+
+  if (socket.connected) {
+    join();
+  } else {
+    setStatus('connecting');
+    socket.connect();
+  }
+
+  return {
+    isLive: () => live,
+
+    save: () => new Promise<string>((resolve, reject) => {
+      socket.timeout(ACK_TIMEOUT).emit('file-save', { fileId }, (error: Error | null, response: { content?: string; error?: string }) => {
+        if (error || !response || response.error || typeof response.content !== 'string') {
+          reject(new Error(response?.error || 'Failed to save file'));
+          return;
+        }
+        resolve(response.content);
+      });
+    }),
+
+    destroy: () => {
+      destroyed = true;
+      socket.off('file-update', handleUpdate);
+      socket.off('file-awareness', handleAwareness);
+      socket.off('file-saved', handleSaved);
+      socket.off('connect', join);
+      socket.off('disconnect', handleDisconnect);
+      if (socket.connected) {
+        socket.emit('file-leave', { fileId });
+      }
+      disposables.forEach(disposable => disposable.dispose());
+      if (model && !model.isDisposed()) {
+        model.deltaDecorations(decorationIds, []);
+      }
+      awareness?.destroy();
+      doc?.destroy();
+      cursorStyles.remove();
+    },
+  };
+};
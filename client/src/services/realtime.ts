@@ -0,0 +1,167 @@
+import { io } from 'socket.io-client';
+import type { Socket } from 'socket.io-client';
+import type { FileSystemNode, FileSystemNodeMetadata, NodePosition, PresenceUser, RemoteChange } from '../types/index';
+import type { AppDispatch } from '../store/index';
+import { applyRemoteChange, fetchFileSystemTree } from '../store/fileSystemSlice';
+import { setPresence, setPresenceConnected, userStartedEditing, userStoppedEditing } from '../store/presenceSlice';
+import { getLocalUser } from '../utils/user';
+import { CLIENT_ID } from './api';
+
+const SOCKET_URL = 'http://localhost:5000';
+
+// While the user is active, tell the server at most this often; it drops users who stay quiet
+const HEARTBEAT_INTERVAL = 30 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel'] as const;
+
+// Payloads of the project events the server broadcasts
+interface ProjectEvents {
+  'node-created': { node: FileSystemNode };
+  'nodes-created': { nodes: FileSystemNode[] };
+  'nodes-restored': { nodes: FileSystemNode[] };
+  'node-deleted': { id: string };
+  'nodes-deleted': { ids: string[] };
+  'node-moved': { id: string; parentId: string; x: number; y: number };
+  'nodes-moved': { parentId: string; moves: NodePosition[] };
+  'node-renamed': { id: string; name: string; metadata?: FileSystemNodeMetadata };
+  'node-position-updated': NodePosition;
+  'node-positions-updated': { positions: NodePosition[] };
+  'folder-expanded-updated': { id: string; expanded: boolean };
+  'folders-expanded-updated': { ids: string[]; expanded: boolean };
+  'file-content-updated': { id: string; content: string; binary?: boolean };
+  'tree-updated': { nodeCount: number };
+  'presence-updated': { users: PresenceUser[] };
+  'user-editing': { fileId: string; userId: string; userName: string };
+  'user-stopped-editing': { fileId: string; userId: string };
+}
+
+// Every project event says which project it belongs to and which client caused it
+interface EventOrigin {
+  projectId: string;
+  originId: string | null;
+}
+
+// One connection per tab, opened the first time a project is joined
+let socket: Socket | null = null;
+
+// The file this tab has open in the editor, announced again after every reconnect
+let editing: { projectId: string; fileId: string } | null = null;
+
+// Shared with the collaborative editor, so each tab holds a single connection
+export const getSocket = (): Socket => {
+  if (!socket) {
+    socket = io(SOCKET_URL, { autoConnect: false });
+  }
+  return socket;
+};
+
+export const realtimeService = {
+  // Follow another client's changes to a project and apply them to the store.
+  // Returns a function that stops following the project.
+  joinProject: (projectId: string, dispatch: AppDispatch): (() => void) => {
+    const socket = getSocket();
+    let hasJoined = false;
+    let lastHeartbeat = 0;
+
+    const apply = (change: RemoteChange) => dispatch(applyRemoteChange(change));
+
+    const listen = <E extends keyof ProjectEvents>(event: E, handler: (payload: ProjectEvents[E]) => void) => {
+      const eventName: string = event;
+      const listener = (payload: ProjectEvents[E] & EventOrigin) => {
+        // Our own changes are already in the store
+        if (payload.projectId !== projectId || payload.originId === CLIENT_ID) return;
+        handler(payload);
+      };
+      socket.on(eventName, listener);
+      return () => {
+        socket.off(eventName, listener);
+      };
+    };
+
+    const stopListening = [
+      listen('node-created', ({ node }) => apply({ type: 'nodes-created', nodes: [node] })),
+      listen('nodes-created', ({ nodes }) => apply({ type: 'nodes-created', nodes })),
+      listen('nodes-restored', ({ nodes }) => apply({ type: 'nodes-created', nodes })),
+      listen('node-deleted', ({ id }) => apply({ type: 'nodes-deleted', ids: [id] })),
+      listen('nodes-deleted', ({ ids }) => apply({ type: 'nodes-deleted', ids })),
+      listen('node-moved', ({ id, parentId, x, y }) => apply({ type: 'nodes-moved', parentId, moves: [{ id, x, y }] })),
+      listen('nodes-moved', ({ parentId, moves }) => apply({ type: 'nodes-moved', parentId, moves })),
+      listen('node-renamed', ({ id, name, metadata }) => apply({ type: 'node-renamed', id, name, metadata })),
+      listen('node-position-updated', ({ id, x, y }) => apply({ type: 'positions-updated', positions: [{ id, x, y }] })),
+      listen('node-positions-updated', ({ positions }) => apply({ type: 'positions-updated', positions })),
+      listen('folder-expanded-updated', ({ id, expanded }) => apply({ type: 'folders-expanded', ids: [id], expanded })),
+      listen('folders-expanded-updated', ({ ids, expanded }) => apply({ type: 'folders-expanded', ids, expanded })),
+      listen('file-content-updated', ({ id, content, binary }) => apply({ type: 'content-updated', id, content, binary })),
+      // The whole tree was replaced, so start over from the server's copy
+      listen('tree-updated', () => dispatch(fetchFileSystemTree(projectId))),
+      // Presence: other users in the project and the files they have open
+      listen('presence-updated', ({ users }) => {
+        dispatch(setPresence({ projectId, users: users.filter(user => user.socketId !== socket.id) }));
+      }),
+      listen('user-editing', ({ fileId, userId }) => dispatch(userStartedEditing({ socketId: userId, fileId }))),
+      listen('user-stopped-editing', ({ fileId, userId }) => dispatch(userStoppedEditing({ socketId: userId, fileId }))),
+    ];
+
+    // Runs on the first connect and after every reconnect: rooms don't survive a dropped connection,
+    // and anything broadcast while we were offline was missed, so rejoin and reload the tree
+    const handleConnect = () => {
+      socket.emit('join-project', projectId, getLocalUser());
+      if (editing?.projectId === projectId) {
+        socket.emit('file-edit-start', { fileId: editing.fileId });
+      }
+      dispatch(setPresenceConnected(true));
+      if (hasJoined) {
+        dispatch(fetchFileSystemTree(projectId));
+      }
+      hasJoined = true;
+      lastHeartbeat = Date.now();
+    };
+    const handleDisconnect = () => dispatch(setPresenceConnected(false));
+
+    // Activity keeps us in the presence list; after a timeout without any, the server drops us
+    const handleActivity = () => {
+      if (socket.connected && Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL) {
+        lastHeartbeat = Date.now();
+        socket.emit('presence-heartbeat');
+      }
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    socket.on('connect', handleConnect);
+    socket.on('disconnect', handleDisconnect);
+    if (socket.connected) {
+      handleConnect();
+    } else {
+      socket.connect();
+    }
+
+    return () => {
+      socket.off('connect', handleConnect);
+      socket.off('disconnect', handleDisconnect);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      stopListening.forEach(stop => stop());
+      if (socket.connected) {
+        socket.emit('leave-project', projectId);
+      }
+    };
+  },
+
+  // Let the rest of the project know which file is open in the editor.
+  // Returns a function to call when the file is closed.
+  startEditing: (projectId: string, fileId: string): (() => void) => {
+    const socket = getSocket();
+    const current = { projectId, fileId };
+    editing = current;
+    if (socket.connected) {
+      socket.emit('file-edit-start', { fileId });
+    }
+
+    return () => {
+      if (editing === current) {
+        editing = null;
+      }
+      if (socket.connected) {
+        socket.emit('file-edit-end', { fileId });
+      }
+    };
+  },
+};
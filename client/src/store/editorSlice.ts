@@ -1,7 +1,8 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-import type { EditorState, FileSystemNode } from '../types/index';
+import type { EditorReveal, EditorState, FileSystemNode } from '../types/index';
 import { fileSystemAPI } from '../services/api';
+import { applyRemoteChange, renameNodeAPI, replaceInProjectAPI } from './fileSystemSlice';
 
 // Async thunk for saving file to API
 export const saveFileToAPI = createAsyncThunk(
@@ -27,6 +28,7 @@ const initialState: EditorState = {
   content: '',
   isDirty: false,
   loading: false,
+  reveal: null,
 };
 
 const editorSlice = createSlice({
@@ -39,6 +41,7 @@ const editorSlice = createSlice({
       state.content = action.payload.content || '';
       state.isDirty = false;
       state.loading = false;
+      state.reveal = null;
     },
     openEditorAndLoadContent: (state, action: PayloadAction<FileSystemNode>) => {
       state.isOpen = true;
@@ -46,6 +49,7 @@ const editorSlice = createSlice({
       state.content = ''; // Will be loaded async
       state.isDirty = false;
       state.loading = true;
+      state.reveal = null;
     },
     closeEditor: (state) => {
       state.isOpen = false;
@@ -53,6 +57,11 @@ const editorSlice = createSlice({
       state.content = '';
       state.isDirty = false;
       state.loading = false;
+      state.reveal = null;
+    },
+    // Ask the open editor to show a range, such as a search match; it clears the request once done
+    revealInEditor: (state, action: PayloadAction<EditorReveal | null>) => {
+      state.reveal = action.payload;
     },
     updateContent: (state, action: PayloadAction<string>) => {
       state.content = action.payload;
@@ -64,6 +73,13 @@ const editorSlice = createSlice({
         state.isDirty = false;
       }
     },
+    // The server saved the shared document; edits typed since then keep the file dirty
+    markSaved: (state, action: PayloadAction<string>) => {
+      if (state.file) {
+        state.file.content = action.payload;
+        state.isDirty = state.content !== action.payload;
+      }
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -81,15 +97,54 @@ const editorSlice = createSlice({
         state.content = action.payload.content || '';
         if (state.file) {
           state.file.content = action.payload.content || '';
+          state.file.binary = !!action.payload.binary;
+          state.file.metadata = { ...state.file.metadata, ...action.payload.metadata };
         }
         state.isDirty = false;
       })
       .addCase(loadFileContent.rejected, (state) => {
         state.loading = false;
         // Keep existing content if loading fails
+      })
+      // Keep the open file's name in sync when it is renamed on the canvas
+      .addCase(renameNodeAPI.fulfilled, (state, action) => {
+        if (state.file && state.file.id === action.payload.id) {
+          state.file.name = action.payload.name;
+          state.file.metadata = { ...state.file.metadata, ...action.payload.metadata };
+        }
+      })
+      // A replace across the project saved new content for the open file; take it unless we have unsaved edits
+      .addCase(replaceInProjectAPI.fulfilled, (state, action) => {
+        const file = state.file && action.payload.files.find(updated => updated.id === state.file?.id);
+        if (!state.file || !file || state.isDirty) return;
+        state.file.content = file.content;
+        state.file.metadata = { ...state.file.metadata, ...file.metadata };
+        state.content = file.content || '';
+      })
+      // Follow changes other clients make to the open file, unless we have unsaved edits of our own
+      .addCase(applyRemoteChange, (state, action) => {
+        const change = action.payload;
+        if (!state.file) return;
+        if (change.type === 'node-renamed' && change.id === state.file.id) {
+          state.file.name = change.name;
+          state.file.metadata = { ...state.file.metadata, ...change.metadata };
+        }
+        if (change.type === 'content-updated' && change.id === state.file.id && !state.isDirty) {
+          state.file.content = change.content;
+          state.file.binary = !!change.binary;
+          state.content = change.content;
+        }
       });
   },
 });
 
-export const { openEditor, openEditorAndLoadContent, closeEditor, updateContent, saveContent } = editorSlice.actions;
+export const {
+  openEditor,
+  openEditorAndLoadContent,
+  closeEditor,
+  revealInEditor,
+  updateContent,
+  saveContent,
+  markSaved,
+} = editorSlice.actions;
 export default editorSlice.reducer;
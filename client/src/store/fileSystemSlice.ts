@@ -1,7 +1,222 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, current } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-import type { FileSystemNode, FileSystemState } from '../types/index';
-import { fileSystemAPI } from '../services/api';
+import type { FileContentUpdate, FileSystemNode, FileSystemState, LayoutMode, NodePosition, NodePlacement, RemoteChange, ReplaceOptions, ReplaceTarget } from '../types/index';
+import { fileSystemAPI, projectAPI } from '../services/api';
+import { computeLayout, getChildPosition, getStackedChildPositions } from '../utils/layout';
+import { MAX_BINARY_FILE_SIZE, readFileContent } from '../utils/binaryFiles';
+
+// Offset applied to pasted or duplicated nodes that land next to their original
+const PASTE_OFFSET = 40;
+
+export const generateNodeId = () => `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Find a node anywhere in the nested tree
+export const findNodeById = (nodes: FileSystemNode[], id: string): FileSystemNode | null => {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    if (node.children) {
+      const found = findNodeById(node.children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Get the nodes that share a parent with the given node (root nodes are siblings of each other)
+export const getSiblings = (nodes: FileSystemNode[], parentId?: string | null): FileSystemNode[] => {
+  if (!parentId) return nodes;
+  return findNodeById(nodes, parentId)?.children || [];
+};
+
+// Check whether nodeId is ancestorId itself or sits somewhere below it
+export const isSameOrDescendant = (nodes: FileSystemNode[], ancestorId: string, nodeId: string): boolean => {
+  const ancestor = findNodeById(nodes, ancestorId);
+  return !!ancestor && (ancestor.id === nodeId || !!findNodeById(ancestor.children || [], nodeId));
+};
+
+// Ids of the folders above a node, from the top of the tree down to its parent; null if it is not in the tree
+export const getAncestorIds = (nodes: FileSystemNode[], nodeId: string): string[] | null => {
+  for (const node of nodes) {
+    if (node.id === nodeId) return [];
+    const below = getAncestorIds(node.children || [], nodeId);
+    if (below) return [node.id, ...below];
+  }
+  return null;
+};
+
+// Remove a node from wherever it sits in the tree and return it
+const detachNode = (nodes: FileSystemNode[], id: string): FileSystemNode | null => {
+  for (let i = 0; i < nodes.length; i++) {
+    if (nodes[i].id === id) {
+      return nodes.splice(i, 1)[0];
+    }
+    const children = nodes[i].children;
+    if (children) {
+      const found = detachNode(children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Shift every node below the given one by the same offset
+const offsetDescendants = (node: FileSystemNode, dx: number, dy: number): void => {
+  node.children?.forEach(child => {
+    child.x = (child.x || 0) + dx;
+    child.y = (child.y || 0) + dy;
+    offsetDescendants(child, dx, dy);
+  });
+};
+
+// Return why node cannot be moved into target, or null if the move is allowed
+const getMoveError = (
+  nodes: FileSystemNode[],
+  node: FileSystemNode | null,
+  target: FileSystemNode | null
+): string | null => {
+  if (!node || !target) {
+    return 'Node or target folder not found';
+  }
+  if (target.type !== 'folder') {
+    return 'Nodes can only be moved into folders';
+  }
+  if (isSameOrDescendant(nodes, node.id, target.id)) {
+    return 'Cannot move a folder into one of its own subfolders';
+  }
+  const clash = (target.children || []).find(child => child.id !== node.id && child.name === node.name);
+  if (clash) {
+    return `"${target.name}" already contains a ${clash.type} named "${node.name}"`;
+  }
+  return null;
+};
+
+// Detach a node, re-attach it under parentId and shift its subtree to the new position
+const applyMove = (nodes: FileSystemNode[], { id, parentId, x, y }: NodePosition & { parentId: string }): void => {
+  const node = detachNode(nodes, id);
+  if (!node) return;
+
+  offsetDescendants(node, x - (node.x || 0), y - (node.y || 0));
+  node.x = x;
+  node.y = y;
+  node.parentId = parentId;
+
+  const target = findNodeById(nodes, parentId);
+  if (target) {
+    if (!target.children) target.children = [];
+    target.children.push(node);
+  } else {
+    nodes.push(node);
+  }
+};
+
+// Drop ids that sit below another id in the list, so subtrees are only handled once
+export const getTopLevelIds = (nodes: FileSystemNode[], ids: string[]): string[] => {
+  return ids.filter(id => !ids.some(otherId => otherId !== id && isSameOrDescendant(nodes, otherId, id)));
+};
+
+// Pick a name that doesn't clash with takenNames: "Button.tsx" -> "Button copy.tsx" -> "Button copy 2.tsx"
+export const getCopyName = (name: string, type: 'file' | 'folder', takenNames: Set<string>): string => {
+  if (!takenNames.has(name)) return name;
+
+  const dotIndex = type === 'file' ? name.lastIndexOf('.') : -1;
+  const hasExtension = dotIndex > 0;
+  const base = hasExtension ? name.slice(0, dotIndex) : name;
+  const extension = hasExtension ? name.slice(dotIndex) : '';
+
+  let candidate = `${base} copy${extension}`;
+  for (let i = 2; takenNames.has(candidate); i++) {
+    candidate = `${base} copy ${i}${extension}`;
+  }
+  return candidate;
+};
+
+// Deep-clone a subtree with fresh ids, remapping parentId on every copy and shifting positions
+const cloneSubtree = (
+  node: FileSystemNode,
+  parentId: string | undefined,
+  projectId: string,
+  dx: number,
+  dy: number
+): FileSystemNode => {
+  const id = generateNodeId();
+  const clone: FileSystemNode = {
+    id,
+    projectId,
+    type: node.type,
+    name: node.name,
+    parentId,
+    x: (node.x || 0) + dx,
+    y: (node.y || 0) + dy,
+  };
+
+  if (node.type === 'folder') {
+    clone.expanded = node.expanded;
+    clone.children = (node.children || []).map(child => cloneSubtree(child, id, projectId, dx, dy));
+  } else {
+    clone.content = node.content || '';
+    clone.binary = node.binary;
+    clone.metadata = node.metadata;
+  }
+  return clone;
+};
+
+// Copy source subtrees into a parent (undefined for the root level), renaming clashes.
+// Copies next to their original are offset; copies into another folder are stacked below it.
+const buildCopies = (
+  nodes: FileSystemNode[],
+  sources: FileSystemNode[],
+  parentId: string | undefined,
+  projectId: string
+): FileSystemNode[] => {
+  const parent = parentId ? findNodeById(nodes, parentId) : null;
+  const takenNames = new Set(getSiblings(nodes, parentId).map(sibling => sibling.name));
+  const stacked = parent ? getStackedChildPositions(parent, sources) : [];
+
+  return sources.map((source, index) => {
+    const isBesideOriginal = (source.parentId || undefined) === parentId;
+    const target = isBesideOriginal || !stacked[index]
+      ? { x: (source.x || 0) + PASTE_OFFSET, y: (source.y || 0) + PASTE_OFFSET }
+      : stacked[index];
+
+    const copy = cloneSubtree(source, parentId, projectId, target.x - (source.x || 0), target.y - (source.y || 0));
+    copy.name = getCopyName(source.name, source.type, takenNames);
+    takenNames.add(copy.name);
+    return copy;
+  });
+};
+
+// Copy of the tree with node added under its parent, leaving the original untouched
+const insertNode = (nodes: FileSystemNode[], node: FileSystemNode): FileSystemNode[] => {
+  return nodes.map(existing => {
+    if (existing.id === node.parentId) {
+      return { ...existing, children: [...(existing.children || []), node] };
+    }
+    return existing.children ? { ...existing, children: insertNode(existing.children, node) } : existing;
+  });
+};
+
+// Flatten nested nodes into the list the batch endpoint expects
+const flattenNodes = (nodes: FileSystemNode[]): FileSystemNode[] => {
+  return nodes.flatMap(({ children, ...node }) => [node, ...flattenNodes(children || [])]);
+};
+
+// Nest a flat list with parentId links; nodes whose parent is not in the list become the roots
+const nestNodes = (flatNodes: FileSystemNode[]): FileSystemNode[] => {
+  const byId = new Map(flatNodes.map(node => [
+    node.id,
+    node.type === 'folder' ? { ...node, children: [] as FileSystemNode[] } : { ...node },
+  ]));
+  const roots: FileSystemNode[] = [];
+  byId.forEach(node => {
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent?.children) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+};
 
 // Async thunks for API calls
 export const fetchFileSystemTree = createAsyncThunk(
@@ -12,6 +227,27 @@ export const fetchFileSystemTree = createAsyncThunk(
   }
 );
 
+// Replace the project's tree with a named snapshot, then reload the tree from the server
+export const restoreSnapshotAPI = createAsyncThunk(
+  'fileSystem/restoreSnapshot',
+  async (
+    { projectId, snapshotId, backup }: { projectId: string; snapshotId: string; backup: boolean },
+    { dispatch }
+  ) => {
+    const result = await projectAPI.restoreSnapshot(projectId, snapshotId, backup);
+    await dispatch(fetchFileSystemTree(projectId));
+    return result;
+  }
+);
+
+// Files changed by a replace get their new content here; other clients hear about it from the server
+export const replaceInProjectAPI = createAsyncThunk(
+  'fileSystem/replaceInProject',
+  async ({ projectId, options, files }: { projectId: string; options: ReplaceOptions; files: ReplaceTarget[] }) => {
+    return fileSystemAPI.applyReplace(projectId, options, files);
+  }
+);
+
 export const saveFileContent = createAsyncThunk(
   'fileSystem/saveFile',
   async ({ id, content }: { id: string; content: string }) => {
@@ -30,9 +266,15 @@ export const saveFileSystemTree = createAsyncThunk(
 
 export const updateNodePositionAPI = createAsyncThunk(
   'fileSystem/updatePosition',
-  async ({ id, x, y }: { id: string; x: number; y: number }) => {
+  async ({ id, x, y }: { id: string; x: number; y: number }, { getState, dispatch }) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const node = findNodeById(state.fileSystem.nodes, id);
+    const previous: NodePosition = { id, x: node?.x || 0, y: node?.y || 0 };
+
+    // First update locally, then save to database
+    dispatch(updateNodePosition({ id, x, y }));
     await fileSystemAPI.updateNodePosition(id, x, y);
-    return { id, x, y };
+    return { id, x, y, previous };
   }
 );
 
@@ -71,40 +313,318 @@ export const toggleFolderAPI = createAsyncThunk(
       // Then save to database
       await fileSystemAPI.updateFolderExpanded(nodeId, newExpanded);
 
-      return { id: nodeId, expanded: newExpanded };
+      return { id: nodeId, expanded: newExpanded, toggled: true };
     }
 
-    return { id: nodeId, expanded: false };
+    return { id: nodeId, expanded: false, toggled: false };
   }
 );
 
 export const createNodeAPI = createAsyncThunk(
   'fileSystem/createNode',
-  async ({ parentId, node, projectId }: { parentId: string; node: Omit<FileSystemNode, 'id' | 'parentId'>; projectId: string }) => {
-    const newNode = {
+  async (
+    {
+      parentId,
+      node,
+      projectId,
+      file,
+    }: { parentId: string; node: Omit<FileSystemNode, 'id' | 'parentId'>; projectId: string; file?: File },
+    { getState, dispatch }
+  ) => {
+    // An uploaded file brings its own content, read as text when it is text and as base64 otherwise
+    if (file && file.size > MAX_BINARY_FILE_SIZE) {
+      throw new Error(`${file.name} is larger than ${MAX_BINARY_FILE_SIZE / (1024 * 1024)} MB`);
+    }
+    const upload = file ? await readFileContent(file) : null;
+
+    const state = getState() as { fileSystem: FileSystemState };
+    const { nodes, layoutMode } = state.fileSystem;
+    const newNode: FileSystemNode = {
       ...node,
-      id: `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...upload,
+      id: generateNodeId(),
       parentId,
       projectId,
       x: (node.x || 0) + Math.random() * 100,
       y: (node.y || 0) + Math.random() * 100,
     };
+
+    // With an active layout the new node gets its slot in the tree, and its neighbours make room for it
+    let shifted: NodePosition[] = [];
+    if (layoutMode) {
+      const { x, y } = getChildPosition(findNodeById(nodes, parentId), node.type);
+      const positions = computeLayout(insertNode(nodes, { ...newNode, x, y }), layoutMode);
+      const slot = positions.find(position => position.id === newNode.id);
+      newNode.x = slot?.x ?? x;
+      newNode.y = slot?.y ?? y;
+      shifted = positions.filter(({ id, x: newX, y: newY }) => {
+        const existing = findNodeById(nodes, id);
+        return !!existing && (existing.x !== newX || existing.y !== newY);
+      });
+    }
+
     await fileSystemAPI.createProjectNode(newNode, projectId);
-    return { parentId, node: newNode };
+    // The shift is saved here rather than through updateNodePositionsAPI, so it is undone together with the create
+    const previous = shifted.map(({ id }) => {
+      const existing = findNodeById(nodes, id);
+      return { id, x: existing?.x || 0, y: existing?.y || 0 };
+    });
+    if (shifted.length > 0) {
+      dispatch(updateNodePositions(shifted));
+      await fileSystemAPI.updateNodePositions(shifted, projectId);
+    }
+    return { parentId, node: newNode, shifted: { positions: shifted, previous } };
+  }
+);
+
+export const renameNodeAPI = createAsyncThunk(
+  'fileSystem/renameNode',
+  async ({ id, name }: { id: string; name: string }, { getState }) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const trimmedName = name.trim();
+    const node = findNodeById(state.fileSystem.nodes, id);
+
+    if (!trimmedName) {
+      throw new Error('Name is required');
+    }
+    if (node) {
+      const clash = getSiblings(state.fileSystem.nodes, node.parentId)
+        .find(sibling => sibling.id !== id && sibling.name === trimmedName);
+      if (clash) {
+        throw new Error(`A ${clash.type} named "${trimmedName}" already exists in this folder`);
+      }
+    }
+
+    const renamedNode = await fileSystemAPI.renameNode(id, trimmedName);
+    return { id, name: trimmedName, previousName: node?.name ?? trimmedName, metadata: renamedNode.metadata };
+  }
+);
+
+export const moveNodeAPI = createAsyncThunk(
+  'fileSystem/moveNode',
+  async ({ id, parentId, x, y }: { id: string; parentId: string; x: number; y: number }, { getState }) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const nodes = state.fileSystem.nodes;
+    const node = findNodeById(nodes, id);
+    const moveError = getMoveError(nodes, node, findNodeById(nodes, parentId));
+    if (moveError || !node) {
+      throw new Error(moveError || 'Node not found');
+    }
+    const previous: NodePlacement = { id, parentId: node.parentId, x: node.x || 0, y: node.y || 0 };
+
+    await fileSystemAPI.moveNode(id, parentId, x, y);
+    return { id, parentId, x, y, previous };
+  }
+);
+
+export const moveNodesAPI = createAsyncThunk(
+  'fileSystem/moveNodes',
+  async (
+    { parentId, moves, projectId }: { parentId: string; moves: NodePosition[]; projectId: string },
+    { getState }
+  ) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const nodes = state.fileSystem.nodes;
+    const target = findNodeById(nodes, parentId);
+    const names = new Set<string>();
+    const previous: NodePlacement[] = [];
+
+    for (const move of moves) {
+      const node = findNodeById(nodes, move.id);
+      const moveError = getMoveError(nodes, node, target);
+      if (moveError || !node) {
+        throw new Error(moveError || 'Node not found');
+      }
+      if (names.has(node.name)) {
+        throw new Error(`More than one selected item is named "${node.name}"`);
+      }
+      names.add(node.name);
+      previous.push({ id: node.id, parentId: node.parentId, x: node.x || 0, y: node.y || 0 });
+    }
+
+    await fileSystemAPI.moveNodes(parentId, moves, projectId);
+    return { parentId, moves, previous };
+  }
+);
+
+export const updateNodePositionsAPI = createAsyncThunk(
+  'fileSystem/updatePositions',
+  async (
+    { positions, projectId, previous }: { positions: NodePosition[]; projectId: string; previous?: NodePosition[] },
+    { getState, dispatch }
+  ) => {
+    // Callers that already moved the nodes locally pass in where they started
+    const state = getState() as { fileSystem: FileSystemState };
+    const startPositions = previous || positions.map(({ id }) => {
+      const node = findNodeById(state.fileSystem.nodes, id);
+      return { id, x: node?.x || 0, y: node?.y || 0 };
+    });
+
+    dispatch(updateNodePositions(positions));
+    await fileSystemAPI.updateNodePositions(positions, projectId);
+    return { positions, previous: startPositions };
+  }
+);
+
+export const setFoldersExpandedAPI = createAsyncThunk(
+  'fileSystem/setFoldersExpanded',
+  async ({ ids, expanded, projectId }: { ids: string[]; expanded: boolean; projectId: string }, { getState }) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const previous = ids.map(id => ({ id, expanded: !!findNodeById(state.fileSystem.nodes, id)?.expanded }));
+
+    await fileSystemAPI.updateFoldersExpanded(ids, expanded, projectId);
+    return { ids, expanded, previous };
+  }
+);
+
+export const deleteNodesAPI = createAsyncThunk(
+  'fileSystem/deleteNodes',
+  async (
+    { ids, projectId, permanent = false }: { ids: string[]; projectId: string; permanent?: boolean },
+    { getState }
+  ) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const topLevelIds = getTopLevelIds(state.fileSystem.nodes, ids);
+    const removed = topLevelIds
+      .map(id => findNodeById(state.fileSystem.nodes, id))
+      .filter((node): node is FileSystemNode => !!node);
+
+    await fileSystemAPI.deleteNodes(topLevelIds, projectId, permanent);
+    return { ids: topLevelIds, removed, permanent };
+  }
+);
+
+// Bring trashed subtrees back; the server picks the project root when the original folder is gone
+export const restoreFromTrashAPI = createAsyncThunk(
+  'fileSystem/restoreFromTrash',
+  async ({ ids, projectId }: { ids: string[]; projectId: string }) => {
+    const restored = await fileSystemAPI.restoreFromTrash(ids, projectId);
+    return { ids, restored };
+  }
+);
+
+// Re-create removed subtrees with their original ids, contents and positions
+export const restoreNodesAPI = createAsyncThunk(
+  'fileSystem/restoreNodes',
+  async ({ nodes, projectId }: { nodes: FileSystemNode[]; projectId: string }) => {
+    await fileSystemAPI.createNodes(flattenNodes(nodes), projectId);
+    return { nodes };
+  }
+);
+
+export const pasteNodesAPI = createAsyncThunk(
+  'fileSystem/pasteNodes',
+  async ({ targetId, projectId }: { targetId: string; projectId: string }, { getState, dispatch }) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const { nodes, clipboard } = state.fileSystem;
+    const target = findNodeById(nodes, targetId);
+
+    if (!clipboard || clipboard.nodes.length === 0) {
+      throw new Error('Nothing to paste');
+    }
+    if (!target || target.type !== 'folder') {
+      throw new Error('Items can only be pasted into a folder');
+    }
+
+    // Cut + paste is a move of the original nodes
+    if (clipboard.mode === 'cut') {
+      if (clipboard.projectId !== projectId) {
+        throw new Error('Cut items can only be pasted into the same project');
+      }
+      const sources = clipboard.nodes
+        .map(node => findNodeById(nodes, node.id))
+        .filter((node): node is FileSystemNode => !!node);
+      await dispatch(moveNodesAPI({
+        parentId: targetId,
+        moves: getStackedChildPositions(target, sources),
+        projectId,
+      })).unwrap();
+      return { mode: clipboard.mode, nodes: [] as FileSystemNode[] };
+    }
+
+    const copies = buildCopies(nodes, clipboard.nodes, targetId, projectId);
+    await fileSystemAPI.createNodes(flattenNodes(copies), projectId);
+    return { mode: clipboard.mode, nodes: copies };
+  }
+);
+
+export const duplicateNodesAPI = createAsyncThunk(
+  'fileSystem/duplicateNodes',
+  async ({ ids, projectId }: { ids: string[]; projectId: string }, { getState }) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const nodes = state.fileSystem.nodes;
+    const sources = getTopLevelIds(nodes, ids)
+      .map(id => findNodeById(nodes, id))
+      .filter((node): node is FileSystemNode => !!node);
+
+    // Each duplicate stays in the same folder as its original
+    const parentIds = [...new Set(sources.map(source => source.parentId || undefined))];
+    const copies = parentIds.flatMap(parentId =>
+      buildCopies(nodes, sources.filter(source => (source.parentId || undefined) === parentId), parentId, projectId)
+    );
+    if (copies.length === 0) {
+      throw new Error('Nothing to duplicate');
+    }
+
+    await fileSystemAPI.createNodes(flattenNodes(copies), projectId);
+    return { nodes: copies };
+  }
+);
+
+// Create files and folders dropped from the desktop and overwrite the files they replace, in one request
+export const uploadNodesAPI = createAsyncThunk(
+  'fileSystem/uploadNodes',
+  async ({
+    parentId,
+    nodes,
+    updates,
+    projectId,
+    onProgress,
+  }: {
+    parentId: string;
+    nodes: FileSystemNode[];
+    updates: FileContentUpdate[];
+    projectId: string;
+    onProgress?: (progress: number) => void;
+  }) => {
+    await fileSystemAPI.uploadNodes(flattenNodes(nodes), updates, projectId, onProgress);
+    return { parentId, nodes, updates };
+  }
+);
+
+// Unpack a zip into a folder; the server lays the new nodes out and reports the entries it skipped
+export const importZipAPI = createAsyncThunk(
+  'fileSystem/importZip',
+  async ({ file, parentId, projectId }: { file: File; parentId: string; projectId: string }) => {
+    const { nodes, skipped } = await fileSystemAPI.importZip(file, parentId, projectId);
+    return {
+      parentId,
+      fileName: file.name,
+      nodes: nestNodes(nodes),
+      fileCount: nodes.filter(node => node.type === 'file').length,
+      folderCount: nodes.filter(node => node.type === 'folder').length,
+      skipped,
+    };
   }
 );
 
 export const deleteNodeAPI = createAsyncThunk(
   'fileSystem/deleteNode',
-  async (nodeId: string) => {
+  async (nodeId: string, { getState }) => {
+    const state = getState() as { fileSystem: FileSystemState };
+    const removed = findNodeById(state.fileSystem.nodes, nodeId);
+
     await fileSystemAPI.deleteNode(nodeId);
-    return nodeId;
+    return { id: nodeId, removed };
   }
 );
 
 const initialState: FileSystemState = {
   nodes: [],
   selectedNodeId: null,
+  selectedNodeIds: [],
+  clipboard: null,
+  layoutMode: null,
   currentProjectId: null,
   isEditorOpen: false,
   editingFile: null,
@@ -112,15 +632,82 @@ const initialState: FileSystemState = {
   error: null,
 };
 
+// Put a snapshot of the selected subtrees on the clipboard
+const copyToClipboard = (state: FileSystemState, ids: string[], mode: 'copy' | 'cut') => {
+  const nodes = getTopLevelIds(state.nodes, ids)
+    .map(id => findNodeById(state.nodes, id))
+    .filter((node): node is FileSystemNode => !!node)
+    .map(node => current(node));
+  if (nodes.length === 0 || !state.currentProjectId) return;
+  state.clipboard = { mode, projectId: state.currentProjectId, nodes };
+};
+
+// Add newly created subtrees under their parents and select them
+const attachNodes = (state: FileSystemState, nodes: FileSystemNode[]) => {
+  nodes.forEach(node => {
+    const parent = node.parentId ? findNodeById(state.nodes, node.parentId) : null;
+    if (parent) {
+      if (!parent.children) parent.children = [];
+      parent.children.push(node);
+    } else {
+      state.nodes.push(node);
+    }
+  });
+  state.selectedNodeIds = nodes.map(node => node.id);
+  state.selectedNodeId = state.selectedNodeIds[state.selectedNodeIds.length - 1] ?? null;
+};
+
 const fileSystemSlice = createSlice({
   name: 'fileSystem',
   initialState,
   reducers: {
     selectNode: (state, action: PayloadAction<string>) => {
       state.selectedNodeId = action.payload;
+      state.selectedNodeIds = [action.payload];
+    },
+    toggleNodeSelection: (state, action: PayloadAction<string>) => {
+      if (state.selectedNodeIds.includes(action.payload)) {
+        state.selectedNodeIds = state.selectedNodeIds.filter(id => id !== action.payload);
+      } else {
+        state.selectedNodeIds.push(action.payload);
+      }
+      state.selectedNodeId = state.selectedNodeIds[state.selectedNodeIds.length - 1] ?? null;
+    },
+    setSelectedNodes: (state, action: PayloadAction<string[]>) => {
+      state.selectedNodeIds = [...new Set(action.payload)];
+      // Keep the primary selection if it is still part of the set
+      if (!state.selectedNodeId || !state.selectedNodeIds.includes(state.selectedNodeId)) {
+        state.selectedNodeId = state.selectedNodeIds[state.selectedNodeIds.length - 1] ?? null;
+      }
+    },
+    clearSelection: (state) => {
+      state.selectedNodeId = null;
+      state.selectedNodeIds = [];
+    },
+    copyNodes: (state, action: PayloadAction<string[]>) => {
+      copyToClipboard(state, action.payload, 'copy');
+    },
+    cutNodes: (state, action: PayloadAction<string[]>) => {
+      copyToClipboard(state, action.payload, 'cut');
+    },
+    clearClipboard: (state) => {
+      state.clipboard = null;
+    },
+    setLayoutMode: (state, action: PayloadAction<LayoutMode | null>) => {
+      state.layoutMode = action.payload;
     },
     setCurrentProject: (state, action: PayloadAction<string | null>) => {
+      // The active layout belongs to the project it was applied in
+      if (state.currentProjectId !== action.payload) {
+        state.layoutMode = null;
+      }
       state.currentProjectId = action.payload;
+      state.selectedNodeId = null;
+      state.selectedNodeIds = [];
+      // Cut items can't follow us into another project, copied ones can
+      if (state.clipboard?.mode === 'cut' && state.clipboard.projectId !== action.payload) {
+        state.clipboard = null;
+      }
       // Clear nodes when switching projects
       if (action.payload === null) {
         state.nodes = [];
@@ -155,6 +742,15 @@ const fileSystemSlice = createSlice({
       };
       updatePositionRecursive(state.nodes);
     },
+    updateNodePositions: (state, action: PayloadAction<NodePosition[]>) => {
+      action.payload.forEach(({ id, x, y }) => {
+        const node = findNodeById(state.nodes, id);
+        if (node) {
+          node.x = x;
+          node.y = y;
+        }
+      });
+    },
     updateFileContent: (state, action: PayloadAction<{ id: string; content: string }>) => {
       const updateContentRecursive = (nodes: FileSystemNode[]): void => {
         for (const node of nodes) {
@@ -199,6 +795,76 @@ const fileSystemSlice = createSlice({
       };
       state.nodes = deleteNodeRecursive(state.nodes);
     },
+    // Apply a change made by another client. These don't go through the thunks, so they are never
+    // recorded in the undo history.
+    applyRemoteChange: (state, action: PayloadAction<RemoteChange>) => {
+      const change = action.payload;
+      switch (change.type) {
+        case 'nodes-created':
+          change.nodes.forEach(node => {
+            // Nodes we already have (or whose parent we don't) would only corrupt the tree
+            if (findNodeById(state.nodes, node.id)) return;
+            const parent = node.parentId ? findNodeById(state.nodes, node.parentId) : null;
+            if (parent) {
+              if (!parent.children) parent.children = [];
+              parent.children.push(node);
+            } else if (!node.parentId) {
+              state.nodes.push(node);
+            }
+          });
+          break;
+        case 'nodes-deleted':
+          change.ids.forEach(id => {
+            const removed = detachNode(state.nodes, id);
+            if (!removed) return;
+            // Deselect the removed node and everything below it
+            const removedIds = new Set(flattenNodes([removed]).map(node => node.id));
+            state.selectedNodeIds = state.selectedNodeIds.filter(selectedId => !removedIds.has(selectedId));
+            if (state.selectedNodeId && removedIds.has(state.selectedNodeId)) {
+              state.selectedNodeId = null;
+            }
+          });
+          break;
+        case 'nodes-moved':
+          change.moves.forEach(move => applyMove(state.nodes, { ...move, parentId: change.parentId }));
+          break;
+        case 'node-renamed': {
+          const node = findNodeById(state.nodes, change.id);
+          if (node) {
+            node.name = change.name;
+            if (node.type === 'file') {
+              node.metadata = { ...node.metadata, ...change.metadata };
+            }
+          }
+          break;
+        }
+        case 'positions-updated':
+          change.positions.forEach(({ id, x, y }) => {
+            const node = findNodeById(state.nodes, id);
+            if (node) {
+              node.x = x;
+              node.y = y;
+            }
+          });
+          break;
+        case 'folders-expanded':
+          change.ids.forEach(id => {
+            const node = findNodeById(state.nodes, id);
+            if (node && node.type === 'folder') {
+              node.expanded = change.expanded;
+            }
+          });
+          break;
+        case 'content-updated': {
+          const node = findNodeById(state.nodes, change.id);
+          if (node && node.type === 'file') {
+            node.content = change.content;
+            node.binary = !!change.binary;
+          }
+          break;
+        }
+      }
+    },
     clearError: (state) => {
       state.error = null;
     },
@@ -243,6 +909,17 @@ const fileSystemSlice = createSlice({
         state.loading = false;
         state.error = action.error.message || 'Failed to save file';
       })
+      // Replace across files
+      .addCase(replaceInProjectAPI.fulfilled, (state, action) => {
+        action.payload.files.forEach(file => {
+          const node = findNodeById(state.nodes, file.id);
+          if (node && node.type === 'file') {
+            node.content = file.content;
+            node.size = file.size;
+            node.metadata = { ...node.metadata, ...file.metadata };
+          }
+        });
+      })
       // Update position
       .addCase(updateNodePositionAPI.fulfilled, (state, action) => {
         const updatePositionRecursive = (nodes: FileSystemNode[]): void => {
@@ -291,12 +968,113 @@ const fileSystemSlice = createSlice({
         };
         addNodeRecursive(state.nodes);
       })
+      // Rename node
+      .addCase(renameNodeAPI.fulfilled, (state, action) => {
+        const node = findNodeById(state.nodes, action.payload.id);
+        if (node) {
+          node.name = action.payload.name;
+          if (node.type === 'file') {
+            node.metadata = { ...node.metadata, ...action.payload.metadata };
+          }
+        }
+      })
+      .addCase(renameNodeAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to rename node';
+      })
+      // Move node
+      .addCase(moveNodeAPI.fulfilled, (state, action) => {
+        applyMove(state.nodes, action.payload);
+      })
+      .addCase(moveNodeAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to move node';
+      })
+      // Batch operations
+      .addCase(moveNodesAPI.fulfilled, (state, action) => {
+        const { parentId, moves } = action.payload;
+        moves.forEach(move => applyMove(state.nodes, { ...move, parentId }));
+      })
+      .addCase(moveNodesAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to move nodes';
+      })
+      .addCase(updateNodePositionsAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to save node positions';
+      })
+      .addCase(setFoldersExpandedAPI.fulfilled, (state, action) => {
+        action.payload.ids.forEach(id => {
+          const node = findNodeById(state.nodes, id);
+          if (node && node.type === 'folder') {
+            node.expanded = action.payload.expanded;
+          }
+        });
+      })
+      .addCase(deleteNodesAPI.fulfilled, (state, action) => {
+        action.payload.ids.forEach(id => detachNode(state.nodes, id));
+        state.selectedNodeIds = [];
+        state.selectedNodeId = null;
+      })
+      .addCase(deleteNodesAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to delete nodes';
+      })
+      .addCase(restoreNodesAPI.fulfilled, (state, action) => {
+        attachNodes(state, action.payload.nodes);
+      })
+      .addCase(restoreNodesAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to restore nodes';
+      })
+      .addCase(restoreFromTrashAPI.fulfilled, (state, action) => {
+        attachNodes(state, action.payload.restored.map(item => item.node));
+      })
+      .addCase(restoreFromTrashAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to restore from trash';
+      })
+      // Clipboard
+      .addCase(pasteNodesAPI.fulfilled, (state, action) => {
+        if (action.payload.mode === 'cut') {
+          state.clipboard = null;
+          return;
+        }
+        attachNodes(state, action.payload.nodes);
+      })
+      .addCase(pasteNodesAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to paste';
+      })
+      .addCase(duplicateNodesAPI.fulfilled, (state, action) => {
+        attachNodes(state, action.payload.nodes);
+      })
+      .addCase(duplicateNodesAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to duplicate';
+      })
+      .addCase(uploadNodesAPI.fulfilled, (state, action) => {
+        action.payload.updates.forEach(({ id, content, binary }) => {
+          const node = findNodeById(state.nodes, id);
+          if (node && node.type === 'file') {
+            node.content = content;
+            node.binary = !!binary;
+          }
+        });
+        if (action.payload.nodes.length > 0) {
+          attachNodes(state, action.payload.nodes);
+        }
+      })
+      .addCase(uploadNodesAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to upload files';
+      })
+      .addCase(importZipAPI.fulfilled, (state, action) => {
+        const parent = findNodeById(state.nodes, action.payload.parentId);
+        if (parent) {
+          parent.expanded = true;
+        }
+        attachNodes(state, action.payload.nodes);
+      })
+      .addCase(importZipAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to import zip';
+      })
       // Delete node
       .addCase(deleteNodeAPI.fulfilled, (state, action) => {
         const deleteNodeRecursive = (nodes: FileSystemNode[]): void => {
           for (let i = 0; i < nodes.length; i++) {
             const node = nodes[i];
-            if (node.id === action.payload) {
+            if (node.id === action.payload.id) {
               nodes.splice(i, 1);
               return;
             }
@@ -306,9 +1084,13 @@ const fileSystemSlice = createSlice({
           }
         };
         deleteNodeRecursive(state.nodes);
+        state.selectedNodeIds = state.selectedNodeIds.filter(id => id !== action.payload.id);
+        if (state.selectedNodeId === action.payload.id) {
+          state.selectedNodeId = null;
+        }
       });
   },
 });
 
-export const { selectNode, setCurrentProject, toggleFolder, updateNodePosition, updateFileContent, addNode, deleteNode, clearError } = fileSystemSlice.actions;
+export const { selectNode, toggleNodeSelection, setSelectedNodes, clearSelection, copyNodes, cutNodes, clearClipboard, setLayoutMode, setCurrentProject, toggleFolder, updateNodePosition, updateNodePositions, updateFileContent, addNode, deleteNode, applyRemoteChange, clearError } = fileSystemSlice.actions;
 export default fileSystemSlice.reducer;
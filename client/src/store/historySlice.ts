@@ -0,0 +1,304 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import type { ThunkDispatch, UnknownAction } from '@reduxjs/toolkit';
+import type { FileSystemNode, FileSystemState, HistoryEntry, HistoryState } from '../types/index';
+import {
+  createNodeAPI,
+  deleteNodeAPI,
+  deleteNodesAPI,
+  duplicateNodesAPI,
+  findNodeById,
+  importZipAPI,
+  moveNodeAPI,
+  moveNodesAPI,
+  pasteNodesAPI,
+  renameNodeAPI,
+  restoreFromTrashAPI,
+  restoreNodesAPI,
+  restoreSnapshotAPI,
+  setCurrentProject,
+  setFoldersExpandedAPI,
+  toggleFolderAPI,
+  updateNodePositionAPI,
+  uploadNodesAPI,
+  updateNodePositionsAPI,
+} from './fileSystemSlice';
+
+// Oldest entries are dropped once the stack grows past this
+const MAX_HISTORY = 100;
+
+type HistoryRootState = { fileSystem: FileSystemState; history: HistoryState };
+
+const describeNodes = (nodes: FileSystemNode[]) =>
+  nodes.length === 1 ? `"${nodes[0].name}"` : `${nodes.length} items`;
+
+// Group items by a key so each group can be sent in one batch request
+const groupBy = <T>(items: T[], getKey: (item: T) => string | undefined) => {
+  const groups = new Map<string | undefined, T[]>();
+  items.forEach(item => {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return groups;
+};
+
+// Take fresh snapshots of the given nodes so re-creating them later keeps any edits made since
+const snapshotNodes = (state: HistoryRootState, nodes: FileSystemNode[]): FileSystemNode[] => {
+  return nodes.map(node => findNodeById(state.fileSystem.nodes, node.id) || node);
+};
+
+// Run one side of an entry against the API. Returns the entry to put on the opposite stack.
+const applyEntry = async (
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+  projectId: string,
+  state: HistoryRootState,
+  dispatch: ThunkDispatch<unknown, unknown, UnknownAction>
+): Promise<HistoryEntry> => {
+  const isUndo = direction === 'undo';
+
+  switch (entry.kind) {
+    case 'create': {
+      // Undoing a create removes the nodes for good rather than filling the trash
+      if (isUndo) {
+        const nodes = snapshotNodes(state, entry.nodes);
+        await dispatch(deleteNodesAPI({ ids: nodes.map(node => node.id), projectId, permanent: true })).unwrap();
+        if (entry.shifted?.previous.length) {
+          await dispatch(updateNodePositionsAPI({ positions: entry.shifted.previous, projectId })).unwrap();
+        }
+        return { ...entry, nodes };
+      }
+      await dispatch(restoreNodesAPI({ nodes: entry.nodes, projectId })).unwrap();
+      if (entry.shifted?.positions.length) {
+        await dispatch(updateNodePositionsAPI({ positions: entry.shifted.positions, projectId })).unwrap();
+      }
+      return entry;
+    }
+    case 'delete': {
+      const ids = entry.nodes.map(node => node.id);
+      if (isUndo) {
+        await dispatch(restoreFromTrashAPI({ ids, projectId })).unwrap();
+      } else {
+        await dispatch(deleteNodesAPI({ ids, projectId })).unwrap();
+      }
+      return entry;
+    }
+    case 'move': {
+      if (!isUndo) {
+        await dispatch(moveNodesAPI({ parentId: entry.parentId, moves: entry.moves, projectId })).unwrap();
+        return entry;
+      }
+      // The nodes may have come from different folders
+      for (const [parentId, placements] of groupBy(entry.previous, placement => placement.parentId)) {
+        if (!parentId) continue;
+        const moves = placements.map(({ id, x, y }) => ({ id, x, y }));
+        await dispatch(moveNodesAPI({ parentId, moves, projectId })).unwrap();
+      }
+      return entry;
+    }
+    case 'rename':
+      await dispatch(renameNodeAPI({ id: entry.id, name: isUndo ? entry.previousName : entry.name })).unwrap();
+      return entry;
+    case 'position':
+      await dispatch(updateNodePositionsAPI({
+        positions: isUndo ? entry.previous : entry.positions,
+        projectId,
+      })).unwrap();
+      return entry;
+    case 'expand': {
+      if (!isUndo) {
+        await dispatch(setFoldersExpandedAPI({ ids: entry.ids, expanded: entry.expanded, projectId })).unwrap();
+        return entry;
+      }
+      for (const [expanded, folders] of groupBy(entry.previous, folder => String(folder.expanded))) {
+        const ids = folders.map(folder => folder.id);
+        await dispatch(setFoldersExpandedAPI({ ids, expanded: expanded === 'true', projectId })).unwrap();
+      }
+      return entry;
+    }
+  }
+};
+
+const canReplay = (history: HistoryState, stack: HistoryEntry[]) =>
+  !history.isReplaying && !!history.projectId && stack.length > 0;
+
+export const undo = createAsyncThunk(
+  'history/undo',
+  async (_: void, { getState, dispatch }) => {
+    const state = getState() as HistoryRootState;
+    const { past, projectId } = state.history;
+    return applyEntry(past[past.length - 1], 'undo', projectId as string, state, dispatch);
+  },
+  {
+    condition: (_, { getState }) => {
+      const { history } = getState() as HistoryRootState;
+      return canReplay(history, history.past);
+    },
+  }
+);
+
+export const redo = createAsyncThunk(
+  'history/redo',
+  async (_: void, { getState, dispatch }) => {
+    const state = getState() as HistoryRootState;
+    const { future, projectId } = state.history;
+    return applyEntry(future[future.length - 1], 'redo', projectId as string, state, dispatch);
+  },
+  {
+    condition: (_, { getState }) => {
+      const { history } = getState() as HistoryRootState;
+      return canReplay(history, history.future);
+    },
+  }
+);
+
+const initialState: HistoryState = {
+  projectId: null,
+  past: [],
+  future: [],
+  isReplaying: false,
+};
+
+// Add a new user operation; anything that was undone can no longer be redone
+const record = (state: HistoryState, entry: HistoryEntry) => {
+  if (state.isReplaying) return;
+  state.past.push(entry);
+  if (state.past.length > MAX_HISTORY) {
+    state.past.shift();
+  }
+  state.future = [];
+};
+
+const historySlice = createSlice({
+  name: 'history',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // History is per project
+      .addCase(setCurrentProject, (state, action) => {
+        if (state.projectId !== action.payload) {
+          state.projectId = action.payload;
+          state.past = [];
+          state.future = [];
+        }
+      })
+      // Recorded steps refer to nodes a snapshot restore may have replaced
+      .addCase(restoreSnapshotAPI.fulfilled, (state) => {
+        state.past = [];
+        state.future = [];
+      })
+      // Undo / redo
+      .addCase(undo.pending, (state) => {
+        state.isReplaying = true;
+      })
+      .addCase(undo.fulfilled, (state, action) => {
+        state.isReplaying = false;
+        state.past.pop();
+        state.future.push(action.payload);
+      })
+      .addCase(undo.rejected, (state) => {
+        // The tree changed in a way this entry can't be reversed against, so drop it
+        state.isReplaying = false;
+        state.past.pop();
+      })
+      .addCase(redo.pending, (state) => {
+        state.isReplaying = true;
+      })
+      .addCase(redo.fulfilled, (state, action) => {
+        state.isReplaying = false;
+        state.future.pop();
+        state.past.push(action.payload);
+      })
+      .addCase(redo.rejected, (state) => {
+        state.isReplaying = false;
+        state.future.pop();
+      })
+      // Recorded operations
+      .addCase(createNodeAPI.fulfilled, (state, action) => {
+        const { node, shifted } = action.payload;
+        record(state, { kind: 'create', label: `Create "${node.name}"`, nodes: [node], shifted });
+      })
+      .addCase(pasteNodesAPI.fulfilled, (state, action) => {
+        // Cut + paste is recorded by the move it dispatches
+        if (action.payload.mode === 'copy') {
+          record(state, { kind: 'create', label: `Paste ${describeNodes(action.payload.nodes)}`, nodes: action.payload.nodes });
+        }
+      })
+      .addCase(duplicateNodesAPI.fulfilled, (state, action) => {
+        record(state, { kind: 'create', label: `Duplicate ${describeNodes(action.payload.nodes)}`, nodes: action.payload.nodes });
+      })
+      .addCase(importZipAPI.fulfilled, (state, action) => {
+        if (action.payload.nodes.length > 0) {
+          record(state, { kind: 'create', label: `Import "${action.payload.fileName}"`, nodes: action.payload.nodes });
+        }
+      })
+      .addCase(uploadNodesAPI.fulfilled, (state, action) => {
+        // Overwritten contents can't be undone, so only a drop that purely adds nodes is recorded
+        if (action.payload.updates.length === 0 && action.payload.nodes.length > 0) {
+          record(state, { kind: 'create', label: `Upload ${describeNodes(action.payload.nodes)}`, nodes: action.payload.nodes });
+        }
+      })
+      .addCase(deleteNodeAPI.fulfilled, (state, action) => {
+        if (action.payload.removed) {
+          const nodes = [action.payload.removed];
+          record(state, { kind: 'delete', label: `Delete ${describeNodes(nodes)}`, nodes });
+        }
+      })
+      .addCase(deleteNodesAPI.fulfilled, (state, action) => {
+        const nodes = action.payload.removed;
+        record(state, { kind: 'delete', label: `Delete ${describeNodes(nodes)}`, nodes });
+      })
+      .addCase(moveNodeAPI.fulfilled, (state, action) => {
+        const { id, parentId, x, y, previous } = action.payload;
+        // Root-level nodes can't be moved back out of a folder
+        if (previous.parentId) {
+          record(state, { kind: 'move', label: 'Move item', parentId, moves: [{ id, x, y }], previous: [previous] });
+        }
+      })
+      .addCase(moveNodesAPI.fulfilled, (state, action) => {
+        const { parentId, moves, previous } = action.payload;
+        if (previous.every(placement => placement.parentId)) {
+          const label = moves.length === 1 ? 'Move item' : `Move ${moves.length} items`;
+          record(state, { kind: 'move', label, parentId, moves, previous });
+        }
+      })
+      .addCase(renameNodeAPI.fulfilled, (state, action) => {
+        const { id, name, previousName } = action.payload;
+        if (name !== previousName) {
+          record(state, { kind: 'rename', label: `Rename "${previousName}"`, id, name, previousName });
+        }
+      })
+      .addCase(updateNodePositionAPI.fulfilled, (state, action) => {
+        const { id, x, y, previous } = action.payload;
+        record(state, { kind: 'position', label: 'Move on canvas', positions: [{ id, x, y }], previous: [previous] });
+      })
+      .addCase(updateNodePositionsAPI.fulfilled, (state, action) => {
+        const { positions, previous } = action.payload;
+        record(state, { kind: 'position', label: 'Move on canvas', positions, previous });
+      })
+      .addCase(toggleFolderAPI.fulfilled, (state, action) => {
+        const { id, expanded, toggled } = action.payload;
+        if (toggled) {
+          record(state, {
+            kind: 'expand',
+            label: expanded ? 'Expand folder' : 'Collapse folder',
+            ids: [id],
+            expanded,
+            previous: [{ id, expanded: !expanded }],
+          });
+        }
+      })
+      .addCase(setFoldersExpandedAPI.fulfilled, (state, action) => {
+        const { ids, expanded, previous } = action.payload;
+        record(state, {
+          kind: 'expand',
+          label: `${expanded ? 'Expand' : 'Collapse'} ${ids.length} folder${ids.length !== 1 ? 's' : ''}`,
+          ids,
+          expanded,
+          previous,
+        });
+      });
+  },
+});
+
+export default historySlice.reducer;
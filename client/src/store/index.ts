@@ -1,11 +1,17 @@
 import { configureStore } from '@reduxjs/toolkit';
 import fileSystemReducer from './fileSystemSlice.js';
 import editorReducer from './editorSlice.js';
+import historyReducer from './historySlice.js';
+import trashReducer from './trashSlice.js';
+import presenceReducer from './presenceSlice.js';
 
 export const store = configureStore({
   reducer: {
     fileSystem: fileSystemReducer,
     editor: editorReducer,
+    history: historyReducer,
+    trash: trashReducer,
+    presence: presenceReducer,
   },
 });
 
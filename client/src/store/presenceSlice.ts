@@ -0,0 +1,54 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { PresenceState, PresenceUser } from '../types/index';
+import { setCurrentProject } from './fileSystemSlice';
+
+const initialState: PresenceState = {
+  projectId: null,
+  users: [],
+  connected: false,
+};
+
+const presenceSlice = createSlice({
+  name: 'presence',
+  initialState,
+  reducers: {
+    // Full list from the server, sent whenever someone joins, leaves or times out
+    setPresence: (state, action: PayloadAction<{ projectId: string; users: PresenceUser[] }>) => {
+      if (action.payload.projectId !== state.projectId) return;
+      state.users = action.payload.users;
+    },
+    setPresenceConnected: (state, action: PayloadAction<boolean>) => {
+      state.connected = action.payload;
+      // Without a connection we can't tell who is still around
+      if (!action.payload) {
+        state.users = [];
+      }
+    },
+    userStartedEditing: (state, action: PayloadAction<{ socketId: string; fileId: string }>) => {
+      const user = state.users.find(candidate => candidate.socketId === action.payload.socketId);
+      if (user) {
+        user.fileId = action.payload.fileId;
+      }
+    },
+    userStoppedEditing: (state, action: PayloadAction<{ socketId: string; fileId: string }>) => {
+      const user = state.users.find(candidate => candidate.socketId === action.payload.socketId);
+      if (user && user.fileId === action.payload.fileId) {
+        user.fileId = null;
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Presence is per project
+      .addCase(setCurrentProject, (state, action) => {
+        if (state.projectId !== action.payload) {
+          state.projectId = action.payload;
+          state.users = [];
+        }
+      });
+  },
+});
+
+export const { setPresence, setPresenceConnected, userStartedEditing, userStoppedEditing } = presenceSlice.actions;
+export default presenceSlice.reducer;
@@ -0,0 +1,107 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import type { TrashState } from '../types/index';
+import { fileSystemAPI } from '../services/api';
+import { deleteNodeAPI, deleteNodesAPI, restoreFromTrashAPI, restoreSnapshotAPI, setCurrentProject } from './fileSystemSlice';
+
+export const fetchTrashAPI = createAsyncThunk(
+  'trash/fetch',
+  async (projectId: string) => {
+    const { items, retentionDays } = await fileSystemAPI.getTrash(projectId);
+    return { projectId, items, retentionDays };
+  }
+);
+
+export const deleteFromTrashAPI = createAsyncThunk(
+  'trash/delete',
+  async ({ id, projectId }: { id: string; projectId: string }) => {
+    await fileSystemAPI.deleteFromTrash(id, projectId);
+    return id;
+  }
+);
+
+export const emptyTrashAPI = createAsyncThunk(
+  'trash/empty',
+  async (projectId: string) => {
+    await fileSystemAPI.emptyTrash(projectId);
+    return projectId;
+  }
+);
+
+const initialState: TrashState = {
+  projectId: null,
+  items: [],
+  retentionDays: 30,
+  stale: true,
+  loading: false,
+  error: null,
+};
+
+const trashSlice = createSlice({
+  name: 'trash',
+  initialState,
+  reducers: {
+    clearTrashError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Trash is per project
+      .addCase(setCurrentProject, (state, action) => {
+        if (state.projectId !== action.payload) {
+          state.projectId = action.payload;
+          state.items = [];
+          state.stale = true;
+        }
+      })
+      .addCase(fetchTrashAPI.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTrashAPI.fulfilled, (state, action) => {
+        state.loading = false;
+        state.stale = false;
+        // Ignore a late response for a project we already left
+        if (action.payload.projectId === state.projectId) {
+          state.items = action.payload.items;
+          state.retentionDays = action.payload.retentionDays;
+        }
+      })
+      .addCase(fetchTrashAPI.rejected, (state, action) => {
+        state.loading = false;
+        state.stale = false;
+        state.error = action.error.message || 'Failed to load trash';
+      })
+      .addCase(deleteFromTrashAPI.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item.id !== action.payload);
+      })
+      .addCase(deleteFromTrashAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to delete item';
+      })
+      .addCase(emptyTrashAPI.fulfilled, (state) => {
+        state.items = [];
+      })
+      .addCase(emptyTrashAPI.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to empty trash';
+      })
+      .addCase(restoreFromTrashAPI.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => !action.payload.ids.includes(item.id));
+      })
+      // New deletions land in the trash on the server
+      .addCase(deleteNodeAPI.fulfilled, (state) => {
+        state.stale = true;
+      })
+      .addCase(deleteNodesAPI.fulfilled, (state, action) => {
+        if (!action.payload.permanent) {
+          state.stale = true;
+        }
+      })
+      // Trashed nodes the snapshot holds come back into the tree
+      .addCase(restoreSnapshotAPI.fulfilled, (state) => {
+        state.stale = true;
+      });
+  },
+});
+
+export const { clearTrashError } = trashSlice.actions;
+export default trashSlice.reducer;
@@ -1,19 +1,64 @@
+export interface FileSystemNodeMetadata {
+  language?: string;
+  encoding?: string;
+  lineCount?: number;
+  permissions?: string;
+  mimeType?: string; // Only for binary files
+}
+
 export interface FileSystemNode {
   id: string;
   projectId?: string; // Add project reference
   type: 'file' | 'folder';
   name: string;
-  content?: string; // Only for files
+  content?: string; // Only for files; base64 when binary
+  binary?: boolean; // Files that are not text, such as images
   children?: FileSystemNode[]; // Only for folders
   parentId?: string;
   x?: number; // Canvas position
   y?: number; // Canvas position
   expanded?: boolean; // Only for folders
+  size?: number; // File size in bytes
+  metadata?: FileSystemNodeMetadata;
+}
+
+export interface NodePosition {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export type LayoutMode = 'top-down' | 'left-right' | 'radial';
+
+export interface ClipboardState {
+  mode: 'copy' | 'cut';
+  projectId: string;
+  nodes: FileSystemNode[]; // Snapshot of the top-level subtrees taken when copying
+}
+
+// A change another client made to the current project, as received over Socket.IO
+export type RemoteChange =
+  | { type: 'nodes-created'; nodes: FileSystemNode[] } // Flat lists with parentId links or whole subtrees
+  | { type: 'nodes-deleted'; ids: string[] }
+  | { type: 'nodes-moved'; parentId: string; moves: NodePosition[] }
+  | { type: 'node-renamed'; id: string; name: string; metadata?: FileSystemNodeMetadata }
+  | { type: 'positions-updated'; positions: NodePosition[] }
+  | { type: 'folders-expanded'; ids: string[]; expanded: boolean }
+  | { type: 'content-updated'; id: string; content: string; binary?: boolean };
+
+// New content for an existing file, as sent with a batch upload
+export interface FileContentUpdate {
+  id: string;
+  content: string;
+  binary?: boolean;
 }
 
 export interface FileSystemState {
   nodes: FileSystemNode[];
   selectedNodeId: string | null;
+  selectedNodeIds: string[]; // Multi-selection, kept free of duplicates
+  clipboard: ClipboardState | null;
+  layoutMode: LayoutMode | null; // Layout last applied with "Arrange"; new children are placed by it
   currentProjectId: string | null; // Add current project tracking
   isEditorOpen: boolean;
   editingFile: FileSystemNode | null;
@@ -21,10 +66,283 @@ export interface FileSystemState {
   error: string | null;
 }
 
+// Where a node sat before a move, so the move can be reversed
+export interface NodePlacement extends NodePosition {
+  parentId?: string;
+}
+
+export interface FolderExpandedState {
+  id: string;
+  expanded: boolean;
+}
+
+// One reversible operation on the tree. Snapshots hold whole subtrees so undone creates can be re-created;
+// deleted nodes come back out of the trash. A create made under a layout also carries the neighbours it shifted.
+export type HistoryEntry =
+  | { kind: 'create'; label: string; nodes: FileSystemNode[]; shifted?: { positions: NodePosition[]; previous: NodePosition[] } }
+  | { kind: 'delete'; label: string; nodes: FileSystemNode[] }
+  | { kind: 'move'; label: string; parentId: string; moves: NodePosition[]; previous: NodePlacement[] }
+  | { kind: 'rename'; label: string; id: string; name: string; previousName: string }
+  | { kind: 'position'; label: string; positions: NodePosition[]; previous: NodePosition[] }
+  | { kind: 'expand'; label: string; ids: string[]; expanded: boolean; previous: FolderExpandedState[] };
+
+export interface HistoryState {
+  projectId: string | null; // History only applies to the project it was recorded in
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  isReplaying: boolean; // True while an undo/redo is running, so its own operations aren't recorded
+}
+
+// A deleted subtree waiting in the project's trash
+export interface TrashItem {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  deletedAt: string;
+  expiresAt: string; // When retention runs out and the item is purged
+  originalParentId: string | null;
+  originalPath: string | null; // Null when the original folder no longer exists
+  itemCount: number; // Nodes deleted along with this one
+  size: number;
+}
+
+export interface RestoredTrashItem {
+  id: string;
+  parentId: string | null;
+  relocated: boolean; // The original folder was gone, so the item went to the project root
+  renamed: boolean;
+  node: FileSystemNode;
+}
+
+// An archive entry that was left out of a zip import, and why
+export interface ImportSkippedEntry {
+  path: string;
+  reason: 'ignored' | 'binary' | 'too-large' | 'invalid' | 'limit';
+  message: string;
+}
+
+export interface ZipImportResult {
+  nodes: FileSystemNode[]; // Flat, with parentId links
+  skipped: ImportSkippedEntry[];
+}
+
+// A built-in or custom project template as listed in the template picker
+export interface ProjectTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  icon: string; // 'atom' | 'server' | 'package' | 'book' for built-ins, 'folder' otherwise
+  builtIn: boolean;
+  createdAt?: string;
+  fileCount: number;
+  folderCount: number;
+  entries: { path: string; type: 'file' | 'folder' }[]; // Sorted by path
+}
+
+export interface ProjectTemplate extends ProjectTemplateSummary {
+  files: { path: string; content: string }[];
+}
+
+export interface TrashState {
+  projectId: string | null;
+  items: TrashItem[];
+  retentionDays: number;
+  stale: boolean; // Something was deleted since the last fetch
+  loading: boolean;
+  error: string | null;
+}
+
+// The name and colour other people see for this browser
+export interface UserIdentity {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// How a revision came about; 'original' is the content a file had before its first recorded save
+export type FileRevisionSource = 'original' | 'save' | 'upload' | 'restore' | 'replace';
+
+// An earlier saved state of a file, as listed in its history
+export interface FileRevisionSummary {
+  id: string;
+  fileId: string;
+  projectId: string;
+  size: number;
+  lineCount: number;
+  source: FileRevisionSource;
+  restoredFrom: string | null; // Revision a restore brought back
+  author: UserIdentity | null;
+  createdAt: string;
+}
+
+export interface FileRevision extends FileRevisionSummary {
+  content: string;
+}
+
+// A named point-in-time copy of a project's tree, as listed in the snapshots panel
+export interface ProjectSnapshotSummary {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  author: UserIdentity | null;
+  nodeCount: number;
+  fileCount: number;
+  folderCount: number;
+  size: number; // Total size of the file contents
+  createdAt: string;
+}
+
+// How one node differs between a snapshot and the current tree. 'added' nodes were created since the
+// snapshot and 'removed' ones deleted since; paths run from the project root.
+export interface ProjectSnapshotChange {
+  id: string;
+  type: 'file' | 'folder';
+  path: string;
+  snapshotPath?: string; // Where a modified node was when the snapshot was taken
+  status: 'added' | 'removed' | 'modified';
+  changes?: ('content' | 'name' | 'folder' | 'position')[];
+}
+
+export interface ProjectSnapshotDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+}
+
+export interface ProjectSnapshotDiff {
+  snapshot: ProjectSnapshotSummary;
+  summary: ProjectSnapshotDiffSummary;
+  changes: ProjectSnapshotChange[]; // Sorted by path
+}
+
+export interface ProjectSnapshotRestoreResult {
+  snapshot: ProjectSnapshotSummary;
+  backup: ProjectSnapshotSummary | null; // The state before the restore, when a backup was asked for
+  changes: ProjectSnapshotDiffSummary;
+  changedFileIds: string[]; // Files whose content the restore replaced
+}
+
+// A line of a file shown around a search match
+export interface SearchContextLine {
+  line: number;
+  text: string;
+}
+
+// A matching line of a text file. line and column count from 1 and point into the full line; text is cut
+// down to a window around the match when the line is long (clippedStart says its start was cut off).
+export interface SearchLineMatch extends SearchContextLine {
+  column: number;
+  length: number;
+  clippedStart: boolean;
+  before: SearchContextLine[];
+  after: SearchContextLine[];
+}
+
+// A node whose name or content matches a project search
+export interface SearchResult {
+  id: string;
+  projectId: string;
+  type: 'file' | 'folder';
+  name: string;
+  parentId: string | null;
+  binary: boolean;
+  metadata?: FileSystemNodeMetadata;
+  path: string; // From the project root, e.g. "Root/src/App.tsx"
+  nameMatch: boolean;
+  matches: SearchLineMatch[]; // The first matching lines
+  matchCount: number; // Every matching line, including those not listed
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[]; // Sorted by path
+  count: number;
+  truncated: boolean; // More nodes matched than were returned
+}
+
+// What a project-wide find and replace looks for. include and exclude are .gitignore-style globs matched
+// against paths below the project root folder; in regex mode the replacement can use $1 and $<name>.
+export interface ReplaceOptions {
+  find: string;
+  replace: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  include: string[];
+  exclude: string[];
+}
+
+// A line a replace would change, cut to a window from a little before its first match when long
+export interface ReplaceLineChange {
+  line: number;
+  count: number; // Matches on the line
+  before: string;
+  after: string;
+  clippedStart: boolean;
+}
+
+export interface ReplacePreviewFile {
+  id: string;
+  name: string;
+  path: string; // From the project root, e.g. "Root/src/App.tsx"
+  updatedAt: string; // Sent back when applying, so files changed since the preview are not touched
+  changes: ReplaceLineChange[];
+  matchCount: number;
+}
+
+export interface ReplacePreview {
+  files: ReplacePreviewFile[]; // Sorted by path
+  fileCount: number;
+  matchCount: number;
+  truncated: boolean; // More files matched than were returned
+}
+
+// A file picked from the preview; without lines, every change in it is applied
+export interface ReplaceTarget {
+  id: string;
+  updatedAt: string;
+  lines?: number[];
+}
+
+export interface ReplaceResult {
+  message: string;
+  files: FileSystemNode[];
+  replacedCount: number;
+}
+
+// Someone else editing the same file, as seen through the collaboration session
+export interface Collaborator extends UserIdentity {
+  clientId: number; // Yjs awareness id of their editor
+}
+
+export type CollabStatus = 'connecting' | 'live' | 'offline';
+
+// Another user in the current project, one entry per browser tab
+export interface PresenceUser extends UserIdentity {
+  socketId: string;
+  fileId: string | null; // File they have open in the editor
+}
+
+export interface PresenceState {
+  projectId: string | null;
+  users: PresenceUser[]; // Everyone else; this tab is never listed
+  connected: boolean;
+}
+
+// A range for the editor to scroll to and select once the file is shown; columns count from 1
+export interface EditorReveal {
+  line: number;
+  column: number;
+  length: number;
+}
+
 export interface EditorState {
   isOpen: boolean;
   file: FileSystemNode | null;
   content: string;
   isDirty: boolean;
   loading: boolean;
+  reveal: EditorReveal | null;
 }
@@ -0,0 +1,70 @@
+// Binary files are stored base64-encoded in the node's content; the server accepts up to this size
+export const MAX_BINARY_FILE_SIZE = 5 * 1024 * 1024;
+
+export type BinaryPreviewKind = 'image' | 'audio' | 'video' | 'hex';
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  flac: 'audio/flac',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  wasm: 'application/wasm',
+};
+
+// Same table as the server, for nodes created here before the server has filled in their metadata
+export const getMimeType = (filename: string) =>
+  MIME_TYPES[filename.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+
+export const getPreviewKind = (mimeType: string): BinaryPreviewKind => {
+  const [kind] = mimeType.split('/');
+  return kind === 'image' || kind === 'audio' || kind === 'video' ? kind : 'hex';
+};
+
+// Text is valid UTF-8 without NUL bytes; anything else is treated as binary
+export const decodeText = (buffer: ArrayBuffer): string | null => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.subarray(0, 8000).includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+// btoa takes a binary string, built in chunks so large files don't overflow the argument list
+export const encodeBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const decodeBase64 = (content: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(content), char => char.charCodeAt(0));
+
+// Bytes in base64 content, without decoding it
+export const getBase64Size = (content: string) =>
+  Math.floor((content.length * 3) / 4) - (content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0);
+
+// Read a file from disk as text when it is text, or as base64 otherwise
+export const readFileContent = async (file: File): Promise<{ content: string; binary: boolean }> => {
+  const buffer = await file.arrayBuffer();
+  const text = decodeText(buffer);
+  return text === null ? { content: encodeBase64(buffer), binary: true } : { content: text, binary: false };
+};
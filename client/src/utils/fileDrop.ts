@@ -0,0 +1,210 @@
+import type { FileContentUpdate, FileSystemNode, ImportSkippedEntry } from '../types/index';
+import { generateNodeId, getCopyName } from '../store/fileSystemSlice';
+import { decodeText, encodeBase64 } from './binaryFiles';
+
+// Files over this size are skipped, and everything dropped at once has to fit in one batch request
+const MAX_DROP_FILE_SIZE = 2 * 1024 * 1024;
+const MAX_DROP_TOTAL_SIZE = 8 * 1024 * 1024;
+const MB = 1024 * 1024;
+
+// New nodes are laid out like a file tree below the target folder's existing children
+const ROW_HEIGHT = 70;
+const INDENT = 80;
+
+// A file or folder found in the drop, with its path from the dropped top level
+export interface DroppedItem {
+  path: string[];
+  type: 'file' | 'folder';
+  file?: File;
+}
+
+// The dropped structure once file contents are read, nested like FileSystemNode
+export interface DroppedEntry {
+  name: string;
+  type: 'file' | 'folder';
+  content?: string; // base64 when binary
+  binary?: boolean;
+  children?: DroppedEntry[];
+}
+
+export interface DropUploadPlan {
+  nodes: FileSystemNode[]; // New subtrees, each under an existing folder
+  updates: FileContentUpdate[]; // Existing files to overwrite
+}
+
+// Operating system and version control clutter that is never uploaded
+const isClutter = (name: string) => name === '.DS_Store' || name === 'Thumbs.db' || name === '.git';
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns a directory's entries in chunks, and an empty chunk once they are all read
+const readDirectory = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) return entries;
+    entries.push(...chunk);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry, parentPath: string[]): Promise<DroppedItem[]> => {
+  if (isClutter(entry.name)) return [];
+  const path = [...parentPath, entry.name];
+  if (entry.isFile) {
+    return [{ path, type: 'file', file: await readFile(entry as FileSystemFileEntry) }];
+  }
+  const children = await readDirectory(entry as FileSystemDirectoryEntry);
+  const nested = await Promise.all(children.map(child => walkEntry(child, path)));
+  return [{ path, type: 'folder' }, ...nested.flat()];
+};
+
+// List everything in a drop, descending into dropped folders. The browser empties the DataTransfer once
+// the drop handler returns, so call this synchronously from the handler and await the result afterwards.
+export const collectDroppedItems = (dataTransfer: DataTransfer): Promise<DroppedItem[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Without the entries API we still get the top-level files
+  if (entries.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files).map(file => ({ path: [file.name], type: 'file' as const, file })));
+  }
+  return Promise.all(entries.map(entry => walkEntry(entry, []))).then(lists => lists.flat());
+};
+
+// Read the dropped files and nest them. Binary files are kept as base64; oversized files are left out and
+// reported like a zip import.
+export const readDroppedItems = async (
+  items: DroppedItem[],
+  onProgress: (done: number, total: number) => void
+): Promise<{ entries: DroppedEntry[]; skipped: ImportSkippedEntry[] }> => {
+  const root: DroppedEntry = { name: '', type: 'folder', children: [] };
+  const skipped: ImportSkippedEntry[] = [];
+  const files = items.filter(item => item.type === 'file');
+  let totalSize = 0;
+  let done = 0;
+
+  const ensureFolder = (path: string[]) => path.reduce((folder, name) => {
+    let child = folder.children?.find(entry => entry.name === name && entry.type === 'folder');
+    if (!child) {
+      child = { name, type: 'folder', children: [] };
+      folder.children?.push(child);
+    }
+    return child;
+  }, root);
+
+  items.filter(item => item.type === 'folder').forEach(item => ensureFolder(item.path));
+
+  onProgress(0, files.length);
+  for (const { path, file } of files) {
+    const displayPath = path.join('/');
+    if (!file) continue;
+
+    if (file.size > MAX_DROP_FILE_SIZE) {
+      skipped.push({ path: displayPath, reason: 'too-large', message: `Larger than ${MAX_DROP_FILE_SIZE / MB} MB` });
+    } else if (totalSize + file.size > MAX_DROP_TOTAL_SIZE) {
+      skipped.push({ path: displayPath, reason: 'limit', message: `The drop is larger than ${MAX_DROP_TOTAL_SIZE / MB} MB in total` });
+    } else {
+      const buffer = await file.arrayBuffer();
+      const text = decodeText(buffer);
+      const content = text ?? encodeBase64(buffer);
+      // Base64 is a third larger than the file, and that is what the request carries
+      if (text === null && totalSize + content.length > MAX_DROP_TOTAL_SIZE) {
+        skipped.push({ path: displayPath, reason: 'limit', message: `The drop is larger than ${MAX_DROP_TOTAL_SIZE / MB} MB in total` });
+      } else {
+        totalSize += text === null ? content.length : file.size;
+        ensureFolder(path.slice(0, -1)).children?.push({
+          name: path[path.length - 1],
+          type: 'file',
+          content,
+          binary: text === null,
+        });
+      }
+    }
+    onProgress(++done, files.length);
+  }
+
+  return { entries: root.children || [], skipped };
+};
+
+const findChild = (folder: FileSystemNode | null, name: string) =>
+  folder?.children?.find(child => child.name === name) ?? null;
+
+// Paths (from the target folder) of existing files the drop would replace
+export const findDropConflicts = (target: FileSystemNode, entries: DroppedEntry[], parentPath = ''): string[] => {
+  return entries.flatMap(entry => {
+    const existing = findChild(target, entry.name);
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+    if (!existing || existing.type !== entry.type) return [];
+    return entry.type === 'file' ? [path] : findDropConflicts(existing, entry.children || [], path);
+  });
+};
+
+// Work out what to create and what to overwrite. Dropped folders merge into existing folders of the same
+// name; clashing files are overwritten or, when keeping both, created as "name copy.ext".
+export const planDropUpload = (
+  target: FileSystemNode,
+  entries: DroppedEntry[],
+  overwrite: boolean,
+  projectId: string
+): DropUploadPlan => {
+  const plan: DropUploadPlan = { nodes: [], updates: [] };
+  const children = target.children || [];
+  const firstY = children.length > 0
+    ? Math.max(...children.map(child => child.y || 0)) + ROW_HEIGHT
+    : (target.y || 0) + ROW_HEIGHT;
+  let row = 0;
+
+  const createNode = (entry: DroppedEntry, name: string, parent: FileSystemNode): FileSystemNode => {
+    const node: FileSystemNode = {
+      id: generateNodeId(),
+      projectId,
+      type: entry.type,
+      name,
+      parentId: parent.id,
+      x: (parent.x || 0) + INDENT,
+      y: firstY + row++ * ROW_HEIGHT,
+    };
+    if (entry.type === 'file') {
+      return { ...node, content: entry.content || '', binary: !!entry.binary };
+    }
+    const folder: FileSystemNode = { ...node, expanded: true, children: [] };
+    folder.children = (entry.children || []).map(child => createNode(child, child.name, folder));
+    return folder;
+  };
+
+  const addEntries = (folder: FileSystemNode, folderEntries: DroppedEntry[]) => {
+    const takenNames = new Set((folder.children || []).map(child => child.name));
+    folderEntries.forEach(entry => {
+      const existing = findChild(folder, entry.name);
+      if (existing && existing.type === entry.type && entry.type === 'folder') {
+        addEntries(existing, entry.children || []);
+        return;
+      }
+      if (existing && existing.type === entry.type && overwrite) {
+        plan.updates.push({ id: existing.id, content: entry.content || '', binary: !!entry.binary });
+        return;
+      }
+      const name = existing ? getCopyName(entry.name, entry.type, takenNames) : entry.name;
+      takenNames.add(name);
+      plan.nodes.push(createNode(entry, name, folder));
+    });
+  };
+  addEntries(target, entries);
+
+  return plan;
+};
+
+// Files and folders in a list of subtrees
+export const countNodes = (nodes: FileSystemNode[]): { files: number; folders: number } => {
+  return nodes.reduce((counts, node) => {
+    const nested = countNodes(node.children || []);
+    return {
+      files: counts.files + nested.files + (node.type === 'file' ? 1 : 0),
+      folders: counts.folders + nested.folders + (node.type === 'folder' ? 1 : 0),
+    };
+  }, { files: 0, folders: 0 });
+};
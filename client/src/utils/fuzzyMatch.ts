@@ -0,0 +1,65 @@
+export interface FuzzyMatch {
+  score: number;
+  positions: number[]; // Indexes of the matched characters in the text
+}
+
+// Characters after which a new word starts
+const SEPARATORS = new Set(['/', '-', '_', '.', ' ']);
+
+const isWordStart = (text: string, index: number) => {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  const current = text[index];
+  return SEPARATORS.has(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+};
+
+// Where the query's characters fall in the text, taking each as early (or, backwards, as late) as possible
+const findPositions = (needle: string, haystack: string, fromEnd: boolean): number[] | null => {
+  const positions: number[] = [];
+  if (fromEnd) {
+    let index = haystack.length;
+    for (let i = needle.length - 1; i >= 0; i--) {
+      index = haystack.lastIndexOf(needle[i], index - 1);
+      if (index === -1) return null;
+      positions.unshift(index);
+    }
+  } else {
+    let index = -1;
+    for (const char of needle) {
+      index = haystack.indexOf(char, index + 1);
+      if (index === -1) return null;
+      positions.push(index);
+    }
+  }
+  return positions;
+};
+
+// Match the query's characters in order anywhere in the text, ignoring case. Runs of consecutive characters,
+// the start of words and the last path segment (the file name) score higher; gaps and long paths score lower.
+// Returns null when the text does not contain every character of the query.
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.replace(/\s+/g, '').toLowerCase();
+  if (!needle) return { score: 0, positions: [] };
+  const haystack = text.toLowerCase();
+  const nameStart = text.lastIndexOf('/') + 1;
+
+  const score = (positions: number[]) => {
+    let total = 0;
+    positions.forEach((position, i) => {
+      total += 1;
+      if (i > 0 && positions[i - 1] === position - 1) total += 5;
+      else if (i > 0) total -= Math.min(position - positions[i - 1] - 1, 5) * 0.5;
+      if (isWordStart(text, position)) total += 3;
+      if (position >= nameStart) total += 2;
+    });
+    if (haystack.startsWith(needle, nameStart)) total += 10;
+    return total - text.length * 0.05;
+  };
+
+  // Matching late favours the file name, matching early favours a run at the start; keep the better one
+  const candidates = [findPositions(needle, haystack, true), findPositions(needle, haystack, false)]
+    .filter((positions): positions is number[] => !!positions)
+    .map(positions => ({ score: score(positions), positions }));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, candidate) => (candidate.score > best.score ? candidate : best));
+};
@@ -0,0 +1,248 @@
+import type { FileSystemNode, LayoutMode, NodePosition } from '../types/index';
+
+// Rendered height of a node on the canvas (name plus the folder item count)
+export const NODE_HEIGHT = 64;
+
+const SIBLING_GAP = 40; // Between neighbouring subtrees
+const LEVEL_GAP = 100; // Between depth levels in the top-down layout
+const COLUMN_GAP = 120; // Between depth levels in the left-to-right layout
+const RING_GAP = 80; // Between rings in the radial layout
+const TREE_GAP = 160; // Between separate root trees in the radial layout
+
+export const LAYOUT_MODES: { mode: LayoutMode; label: string }[] = [
+  { mode: 'top-down', label: 'Top-down tree' },
+  { mode: 'left-right', label: 'Left-to-right tree' },
+  { mode: 'radial', label: 'Radial' },
+];
+
+// Node width grows with the name, between 140px and 400px
+export const getNodeWidth = (name: string): number => {
+  const baseWidth = 140;
+  const textLength = name.length;
+
+  // Only expand if text is longer than 6 characters
+  if (textLength <= 6) {
+    return baseWidth; // use base width for short/normal names
+  }
+
+  // For long names, calculate width based on character count
+  const charWidth = 9; // pixels per character
+  const calculatedWidth = textLength * charWidth + 90; // +90 for padding and icon
+  return Math.min(calculatedWidth, 400); // max width 400px
+};
+
+// Default spot for a new child of a folder: folders go below it, files to the bottom-right
+export const getChildPosition = (
+  parentNode: FileSystemNode | null,
+  type: 'file' | 'folder'
+): { x: number; y: number } => {
+  if (!parentNode) {
+    // Fallback to random position if parent not found
+    return { x: Math.random() * 200 + 100, y: Math.random() * 200 + 100 };
+  }
+  if (type === 'folder') {
+    // Position folders under the parent with a gap
+    return { x: parentNode.x || 100, y: (parentNode.y || 100) + 120 };
+  }
+  // Position files to the bottom-right of parent
+  return { x: (parentNode.x || 100) + 200, y: (parentNode.y || 100) + 80 };
+};
+
+// Positions for several nodes placed in the same folder, stacked so they don't overlap
+export const getStackedChildPositions = (
+  parentNode: FileSystemNode,
+  children: FileSystemNode[]
+): NodePosition[] => {
+  return children.map((child, index) => {
+    const { x, y } = getChildPosition(parentNode, child.type);
+    return { id: child.id, x, y: y + index * 70 };
+  });
+};
+
+// The part of the tree that is visible on the canvas: children of collapsed folders are left out
+interface LayoutTree {
+  node: FileSystemNode;
+  width: number;
+  depth: number;
+  children: LayoutTree[];
+  extent: number; // Room the subtree needs along the breadth axis
+  leaves: number; // Visible leaves in the subtree, used to share out angles in the radial layout
+}
+
+const buildLayoutTree = (node: FileSystemNode, depth: number, size: (width: number) => number): LayoutTree => {
+  const width = getNodeWidth(node.name);
+  const children = node.type === 'folder' && node.expanded
+    ? (node.children || []).map(child => buildLayoutTree(child, depth + 1, size))
+    : [];
+  const childrenExtent = children.reduce((sum, child) => sum + child.extent, 0) + SIBLING_GAP * (children.length - 1);
+
+  return {
+    node,
+    width,
+    depth,
+    children,
+    extent: children.length > 0 ? Math.max(size(width), childrenExtent) : size(width),
+    leaves: children.length > 0 ? children.reduce((sum, child) => sum + child.leaves, 0) : 1,
+  };
+};
+
+const walk = (trees: LayoutTree[], visit: (tree: LayoutTree) => void): void => {
+  trees.forEach(tree => {
+    visit(tree);
+    walk(tree.children, visit);
+  });
+};
+
+// Tidy tree: each subtree gets a band as wide as it needs and the parent is centred over its children.
+// Returns the centre of every node along the breadth axis.
+const placeLinear = (trees: LayoutTree[], start: number, centres: Map<string, number>): void => {
+  let offset = start;
+  trees.forEach(tree => {
+    centres.set(tree.node.id, offset + tree.extent / 2);
+    const childrenExtent = tree.children.reduce((sum, child) => sum + child.extent, 0)
+      + SIBLING_GAP * (tree.children.length - 1);
+    placeLinear(tree.children, offset + (tree.extent - childrenExtent) / 2, centres);
+    offset += tree.extent + SIBLING_GAP;
+  });
+};
+
+const layoutTopDown = (roots: FileSystemNode[]): Map<string, { x: number; y: number }> => {
+  const trees = roots.map(root => buildLayoutTree(root, 0, width => width));
+  const centres = new Map<string, number>();
+  placeLinear(trees, 0, centres);
+
+  const positions = new Map<string, { x: number; y: number }>();
+  walk(trees, tree => {
+    positions.set(tree.node.id, {
+      x: (centres.get(tree.node.id) || 0) - tree.width / 2,
+      y: tree.depth * (NODE_HEIGHT + LEVEL_GAP),
+    });
+  });
+  return positions;
+};
+
+const layoutLeftRight = (roots: FileSystemNode[]): Map<string, { x: number; y: number }> => {
+  const trees = roots.map(root => buildLayoutTree(root, 0, () => NODE_HEIGHT));
+  const centres = new Map<string, number>();
+  placeLinear(trees, 0, centres);
+
+  // Each depth gets a column as wide as its widest node
+  const columnWidths: number[] = [];
+  walk(trees, tree => {
+    columnWidths[tree.depth] = Math.max(columnWidths[tree.depth] || 0, tree.width);
+  });
+  const columnStarts = columnWidths.reduce<number[]>((starts, _, depth) => {
+    starts.push(depth === 0 ? 0 : starts[depth - 1] + columnWidths[depth - 1] + COLUMN_GAP);
+    return starts;
+  }, []);
+
+  const positions = new Map<string, { x: number; y: number }>();
+  walk(trees, tree => {
+    positions.set(tree.node.id, {
+      x: columnStarts[tree.depth],
+      y: (centres.get(tree.node.id) || 0) - NODE_HEIGHT / 2,
+    });
+  });
+  return positions;
+};
+
+// Radius of a circle that fully contains a node's box
+const getNodeRadius = (tree: LayoutTree) => (tree.width + NODE_HEIGHT) / 2;
+
+// Radial: the root sits in the middle, each depth is a ring and every subtree gets a wedge
+// proportional to its number of leaves. Rings are pushed out until no two nodes overlap.
+const layoutRadialTree = (tree: LayoutTree): Map<string, { x: number; y: number }> => {
+  const wedges = new Map<string, { angle: number; span: number }>();
+  const assignWedges = (subtree: LayoutTree, from: number, span: number) => {
+    wedges.set(subtree.node.id, { angle: from + span / 2, span });
+    let childFrom = from;
+    subtree.children.forEach(child => {
+      const childSpan = span * (child.leaves / subtree.leaves);
+      assignWedges(child, childFrom, childSpan);
+      childFrom += childSpan;
+    });
+  };
+  assignWedges(tree, -Math.PI / 2, Math.PI * 2);
+
+  // Largest node radius per depth, and the smallest ring radius that keeps each node inside its wedge
+  const maxRadius: number[] = [];
+  const minRing: number[] = [];
+  walk([tree], subtree => {
+    const radius = getNodeRadius(subtree);
+    const { span } = wedges.get(subtree.node.id)!;
+    maxRadius[subtree.depth] = Math.max(maxRadius[subtree.depth] || 0, radius);
+    const needed = span < Math.PI ? (radius + SIBLING_GAP / 2) / Math.sin(span / 2) : 0;
+    minRing[subtree.depth] = Math.max(minRing[subtree.depth] || 0, needed);
+  });
+
+  const rings: number[] = [0];
+  for (let depth = 1; depth < maxRadius.length; depth++) {
+    rings[depth] = Math.max(rings[depth - 1] + maxRadius[depth - 1] + maxRadius[depth] + RING_GAP, minRing[depth]);
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  walk([tree], subtree => {
+    const { angle } = wedges.get(subtree.node.id)!;
+    const ring = rings[subtree.depth];
+    positions.set(subtree.node.id, {
+      x: ring * Math.cos(angle) - subtree.width / 2,
+      y: ring * Math.sin(angle) - NODE_HEIGHT / 2,
+    });
+  });
+  return positions;
+};
+
+const layoutRadial = (roots: FileSystemNode[]): Map<string, { x: number; y: number }> => {
+  const positions = new Map<string, { x: number; y: number }>();
+  let offset = 0;
+
+  // Separate root trees sit side by side
+  roots.forEach(root => {
+    const tree = buildLayoutTree(root, 0, width => width);
+    const treePositions = layoutRadialTree(tree);
+    let minX = Infinity;
+    let maxX = -Infinity;
+    walk([tree], subtree => {
+      const { x } = treePositions.get(subtree.node.id)!;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x + subtree.width);
+    });
+
+    treePositions.forEach(({ x, y }, id) => positions.set(id, { x: x - minX + offset, y }));
+    offset += maxX - minX + TREE_GAP;
+  });
+  return positions;
+};
+
+// Lay out the visible tree with the given mode. The first root keeps its current spot, and nodes hidden
+// inside collapsed folders move along with their folder so they keep their arrangement.
+export const computeLayout = (roots: FileSystemNode[], mode: LayoutMode): NodePosition[] => {
+  if (roots.length === 0) return [];
+
+  const laidOut = mode === 'top-down'
+    ? layoutTopDown(roots)
+    : mode === 'left-right'
+      ? layoutLeftRight(roots)
+      : layoutRadial(roots);
+
+  const anchor = laidOut.get(roots[0].id) || { x: 0, y: 0 };
+  const dx = (roots[0].x || 0) - anchor.x;
+  const dy = (roots[0].y || 0) - anchor.y;
+
+  const positions: NodePosition[] = [];
+  const visit = (node: FileSystemNode, shift: { x: number; y: number } | null) => {
+    const placed = laidOut.get(node.id);
+    let childShift = shift;
+    if (placed) {
+      const x = Math.round(placed.x + dx);
+      const y = Math.round(placed.y + dy);
+      positions.push({ id: node.id, x, y });
+      childShift = { x: x - (node.x || 0), y: y - (node.y || 0) };
+    } else if (shift) {
+      positions.push({ id: node.id, x: Math.round((node.x || 0) + shift.x), y: Math.round((node.y || 0) + shift.y) });
+    }
+    (node.children || []).forEach(child => visit(child, childShift));
+  };
+  roots.forEach(root => visit(root, null));
+  return positions;
+};
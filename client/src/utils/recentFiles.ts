@@ -0,0 +1,29 @@
+const STORAGE_KEY = 'fse.recentFiles';
+
+// Older entries drop off the end of each project's list
+const MAX_RECENT_FILES = 50;
+
+const readAll = (): Record<string, string[]> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+// Ids of the files this browser opened in a project, most recent first
+export const getRecentFiles = (projectId: string): string[] => {
+  const ids = readAll()[projectId];
+  return Array.isArray(ids) ? ids.filter(id => typeof id === 'string') : [];
+};
+
+export const recordRecentFile = (projectId: string, fileId: string) => {
+  const all = readAll();
+  all[projectId] = [fileId, ...getRecentFiles(projectId).filter(id => id !== fileId)].slice(0, MAX_RECENT_FILES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // Storage can be unavailable (private mode); quick open then ranks by match alone
+  }
+};
@@ -0,0 +1,38 @@
+import type { UserIdentity } from '../types/index';
+
+const STORAGE_KEY = 'fse.user';
+
+const USER_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d'];
+
+// The identity this browser shows to collaborators. There are no accounts, so a guest name and
+// colour are picked once and kept in localStorage.
+export const getLocalUser = (): UserIdentity => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && typeof stored.id === 'string' && typeof stored.name === 'string' && typeof stored.color === 'string') {
+      return stored;
+    }
+  } catch {
+    // Fall through and pick a new identity
+  }
+
+  const user: UserIdentity = {
+    id: `user_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    name: `Guest ${Math.floor(1000 + Math.random() * 9000)}`,
+    color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
+  } catch {
+    // Storage can be unavailable (private mode); the identity then lasts for this page only
+  }
+  return user;
+};
+
+// One or two letters for an avatar: "Guest 4821" -> "G4", "Ada Lovelace" -> "AL"
+export const getInitials = (name: string): string => {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return '?';
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+};
@@ -7,6 +7,12 @@ import { Server } from 'socket.io';
 import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
+import * as Y from 'yjs';
+import * as awarenessProtocol from 'y-protocols/awareness.js';
+import { unzipSync, strFromU8, strToU8, Zip, ZipDeflate, ZipPassThrough } from 'fflate';
+import ignore from 'ignore';
+import { BUILT_IN_TEMPLATES, getTemplateValues, parameterizeProjectName } from './templates.js';
+import { replaceInFiles } from './replace.js';
 
 dotenv.config();
 
@@ -21,6 +27,67 @@ const io = new Server(server, {
 
 const PORT = process.env.PORT || 5000;
 
+// Deleted nodes stay in the project's trash this long before they are purged for good
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000; // Check for expired trash every hour
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Collaborative edits are written to the file's content once editing pauses for this long
+const COLLAB_SAVE_DELAY = 2000;
+
+// Users who send no activity heartbeat for this long drop out of a project's presence list
+const PRESENCE_IDLE_TIMEOUT = 5 * 60 * 1000;
+const PRESENCE_SWEEP_INTERVAL = 30 * 1000;
+
+// Zip imports: size of the upload, of each unpacked file and of the whole unpacked archive, and the number of entries
+const IMPORT_MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+const IMPORT_MAX_FILE_SIZE = 2 * 1024 * 1024;
+const IMPORT_MAX_TOTAL_SIZE = 100 * 1024 * 1024;
+const IMPORT_MAX_ENTRIES = 5000;
+
+// Imported nodes are laid out like a file tree: one row per node, indented by depth
+const IMPORT_ROW_HEIGHT = 70;
+const IMPORT_INDENT = 80;
+
+// Project snapshots: a versioned JSON document with the project and all of its nodes.
+// The format is described under "Project Snapshot Format" in the README.
+const SNAPSHOT_FORMAT = 'file-system-explorer/project';
+const SNAPSHOT_VERSION = 3;
+
+// File revisions: every save is kept for a day, then thinned to the last save of each hour. Revisions
+// past the retention period are dropped, but the newest few of each file are always kept.
+const REVISION_RETENTION_DAYS = Number(process.env.REVISION_RETENTION_DAYS) || 30;
+const REVISION_MAX_PER_FILE = 100;
+const REVISION_MIN_KEPT = 5;
+// Collaborative editing saves after every pause in typing; one editor's saves within this window share a revision
+const REVISION_COALESCE_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Custom templates are stored as one document, so they have to stay well below MongoDB's 16 MB limit
+const TEMPLATE_MAX_SIZE = 8 * 1024 * 1024;
+
+// Named project snapshots hold every live node in one document too
+const PROJECT_SNAPSHOT_MAX_SIZE = 12 * 1024 * 1024;
+
+// Binary files are stored base64-encoded in the node's content, which has to fit the 10 MB JSON body limit
+const BINARY_MAX_SIZE = 5 * 1024 * 1024;
+
+// Search returns at most this many nodes, each with its first matching lines and the lines around them
+const SEARCH_MAX_RESULTS = 100;
+const SEARCH_MAX_LINE_MATCHES = 20;
+const SEARCH_CONTEXT_LINES = 2;
+// Longer lines, such as minified code, are cut down to a window around the match
+const SEARCH_MAX_LINE_LENGTH = 240;
+
+// A find and replace previews and changes at most this many files at once
+const REPLACE_MAX_FILES = 200;
+// Patterns are capped in length, and their matching is stopped once it runs this long
+const REPLACE_MAX_PATTERN_LENGTH = 500;
+const REPLACE_TIMEOUT_MS = Number(process.env.REPLACE_TIMEOUT_MS) || 5000;
+
+// Stored at the root of exported archives with every node's canvas position, and read back on import
+const ZIP_MANIFEST_NAME = '.fse-manifest.json';
+
 // Security and performance middleware
 app.use(helmet({
   contentSecurityPolicy: false, // Disable for development
@@ -50,6 +117,11 @@ const connectDB = async () => {
         console.log('📁 Initializing database with default file system...');
         await initializeDefaultFileSystem();
       }
+
+      // Purge trash that is past its retention period
+      setInterval(() => {
+        purgeExpiredTrash().catch(error => console.error('Error purging trash:', error));
+      }, TRASH_PURGE_INTERVAL).unref();
     } else {
       console.log('⚠️  MongoDB URI not provided, running with mock data');
     }
@@ -84,6 +156,7 @@ const fileSystemNodeSchema = new mongoose.Schema({
   type: { type: String, enum: ['file', 'folder'], required: true },
   name: { type: String, required: true },
   content: { type: String, default: '' }, // Only for files
+  binary: { type: Boolean, default: false }, // The content is base64-encoded bytes rather than text
   parentId: { type: String, default: null },
   x: { type: Number, default: 0 },
   y: { type: Number, default: 0 },
@@ -96,8 +169,11 @@ const fileSystemNodeSchema = new mongoose.Schema({
     language: { type: String, default: '' },
     encoding: { type: String, default: 'utf-8' },
     lineCount: { type: Number, default: 0 },
-    permissions: { type: String, default: 'rw-r--r--' }
-  }
+    permissions: { type: String, default: 'rw-r--r--' },
+    mimeType: { type: String, default: '' } // Binary files only
+  },
+  deletedAt: { type: Date, default: null }, // Set while the node is in the trash
+  trashRootId: { type: String, default: null } // Id of the top-level node deleted together with this one
 });
 
 // Add compound indexes for better performance
@@ -105,9 +181,63 @@ fileSystemNodeSchema.index({ projectId: 1, parentId: 1 });
 fileSystemNodeSchema.index({ projectId: 1, type: 1 });
 fileSystemNodeSchema.index({ projectId: 1, name: 1, parentId: 1 });
 fileSystemNodeSchema.index({ id: 1, projectId: 1 }, { unique: true });
+fileSystemNodeSchema.index({ projectId: 1, deletedAt: 1 });
 
 const FileSystemNode = mongoose.model('FileSystemNode', fileSystemNodeSchema);
 
+// Earlier contents of a file, recorded each time it is saved
+const fileRevisionSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true },
+  fileId: { type: String, required: true },
+  projectId: { type: String, required: true },
+  content: { type: String, default: '' },
+  size: { type: Number, default: 0 },
+  lineCount: { type: Number, default: 0 },
+  // 'original' is the content a file had before its first recorded save
+  source: { type: String, enum: ['original', 'save', 'upload', 'restore', 'replace'], default: 'save' },
+  restoredFrom: { type: String, default: null }, // Revision whose content a restore brought back
+  author: { type: { _id: false, id: String, name: String, color: String }, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+fileRevisionSchema.index({ projectId: 1, fileId: 1, createdAt: -1 });
+
+const FileRevision = mongoose.model('FileRevision', fileRevisionSchema);
+
+// Custom project templates, saved from existing projects. Built-in templates live in templates.js.
+const projectTemplateSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  description: { type: String, default: '' },
+  sourceProjectId: { type: String, default: null }, // Project the template was saved from
+  folders: [String], // Paths from the project root, e.g. "src/components"
+  files: [{ _id: false, path: String, content: String }],
+  layout: [{ _id: false, path: String, x: Number, y: Number, expanded: Boolean }], // Canvas positions, root at ""
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+const ProjectTemplate = mongoose.model('ProjectTemplate', projectTemplateSchema);
+
+// Named point-in-time copies of a project's live nodes, which the project can be restored to
+const projectSnapshotSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true },
+  projectId: { type: String, required: true },
+  name: { type: String, required: true },
+  description: { type: String, default: '' },
+  author: { type: { _id: false, id: String, name: String, color: String }, default: null },
+  nodeCount: { type: Number, default: 0 },
+  fileCount: { type: Number, default: 0 },
+  folderCount: { type: Number, default: 0 },
+  size: { type: Number, default: 0 }, // Total size of the file contents
+  nodes: { type: [mongoose.Schema.Types.Mixed], default: [] }, // In the shape of snapshot format nodes
+  createdAt: { type: Date, default: Date.now }
+});
+
+projectSnapshotSchema.index({ projectId: 1, createdAt: -1 });
+
+const ProjectSnapshot = mongoose.model('ProjectSnapshot', projectSnapshotSchema);
+
 // Initialize default projects and file system
 const initializeDefaultFileSystem = async () => {
   try {
@@ -303,35 +433,61 @@ app.get('/api/projects', async (req, res) => {
   }
 });
 
-// Create new project
+// Create new project, optionally filled from a template
 app.post('/api/projects', async (req, res) => {
   try {
-    const { name, description } = req.body;
+    const { name, description, templateId } = req.body;
     const projectId = `project-${Date.now()}`;
 
+    let template = null;
+    if (templateId) {
+      template = await findTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+    }
+
+    const rootNode = {
+      id: `root-${projectId}`,
+      projectId,
+      type: 'folder',
+      name: 'Project Root',
+      parentId: null,
+      x: 100,
+      y: 100,
+      expanded: true
+    };
+
+    let flatNodes = [];
+    if (template) {
+      const filled = fillTemplate(template, { name, description });
+      if (filled.error) {
+        return res.status(400).json({ error: filled.error });
+      }
+      flatNodes = prepareNodesForInsert(buildImportNodes(toImportEntries(filled), rootNode, []), projectId);
+    }
+
     if (process.env.MONGODB_URI) {
-      const project = new Project({
-        id: projectId,
-        name,
-        description,
-        owner: 'default'
-      });
-      await project.save();
+      // Start transaction so the project never exists without its template files
+      const session = await mongoose.startSession();
+      session.startTransaction();
 
-      // Create root folder for the project
-      const rootNode = new FileSystemNode({
-        id: `root-${projectId}`,
-        projectId: projectId,
-        type: 'folder',
-        name: 'Project Root',
-        parentId: null,
-        x: 100,
-        y: 100,
-        expanded: true
-      });
-      await rootNode.save();
+      try {
+        const [project] = await Project.create([{ id: projectId, name, description, owner: 'default' }], { session });
+        // Create root folder for the project
+        await FileSystemNode.create([rootNode], { session });
+        if (flatNodes.length > 0) {
+          await FileSystemNode.insertMany(flatNodes, { session });
+        }
 
-      res.status(201).json(project);
+        await session.commitTransaction();
+        res.status(201).json(project);
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
     } else {
       // Mock response
       const project = {
@@ -379,6 +535,79 @@ app.put('/api/projects/:projectId', async (req, res) => {
   }
 });
 
+// Copy a project with all of its nodes (including the trash) under new ids, named "<name> (copy)" by default
+app.post('/api/projects/:projectId/duplicate', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { name } = req.body;
+    const newProjectId = `project-${Date.now()}`;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'Project name cannot be empty' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so the copy is taken from one consistent state and never left half-written
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const source = await Project.findOne({ id: projectId, isActive: true }).session(session).lean();
+        if (!source) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: 'Project not found' });
+        }
+
+        const sourceNodes = await FileSystemNode.find({ projectId }).sort({ createdAt: 1 }).session(session).lean();
+        const { project, nodes } = remapSnapshot(createSnapshot(source, sourceNodes), newProjectId);
+
+        const takenNames = new Set((await Project.find({ isActive: true }, { name: 1 }).session(session).lean()).map(p => p.name));
+        const now = new Date();
+        const [createdProject] = await Project.create([{
+          ...project,
+          name: name ? name.trim() : getAvailableName(source.name, 'folder', takenNames, 'copy'),
+          createdAt: now,
+          updatedAt: now
+        }], { session });
+        if (nodes.length > 0) {
+          await FileSystemNode.insertMany(nodes, { session });
+        }
+
+        await session.commitTransaction();
+
+        res.status(201).json({
+          message: 'Project duplicated successfully',
+          project: createdProject,
+          nodeCount: nodes.length
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.status(201).json({
+        message: 'Project duplicated successfully (mock mode)',
+        project: {
+          id: newProjectId,
+          name: name ? name.trim() : `${projectId} (copy)`,
+          description: '',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          owner: 'default',
+          isActive: true,
+          settings: { theme: 'light', layout: 'canvas', autoSave: true }
+        },
+        nodeCount: 0
+      });
+    }
+  } catch (error) {
+    console.error('Error duplicating project:', error);
+    res.status(500).json({ error: 'Failed to duplicate project' });
+  }
+});
+
 // Delete project
 app.delete('/api/projects/:projectId', async (req, res) => {
   try {
@@ -393,6 +622,8 @@ app.delete('/api/projects/:projectId', async (req, res) => {
 
       // Optionally also delete all nodes in the project
       await FileSystemNode.deleteMany({ projectId });
+      await FileRevision.deleteMany({ projectId });
+      await ProjectSnapshot.deleteMany({ projectId });
 
       res.json({ message: 'Project deleted successfully' });
     } else {
@@ -404,6 +635,121 @@ app.delete('/api/projects/:projectId', async (req, res) => {
   }
 });
 
+// Project Template Routes
+
+// List built-in and custom templates with their file trees for previews
+app.get('/api/templates', async (req, res) => {
+  try {
+    const customTemplates = process.env.MONGODB_URI
+      ? await ProjectTemplate.find().sort({ createdAt: -1 }).lean()
+      : [];
+
+    res.json([...BUILT_IN_TEMPLATES, ...customTemplates].map(summarizeTemplate));
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    res.status(500).json({ error: 'Failed to fetch templates' });
+  }
+});
+
+// Get a template with its file contents. With ?name= (and ?description=) the placeholders are filled in,
+// showing exactly what a new project with that name would contain.
+app.get('/api/templates/:templateId', async (req, res) => {
+  try {
+    const template = await findTemplate(req.params.templateId);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const { name, description } = req.query;
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.json({ ...summarizeTemplate(template), files: template.files });
+    }
+
+    const filled = fillTemplate(template, { name: name.trim(), description: String(description || '') });
+    if (filled.error) {
+      return res.status(400).json({ error: filled.error });
+    }
+    res.json({ ...summarizeTemplate(filled), files: filled.files });
+  } catch (error) {
+    console.error('Error fetching template:', error);
+    res.status(500).json({ error: 'Failed to fetch template' });
+  }
+});
+
+// Save a project's files, folders and canvas layout as a custom template. With parameterize, the project's
+// name in file contents and names is replaced with placeholders so new projects get their own name.
+app.post('/api/projects/:projectId/templates', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { name, description = '', parameterize = true } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Template name is required' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      const project = await Project.findOne({ id: projectId }).lean();
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      const nodes = await FileSystemNode.find({ projectId, deletedAt: null }).lean();
+      const contents = collectTemplateContents(nodes, projectId, parameterize ? project.name : null);
+
+      const totalSize = contents.files.reduce((total, file) => total + calculateFileSize(file.content), 0);
+      if (totalSize > TEMPLATE_MAX_SIZE) {
+        return res.status(413).json({ error: `Templates can hold at most ${formatMegabytes(TEMPLATE_MAX_SIZE)} of files` });
+      }
+
+      const template = await ProjectTemplate.create({
+        id: `template-${Date.now()}`,
+        name: name.trim(),
+        description,
+        sourceProjectId: projectId,
+        ...contents
+      });
+
+      res.status(201).json(summarizeTemplate(template.toObject()));
+    } else {
+      res.status(201).json(summarizeTemplate({
+        id: `template-${Date.now()}`,
+        name: name.trim(),
+        description,
+        folders: [],
+        files: [],
+        createdAt: new Date()
+      }));
+    }
+  } catch (error) {
+    console.error('Error saving template:', error);
+    res.status(500).json({ error: 'Failed to save template' });
+  }
+});
+
+// Delete a custom template
+app.delete('/api/templates/:templateId', async (req, res) => {
+  try {
+    const { templateId } = req.params;
+
+    if (BUILT_IN_TEMPLATES.some(template => template.id === templateId)) {
+      return res.status(403).json({ error: 'Built-in templates cannot be deleted' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      const result = await ProjectTemplate.deleteOne({ id: templateId });
+      if (result.deletedCount === 0) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.json({ message: 'Template deleted successfully' });
+    } else {
+      res.json({ message: 'Template deleted successfully (mock mode)' });
+    }
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    res.status(500).json({ error: 'Failed to delete template' });
+  }
+});
+
 // Enhanced File System API Routes (with project support)
 
 // Get file system nodes for a specific project
@@ -412,7 +758,7 @@ app.get('/api/projects/:projectId/nodes', async (req, res) => {
     const { projectId } = req.params;
 
     if (process.env.MONGODB_URI) {
-      const nodes = await FileSystemNode.find({ projectId }).sort({ createdAt: 1 });
+      const nodes = await FileSystemNode.find({ projectId, deletedAt: null }).sort({ createdAt: 1 });
       console.log('🔍 Raw nodes from DB:', nodes.map(n => ({ id: n.id, name: n.name, expanded: n.expanded, type: n.type })));
       const transformedNodes = buildHierarchy(nodes);
       console.log('🔍 Transformed nodes:', JSON.stringify(transformedNodes.map(n => ({ id: n.id, name: n.name, expanded: n.expanded, type: n.type })), null, 2));
@@ -530,26 +876,29 @@ app.post('/api/projects/:projectId/node', async (req, res) => {
     const { projectId } = req.params;
     const nodeData = req.body;
 
+    // Uploaded binary files arrive base64-encoded
+    if (nodeData.type === 'file' && nodeData.binary) {
+      const binaryError = validateBinaryContent(nodeData.content);
+      if (binaryError) {
+        return res.status(binaryError.status).json({ error: binaryError.error });
+      }
+    }
+
+    // Add project reference and timestamps, and work out the file's size and metadata
+    const [preparedNode] = prepareNodesForInsert([nodeData], projectId);
+
     if (process.env.MONGODB_URI) {
-      // Add project reference and timestamps
-      const newNode = new FileSystemNode({
-        ...nodeData,
-        projectId,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
+      const newNode = new FileSystemNode(preparedNode);
 
       await newNode.save();
+
+      // Emit real-time update
+      emitToProject(req, projectId, 'node-created', { node: newNode });
+
       res.status(201).json(newNode);
     } else {
       // Mock response for development
-      const mockNode = {
-        ...nodeData,
-        projectId,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      res.status(201).json(mockNode);
+      res.status(201).json(preparedNode);
     }
   } catch (error) {
     console.error('Error creating project node:', error);
@@ -574,7 +923,7 @@ app.post('/api/projects/:projectId/tree', async (req, res) => {
 
       try {
         // Clear existing nodes for this project and save new ones
-        await FileSystemNode.deleteMany({ projectId }, { session });
+        await FileSystemNode.deleteMany({ projectId, deletedAt: null }, { session });
 
         const flatNodes = [];
         const flattenTree = (treeNodes, parentId = null) => {
@@ -611,7 +960,7 @@ app.post('/api/projects/:projectId/tree', async (req, res) => {
         await session.commitTransaction();
 
         // Emit real-time update
-        io.emit('tree-updated', { projectId, nodeCount: flatNodes.length });
+        emitToProject(req, projectId, 'tree-updated', { nodeCount: flatNodes.length });
 
         res.json({
           message: 'Project tree saved successfully',
@@ -662,7 +1011,7 @@ app.patch('/api/node/:id/position', async (req, res) => {
       }
 
       // Emit real-time update
-      io.emit('node-position-updated', { id, x, y });
+      emitToProject(req, updatedNode.projectId, 'node-position-updated', { id, x, y });
 
       res.json({
         message: 'Node position updated successfully',
@@ -698,7 +1047,7 @@ app.patch('/api/node/:id/expanded', async (req, res) => {
       }
 
       // Emit real-time update
-      io.emit('folder-expanded-updated', { id, expanded });
+      emitToProject(req, updatedNode.projectId, 'folder-expanded-updated', { id, expanded });
 
       res.json({
         message: 'Folder expanded state updated successfully',
@@ -716,181 +1065,3055 @@ app.patch('/api/node/:id/expanded', async (req, res) => {
   }
 });
 
-// Delete node
-app.delete('/api/node/:id', async (req, res) => {
+// Rename node
+app.patch('/api/node/:id/rename', async (req, res) => {
   try {
     const { id } = req.params;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    const nameError = validateNodeName(name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
 
     if (process.env.MONGODB_URI) {
-      // Find the node first to get its children
-      const nodeToDelete = await FileSystemNode.findOne({ id });
+      const node = await FileSystemNode.findOne({ id });
 
-      if (!nodeToDelete) {
+      if (!node) {
         return res.status(404).json({ error: 'Node not found' });
       }
 
-      // Recursively delete node and all its children
-      const deleteNodeAndChildren = async (nodeId) => {
-        const children = await FileSystemNode.find({ parentId: nodeId });
-
-        // Delete all children first
-        for (const child of children) {
-          await deleteNodeAndChildren(child.id);
-        }
-
-        // Delete the node itself
-        await FileSystemNode.deleteOne({ id: nodeId });
-      };
+      // Names must stay unique among siblings
+      const existingNode = await FileSystemNode.findOne({
+        projectId: node.projectId,
+        parentId: node.parentId,
+        name,
+        id: { $ne: id },
+        deletedAt: null
+      });
+      if (existingNode) {
+        return res.status(409).json({ error: `A ${existingNode.type} named "${name}" already exists in this folder` });
+      }
 
-      await deleteNodeAndChildren(id);
+      node.name = name;
+      node.updatedAt = new Date();
+      if (node.type === 'file') {
+        node.metadata.language = getLanguageFromExtension(name);
+      }
+      await node.save();
 
       // Emit real-time update
-      io.emit('node-deleted', { id, projectId: nodeToDelete.projectId });
+      emitToProject(req, node.projectId, 'node-renamed', {
+        id,
+        name,
+        metadata: node.metadata
+      });
 
       res.json({
-        message: 'Node and its children deleted successfully',
-        deletedNodeId: id
+        message: 'Node renamed successfully',
+        node
       });
     } else {
       res.json({
-        message: 'Node deleted successfully (mock mode)',
-        deletedNodeId: id
+        message: 'Node renamed successfully (mock mode)',
+        node: { id, name, metadata: { language: getLanguageFromExtension(name) } }
       });
     }
   } catch (error) {
-    console.error('Error deleting node:', error);
-    res.status(500).json({ error: 'Failed to delete node' });
+    console.error('Error renaming node:', error);
+    res.status(500).json({ error: 'Failed to rename node' });
   }
 });
 
-// Get file content
-app.get('/api/file/:id', async (req, res) => {
+// Move node (and its subtree) into another folder
+app.patch('/api/node/:id/move', async (req, res) => {
   try {
     const { id } = req.params;
+    const { parentId, x, y } = req.body;
 
-    if (process.env.MONGODB_URI) {
-      const node = await FileSystemNode.findOne({ id, type: 'file' });
+    if (!parentId) {
+      return res.status(400).json({ error: 'Target folder is required' });
+    }
+    if (parentId === id) {
+      return res.status(400).json({ error: 'Cannot move a node into itself' });
+    }
 
+    if (process.env.MONGODB_URI) {
+      const node = await FileSystemNode.findOne({ id });
       if (!node) {
-        return res.status(404).json({ error: 'File not found' });
+        return res.status(404).json({ error: 'Node not found' });
       }
 
-      res.json(node);
+      const moveError = await validateMoveTarget(node, parentId);
+      if (moveError) {
+        return res.status(moveError.status).json({ error: moveError.error });
+      }
+
+      // Shift the whole subtree by the same offset so it keeps its shape on the canvas
+      const newX = typeof x === 'number' ? x : node.x;
+      const newY = typeof y === 'number' ? y : node.y;
+      const descendantIds = await collectDescendantIds(id, node.projectId);
+      if (descendantIds.length > 0) {
+        await FileSystemNode.updateMany(
+          { id: { $in: descendantIds }, projectId: node.projectId },
+          { $inc: { x: newX - node.x, y: newY - node.y } }
+        );
+      }
+
+      node.parentId = parentId;
+      node.x = newX;
+      node.y = newY;
+      node.updatedAt = new Date();
+      await node.save();
+
+      // Emit real-time update
+      emitToProject(req, node.projectId, 'node-moved', {
+        id,
+        parentId,
+        x: newX,
+        y: newY
+      });
+
+      res.json({
+        message: 'Node moved successfully',
+        node,
+        movedCount: descendantIds.length + 1
+      });
     } else {
-      // Mock file content
       res.json({
-        id,
-        type: 'file',
-        name: 'mock-file.txt',
-        content: 'Mock file content for development',
-        projectId: 'mock-project'
+        message: 'Node moved successfully (mock mode)',
+        node: { id, parentId, x, y }
       });
     }
   } catch (error) {
-    console.error('Error fetching file:', error);
-    res.status(500).json({ error: 'Failed to fetch file' });
+    console.error('Error moving node:', error);
+    res.status(500).json({ error: 'Failed to move node' });
   }
 });
 
-// Save file content
-app.post('/api/file/:id', async (req, res) => {
+// Batch operations for a specific project
+
+// Update many node positions at once
+app.patch('/api/projects/:projectId/nodes/positions', async (req, res) => {
   try {
-    const { id } = req.params;
-    const { content } = req.body;
+    const { projectId } = req.params;
+    const { positions } = req.body;
 
-    if (process.env.MONGODB_URI) {
-      const updatedNode = await FileSystemNode.findOneAndUpdate(
-        { id, type: 'file' },
-        {
-          content,
-          size: calculateFileSize(content),
-          'metadata.lineCount': countLines(content),
-          updatedAt: new Date()
-        },
-        { new: true }
-      );
+    if (!Array.isArray(positions)) {
+      return res.status(400).json({ error: 'Positions must be an array' });
+    }
+    if (positions.some(p => !p.id || typeof p.x !== 'number' || typeof p.y !== 'number')) {
+      return res.status(400).json({ error: 'Each position needs an id and numeric x and y' });
+    }
 
-      if (!updatedNode) {
-        return res.status(404).json({ error: 'File not found' });
-      }
+    if (process.env.MONGODB_URI) {
+      const now = new Date();
+      const result = await FileSystemNode.bulkWrite(positions.map(({ id, x, y }) => ({
+        updateOne: {
+          filter: { id, projectId },
+          update: { $set: { x, y, updatedAt: now } }
+        }
+      })));
 
       // Emit real-time update
-      io.emit('file-content-updated', { id, content });
+      emitToProject(req, projectId, 'node-positions-updated', { positions });
 
       res.json({
-        message: 'File content saved successfully',
-        file: updatedNode
+        message: 'Node positions updated successfully',
+        updatedCount: result.modifiedCount
       });
     } else {
       res.json({
-        message: 'File content saved successfully (mock mode)',
-        id, content
+        message: 'Node positions updated successfully (mock mode)',
+        updatedCount: positions.length
       });
     }
   } catch (error) {
-    console.error('Error saving file content:', error);
-    res.status(500).json({ error: 'Failed to save file content' });
+    console.error('Error updating node positions:', error);
+    res.status(500).json({ error: 'Failed to update node positions' });
   }
 });
 
-// Helper function to build hierarchical structure from flat array
-const buildHierarchy = (nodes) => {
-  const nodeMap = {};
-  const rootNodes = [];
+// Expand or collapse many folders at once
+app.patch('/api/projects/:projectId/nodes/expanded', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { ids, expanded } = req.body;
 
-  // Create a map of all nodes
-  nodes.forEach(node => {
-    nodeMap[node.id] = { ...node.toObject(), children: [] };
-  });
+    if (!Array.isArray(ids) || typeof expanded !== 'boolean') {
+      return res.status(400).json({ error: 'ids must be an array and expanded a boolean' });
+    }
 
-  // Build the hierarchy
-  nodes.forEach(node => {
-    const nodeObj = nodeMap[node.id];
-    if (node.parentId && nodeMap[node.parentId]) {
-      nodeMap[node.parentId].children.push(nodeObj);
-    } else {
+    if (process.env.MONGODB_URI) {
+      const result = await FileSystemNode.updateMany(
+        { id: { $in: ids }, projectId, type: 'folder' },
+        { expanded, updatedAt: new Date() }
+      );
+
+      // Emit real-time update
+      emitToProject(req, projectId, 'folders-expanded-updated', { ids, expanded });
+
+      res.json({
+        message: 'Folder expanded states updated successfully',
+        updatedCount: result.modifiedCount
+      });
+    } else {
+      res.json({
+        message: 'Folder expanded states updated successfully (mock mode)',
+        updatedCount: ids.length
+      });
+    }
+  } catch (error) {
+    console.error('Error updating folder expanded states:', error);
+    res.status(500).json({ error: 'Failed to update folder expanded states' });
+  }
+});
+
+// Move many nodes into one folder
+app.post('/api/projects/:projectId/nodes/move', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { parentId, moves } = req.body;
+
+    if (!parentId || !Array.isArray(moves) || moves.length === 0) {
+      return res.status(400).json({ error: 'A target folder and a non-empty moves array are required' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so either every node moves or none does
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const ids = moves.map(move => move.id);
+        const nodes = await FileSystemNode.find({ id: { $in: ids }, projectId, deletedAt: null }, null, { session });
+        if (nodes.length !== ids.length) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: 'One or more nodes were not found' });
+        }
+
+        const names = new Set();
+        for (const node of nodes) {
+          if (names.has(node.name)) {
+            await session.abortTransaction();
+            return res.status(409).json({ error: `More than one selected item is named "${node.name}"` });
+          }
+          names.add(node.name);
+
+          const moveError = await validateMoveTarget(node, parentId, session);
+          if (moveError) {
+            await session.abortTransaction();
+            return res.status(moveError.status).json({ error: moveError.error });
+          }
+        }
+
+        const now = new Date();
+        for (const node of nodes) {
+          const move = moves.find(m => m.id === node.id);
+          const newX = typeof move.x === 'number' ? move.x : node.x;
+          const newY = typeof move.y === 'number' ? move.y : node.y;
+
+          const descendantIds = await collectDescendantIds(node.id, projectId, session);
+          if (descendantIds.length > 0) {
+            await FileSystemNode.updateMany(
+              { id: { $in: descendantIds }, projectId },
+              { $inc: { x: newX - node.x, y: newY - node.y } },
+              { session }
+            );
+          }
+
+          await FileSystemNode.updateOne(
+            { id: node.id, projectId },
+            { parentId, x: newX, y: newY, updatedAt: now },
+            { session }
+          );
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        emitToProject(req, projectId, 'nodes-moved', { parentId, moves });
+
+        res.json({
+          message: 'Nodes moved successfully',
+          movedCount: nodes.length
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.json({
+        message: 'Nodes moved successfully (mock mode)',
+        movedCount: moves.length
+      });
+    }
+  } catch (error) {
+    console.error('Error moving nodes:', error);
+    res.status(500).json({ error: 'Failed to move nodes' });
+  }
+});
+
+// Move many nodes and all their descendants to the trash, or delete them for good with permanent: true
+app.post('/api/projects/:projectId/nodes/delete', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { ids, permanent = false } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids must be a non-empty array' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction for cascade deletion
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        let deletedNodes;
+        if (permanent) {
+          const allNodesToDelete = new Set(ids);
+          for (const id of ids) {
+            const descendantIds = await collectDescendantIds(id, projectId, session);
+            descendantIds.forEach(descendantId => allNodesToDelete.add(descendantId));
+          }
+          deletedNodes = [...allNodesToDelete];
+          await deleteNodesPermanently({ id: { $in: deletedNodes }, projectId }, session);
+        } else {
+          deletedNodes = await trashNodes(ids, projectId, session);
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        emitToProject(req, projectId, 'nodes-deleted', { ids });
+
+        res.json({
+          message: permanent ? 'Nodes deleted successfully' : 'Nodes moved to trash',
+          deletedCount: deletedNodes.length,
+          deletedNodes
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.json({
+        message: 'Nodes deleted successfully (mock mode)',
+        deletedCount: ids.length
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting nodes:', error);
+    res.status(500).json({ error: 'Failed to delete nodes' });
+  }
+});
+
+// Create many nodes at once (flat list, parents before or after children)
+app.post('/api/projects/:projectId/nodes/batch', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { nodes, updates = [] } = req.body;
+
+    if (!Array.isArray(nodes) || !Array.isArray(updates) || nodes.length + updates.length === 0) {
+      return res.status(400).json({ error: 'Nodes must be a non-empty array' });
+    }
+    // Uploads may also overwrite existing files in the same transaction
+    if (updates.some(update => !update?.id || typeof update.content !== 'string')) {
+      return res.status(400).json({ error: 'Each update needs an id and string content' });
+    }
+    for (const node of nodes) {
+      if (!node.id || !['file', 'folder'].includes(node.type)) {
+        return res.status(400).json({ error: 'Each node needs an id and a type of "file" or "folder"' });
+      }
+      const nameError = validateNodeName(node.name);
+      if (nameError) {
+        return res.status(400).json({ error: `${nameError} (${node.id})` });
+      }
+    }
+    for (const item of [...nodes.filter(node => node.type === 'file'), ...updates]) {
+      const binaryError = item.binary ? validateBinaryContent(item.content) : null;
+      if (binaryError) {
+        return res.status(binaryError.status).json({ error: `${binaryError.error} (${item.id})` });
+      }
+    }
+
+    const flatNodes = prepareNodesForInsert(nodes, projectId);
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so a half-created subtree is never left behind
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const batchError = flatNodes.length > 0 ? await validateNodeBatch(flatNodes, projectId, session) : null;
+        if (batchError) {
+          await session.abortTransaction();
+          return res.status(batchError.status).json({ error: batchError.error });
+        }
+
+        const updateIds = [...new Set(updates.map(update => update.id))];
+        const updatedFiles = await FileSystemNode.find(
+          { projectId, id: { $in: updateIds }, type: 'file', deletedAt: null },
+          { id: 1, projectId: 1, name: 1, content: 1, binary: 1, updatedAt: 1 }
+        ).session(session).lean();
+        if (updatedFiles.length !== updateIds.length) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: 'File to overwrite not found' });
+        }
+
+        const createdNodes = flatNodes.length > 0 ? await FileSystemNode.insertMany(flatNodes, { session }) : [];
+        if (updates.length > 0) {
+          const now = new Date();
+          const filesById = new Map(updatedFiles.map(file => [file.id, file]));
+          await FileSystemNode.bulkWrite(updates.map(({ id, content, binary }) => {
+            const { size, metadata } = describeFileContent(filesById.get(id).name, content, !!binary);
+            return {
+              updateOne: {
+                filter: { projectId, id },
+                update: {
+                  content,
+                  binary: !!binary,
+                  size,
+                  ...Object.fromEntries(Object.entries(metadata).map(([key, value]) => [`metadata.${key}`, value])),
+                  lastModified: now
+                }
+              }
+            };
+          }), { session });
+
+          // Overwritten text contents stay in the files' history
+          for (const { id, content, binary } of updates) {
+            const file = filesById.get(id);
+            if (!binary && !file.binary) {
+              await recordRevision(file, content, { source: 'upload' }, session);
+            }
+          }
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        if (createdNodes.length > 0) {
+          emitToProject(req, projectId, 'nodes-created', { nodes: createdNodes });
+        }
+        updates.forEach(({ id, content, binary }) => {
+          emitToProject(req, projectId, 'file-content-updated', { id, content, binary: !!binary });
+          replaceCollabContent(id, content);
+        });
+
+        res.status(201).json({
+          message: 'Nodes created successfully',
+          nodes: createdNodes,
+          updated: updateIds
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.status(201).json({
+        message: 'Nodes created successfully (mock mode)',
+        nodes: flatNodes,
+        updated: updates.map(update => update.id)
+      });
+    }
+  } catch (error) {
+    if (error.code === 11000) {
+      res.status(409).json({ error: 'Node with this ID already exists' });
+    } else {
+      console.error('Error creating nodes:', error);
+      res.status(500).json({ error: 'Failed to create nodes' });
+    }
+  }
+});
+
+// Delete node
+app.delete('/api/node/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      // Find the node first to get its project
+      const nodeToDelete = await FileSystemNode.findOne({ id, deletedAt: null });
+
+      if (!nodeToDelete) {
+        return res.status(404).json({ error: 'Node not found' });
+      }
+
+      // Move the node and all its children to the trash
+      await trashNodes([id], nodeToDelete.projectId);
+
+      // Emit real-time update
+      emitToProject(req, nodeToDelete.projectId, 'node-deleted', { id });
+
+      res.json({
+        message: 'Node and its children moved to trash',
+        deletedNodeId: id
+      });
+    } else {
+      res.json({
+        message: 'Node deleted successfully (mock mode)',
+        deletedNodeId: id
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting node:', error);
+    res.status(500).json({ error: 'Failed to delete node' });
+  }
+});
+
+// Path-addressed access to a project's nodes, for scripts: /api/projects/:projectId/fs/src/App.tsx. Paths
+// are names from the project root folder down; ids and parentId links stay the internal model.
+const FS_ROUTES = ['/api/projects/:projectId/fs', '/api/projects/:projectId/fs/*'];
+
+// Read a file, or list a folder's children. ?raw=true sends a file's bare content with its media type.
+app.get(FS_ROUTES, async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { segments, error } = parseNodePath(req.params[0]);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const path = segments.join('/');
+
+    if (process.env.MONGODB_URI) {
+      const found = await walkNodePath(projectId, segments);
+      if (!found) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+      if (found.length <= segments.length) {
+        return res.status(404).json({ error: `No such file or folder: ${path}` });
+      }
+
+      const node = found[found.length - 1];
+      if (node.type === 'file') {
+        if (req.query.raw === 'true') {
+          if (!node.binary) {
+            return res.type('text/plain; charset=utf-8').send(node.content || '');
+          }
+          // Downloaded rather than shown, so an uploaded SVG or HTML file can't run script on the API's origin
+          setAttachmentHeader(res, node.name);
+          return res.type(node.metadata?.mimeType || getMimeType(node.name)).send(Buffer.from(node.content || '', 'base64'));
+        }
+        return res.json({ ...node, path });
+      }
+
+      const children = await FileSystemNode.find(
+        { projectId, parentId: node.id, deletedAt: null },
+        { _id: 0, __v: 0, content: 0 }
+      ).lean();
+      children.sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1);
+
+      res.json({
+        ...node,
+        path,
+        children: children.map(child => ({ ...child, path: path ? `${path}/${child.name}` : child.name }))
+      });
+    } else {
+      res.status(404).json({ error: 'Paths cannot be read in mock mode' });
+    }
+  } catch (error) {
+    console.error('Error reading path:', error);
+    res.status(500).json({ error: 'Failed to read path' });
+  }
+});
+
+// Write a file, creating it and any missing folders above it (like mkdir -p) when it does not exist.
+// Body: { content, binary?, author? }; binary content is base64. An existing file's content is replaced
+// and recorded as a revision, like POST /api/file/:id.
+app.put(FS_ROUTES, async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { content, binary = false, author } = req.body;
+    const { segments, error } = parseNodePath(req.params[0]);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (segments.length === 0) {
+      return res.status(400).json({ error: 'A file path is required' });
+    }
+    if (typeof content !== 'string') {
+      return res.status(400).json({ error: 'Content must be a string' });
+    }
+    if (binary) {
+      const binaryError = validateBinaryContent(content);
+      if (binaryError) {
+        return res.status(binaryError.status).json({ error: binaryError.error });
+      }
+    }
+    const path = segments.join('/');
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so no folders are left behind if the file cannot be created
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const found = await walkNodePath(projectId, segments, session);
+        if (!found) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: 'Project not found' });
+        }
+
+        // The file exists: replace its content
+        if (found.length > segments.length) {
+          const file = found[found.length - 1];
+          if (file.type !== 'file') {
+            await session.abortTransaction();
+            return res.status(409).json({ error: `"${path}" is a folder` });
+          }
+
+          if (!file.binary && !binary) {
+            await recordRevision(file, content, { author: author ? sanitizeUser(author) : null }, session);
+          }
+          const { size, metadata } = describeFileContent(file.name, content, !!binary);
+          const updatedNode = await FileSystemNode.findOneAndUpdate(
+            { id: file.id, projectId },
+            { content, binary: !!binary, size, metadata: { ...file.metadata, ...metadata }, updatedAt: new Date() },
+            { new: true, session }
+          );
+
+          await session.commitTransaction();
+
+          // Emit real-time update
+          emitToProject(req, projectId, 'file-content-updated', { id: file.id, content, binary: !!binary });
+          if (!binary) {
+            replaceCollabContent(file.id, content);
+          }
+
+          return res.json({
+            message: 'File saved successfully',
+            file: updatedNode,
+            path,
+            createdNodes: []
+          });
+        }
+
+        // Otherwise create what is missing below the deepest existing folder
+        const parent = found[found.length - 1];
+        if (parent.type !== 'folder') {
+          await session.abortTransaction();
+          return res.status(409).json({ error: `"${segments.slice(0, found.length - 1).join('/')}" is a file, not a folder` });
+        }
+
+        const siblings = await FileSystemNode.find(
+          { projectId, parentId: parent.id, deletedAt: null },
+          { name: 1, y: 1 },
+          { session }
+        );
+        const missing = segments.slice(found.length - 1);
+        const flatNodes = prepareNodesForInsert(
+          buildImportNodes({ folders: [], files: [{ segments: missing, content, binary: !!binary }] }, parent, siblings),
+          projectId
+        );
+
+        const batchError = await validateNodeBatch(flatNodes, projectId, session);
+        if (batchError) {
+          await session.abortTransaction();
+          return res.status(batchError.status).json({ error: batchError.error });
+        }
+
+        const createdNodes = await FileSystemNode.insertMany(flatNodes, { session });
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        emitToProject(req, projectId, 'nodes-created', { nodes: createdNodes });
+
+        res.status(201).json({
+          message: 'File created successfully',
+          file: createdNodes[createdNodes.length - 1],
+          path,
+          createdNodes
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.json({
+        message: 'File saved successfully (mock mode)',
+        path, content
+      });
+    }
+  } catch (error) {
+    console.error('Error writing path:', error);
+    res.status(500).json({ error: 'Failed to write path' });
+  }
+});
+
+// Move a file or folder, and its children, to the trash. ?permanent=true deletes them for good.
+app.delete(FS_ROUTES, async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const permanent = req.query.permanent === 'true';
+    const { segments, error } = parseNodePath(req.params[0]);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (segments.length === 0) {
+      return res.status(400).json({ error: 'The project root folder cannot be deleted' });
+    }
+    const path = segments.join('/');
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction for cascade deletion
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const found = await walkNodePath(projectId, segments, session);
+        if (!found || found.length <= segments.length) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: `No such file or folder: ${path}` });
+        }
+
+        const { id } = found[found.length - 1];
+        let deletedNodes;
+        if (permanent) {
+          deletedNodes = [id, ...await collectDescendantIds(id, projectId, session)];
+          await deleteNodesPermanently({ id: { $in: deletedNodes }, projectId }, session);
+        } else {
+          deletedNodes = await trashNodes([id], projectId, session);
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        emitToProject(req, projectId, 'node-deleted', { id });
+
+        res.json({
+          message: permanent ? 'Node deleted successfully' : 'Node and its children moved to trash',
+          path,
+          deletedCount: deletedNodes.length,
+          deletedNodes
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.json({
+        message: 'Node deleted successfully (mock mode)',
+        path
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting path:', error);
+    res.status(500).json({ error: 'Failed to delete path' });
+  }
+});
+
+// Move and/or rename a file or folder to another path, like mv. Body: { to }. The folder it goes into must
+// exist and the path must be free. A node that changes folder is placed below its new siblings on the canvas.
+app.patch(FS_ROUTES, async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const source = parseNodePath(req.params[0]);
+    const target = parseNodePath(typeof req.body.to === 'string' ? req.body.to : '');
+    if (source.error || target.error) {
+      return res.status(400).json({ error: source.error || target.error });
+    }
+    if (source.segments.length === 0) {
+      return res.status(400).json({ error: 'The project root folder cannot be moved' });
+    }
+    if (target.segments.length === 0) {
+      return res.status(400).json({ error: 'A destination path ("to") is required' });
+    }
+    const path = source.segments.join('/');
+    const to = target.segments.join('/');
+    const name = target.segments[target.segments.length - 1];
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so the node and its subtree move together
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const found = await walkNodePath(projectId, source.segments, session);
+        if (!found || found.length <= source.segments.length) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: `No such file or folder: ${path}` });
+        }
+        const node = found[found.length - 1];
+
+        const destination = await walkNodePath(projectId, target.segments, session);
+        if (destination.length > target.segments.length) {
+          await session.abortTransaction();
+          return res.status(409).json({ error: `"${to}" already exists` });
+        }
+        if (destination.length < target.segments.length || destination[destination.length - 1].type !== 'folder') {
+          await session.abortTransaction();
+          return res.status(404).json({ error: `No such folder: ${target.segments.slice(0, -1).join('/')}` });
+        }
+        const parent = destination[destination.length - 1];
+
+        const update = { name, updatedAt: new Date() };
+        if (node.type === 'file') {
+          update['metadata.language'] = getLanguageFromExtension(name);
+        }
+        const moved = parent.id !== node.parentId;
+        if (moved) {
+          const moveError = await validateMoveTarget({ ...node, name }, parent.id, session);
+          if (moveError) {
+            await session.abortTransaction();
+            return res.status(moveError.status).json({ error: moveError.error });
+          }
+
+          // Shift the whole subtree by the same offset so it keeps its shape on the canvas
+          const siblings = await FileSystemNode.find({ projectId, parentId: parent.id, deletedAt: null }, { y: 1 }, { session });
+          update.parentId = parent.id;
+          update.x = parent.x + IMPORT_INDENT;
+          update.y = (siblings.length > 0 ? Math.max(...siblings.map(sibling => sibling.y)) : parent.y) + IMPORT_ROW_HEIGHT;
+          const descendantIds = await collectDescendantIds(node.id, projectId, session);
+          if (descendantIds.length > 0) {
+            await FileSystemNode.updateMany(
+              { id: { $in: descendantIds }, projectId },
+              { $inc: { x: update.x - node.x, y: update.y - node.y } },
+              { session }
+            );
+          }
+        }
+
+        const updatedNode = await FileSystemNode.findOneAndUpdate(
+          { id: node.id, projectId },
+          update,
+          { new: true, session }
+        );
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        if (name !== node.name) {
+          emitToProject(req, projectId, 'node-renamed', { id: node.id, name, metadata: updatedNode.metadata });
+        }
+        if (moved) {
+          emitToProject(req, projectId, 'node-moved', { id: node.id, parentId: parent.id, x: update.x, y: update.y });
+        }
+
+        res.json({
+          message: 'Node moved successfully',
+          node: updatedNode,
+          from: path,
+          path: to
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.json({
+        message: 'Node moved successfully (mock mode)',
+        from: path,
+        path: to
+      });
+    }
+  } catch (error) {
+    console.error('Error moving path:', error);
+    res.status(500).json({ error: 'Failed to move path' });
+  }
+});
+
+// List the project's trash: one item per deleted subtree, newest first
+app.get('/api/projects/:projectId/trash', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      await purgeExpiredTrash(projectId);
+
+      const trashedNodes = await FileSystemNode.find(
+        { projectId, deletedAt: { $ne: null } },
+        { id: 1, name: 1, type: 1, parentId: 1, size: 1, deletedAt: 1, trashRootId: 1 }
+      ).sort({ deletedAt: -1 });
+      const folders = await FileSystemNode.find(
+        { projectId, type: 'folder', deletedAt: null },
+        { id: 1, name: 1, parentId: 1 }
+      );
+
+      const items = trashedNodes
+        .filter(node => node.trashRootId === node.id)
+        .map(node => {
+          const subtree = trashedNodes.filter(other => other.trashRootId === node.id);
+          return {
+            id: node.id,
+            name: node.name,
+            type: node.type,
+            deletedAt: node.deletedAt,
+            expiresAt: new Date(node.deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS),
+            originalParentId: node.parentId,
+            originalPath: getFolderPath(folders, node.parentId),
+            itemCount: subtree.length - 1,
+            size: subtree.reduce((total, other) => total + (other.size || 0), 0)
+          };
+        });
+
+      res.json({ items, retentionDays: TRASH_RETENTION_DAYS });
+    } else {
+      res.json({ items: [], retentionDays: TRASH_RETENTION_DAYS });
+    }
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ error: 'Failed to fetch trash' });
+  }
+});
+
+// Restore trashed subtrees to their original folder, or to the project root if that folder is gone
+app.post('/api/projects/:projectId/trash/restore', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids must be a non-empty array' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so a subtree is never half restored
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const restored = [];
+        const now = new Date();
+
+        for (const id of ids) {
+          const subtree = await FileSystemNode.find({ projectId, trashRootId: id }, null, { session });
+          const root = subtree.find(node => node.id === id);
+          if (!root) {
+            await session.abortTransaction();
+            return res.status(404).json({ error: `Trash item ${id} not found` });
+          }
+
+          const { parent, relocated } = await resolveRestoreParent(root, projectId, session);
+          const parentId = parent ? parent.id : null;
+          const siblings = await FileSystemNode.find(
+            { projectId, parentId, deletedAt: null },
+            { name: 1 },
+            { session }
+          );
+          const name = getAvailableName(root.name, root.type, new Set(siblings.map(sibling => sibling.name)), 'restored');
+
+          // A relocated subtree lands next to its new parent and keeps its own arrangement
+          const dx = relocated && parent ? parent.x + 200 - root.x : 0;
+          const dy = relocated && parent ? parent.y + 80 - root.y : 0;
+          const subtreeIds = subtree.map(node => node.id);
+
+          await FileSystemNode.updateMany(
+            { projectId, id: { $in: subtreeIds } },
+            { $set: { deletedAt: null, trashRootId: null, updatedAt: now }, $inc: { x: dx, y: dy } },
+            { session }
+          );
+          await FileSystemNode.updateOne({ projectId, id }, { $set: { parentId, name } }, { session });
+
+          const restoredNodes = await FileSystemNode.find(
+            { projectId, id: { $in: subtreeIds } },
+            null,
+            { session }
+          ).sort({ createdAt: 1 });
+          restored.push({
+            id,
+            parentId,
+            relocated,
+            renamed: name !== root.name,
+            node: buildHierarchy(restoredNodes).find(node => node.id === id)
+          });
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        emitToProject(req, projectId, 'nodes-restored', { nodes: restored.map(item => item.node) });
+
+        res.json({
+          message: 'Items restored successfully',
+          restored
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.json({
+        message: 'Items restored successfully (mock mode)',
+        restored: []
+      });
+    }
+  } catch (error) {
+    console.error('Error restoring from trash:', error);
+    res.status(500).json({ error: 'Failed to restore from trash' });
+  }
+});
+
+// Permanently delete one trashed subtree
+app.delete('/api/projects/:projectId/trash/:id', async (req, res) => {
+  try {
+    const { projectId, id } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const deleteResult = await deleteNodesPermanently({ projectId, trashRootId: id });
+      if (deleteResult.deletedCount === 0) {
+        return res.status(404).json({ error: 'Trash item not found' });
+      }
+
+      res.json({
+        message: 'Item permanently deleted',
+        deletedCount: deleteResult.deletedCount
+      });
+    } else {
+      res.json({
+        message: 'Item permanently deleted (mock mode)',
+        deletedCount: 0
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting trash item:', error);
+    res.status(500).json({ error: 'Failed to delete trash item' });
+  }
+});
+
+// Permanently delete everything in the project's trash
+app.delete('/api/projects/:projectId/trash', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const deleteResult = await deleteNodesPermanently({ projectId, deletedAt: { $ne: null } });
+
+      res.json({
+        message: 'Trash emptied successfully',
+        deletedCount: deleteResult.deletedCount
+      });
+    } else {
+      res.json({
+        message: 'Trash emptied successfully (mock mode)',
+        deletedCount: 0
+      });
+    }
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    res.status(500).json({ error: 'Failed to empty trash' });
+  }
+});
+
+// Zip uploads arrive as the raw request body
+const readZipUpload = express.raw({
+  type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'],
+  limit: IMPORT_MAX_UPLOAD_SIZE
+});
+
+const receiveZip = (req, res, next) => {
+  readZipUpload(req, res, (error) => {
+    if (error) {
+      return error.type === 'entity.too.large'
+        ? res.status(413).json({ error: `Zip files can be at most ${formatMegabytes(IMPORT_MAX_UPLOAD_SIZE)}` })
+        : res.status(400).json({ error: 'Could not read the uploaded zip file' });
+    }
+    next();
+  });
+};
+
+// Create a project from a zip archive; a single top-level folder in the archive becomes the project root
+app.post('/api/projects/import', receiveZip, async (req, res) => {
+  try {
+    const name = String(req.query.name || '').trim() || 'Imported project';
+    const description = String(req.query.description || '');
+    const projectId = `project-${Date.now()}`;
+
+    const archive = readZipArchive(req.body, { stripRoot: true });
+    if (archive.error) {
+      return res.status(400).json({ error: archive.error });
+    }
+
+    const rootNode = {
+      id: `root-${projectId}`,
+      projectId,
+      type: 'folder',
+      name: 'Project Root',
+      parentId: null,
+      x: 100,
+      y: 100,
+      expanded: true
+    };
+    const flatNodes = prepareNodesForInsert(buildImportNodes(archive, rootNode, []), projectId);
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so a failed import leaves no half-filled project behind
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const [project] = await Project.create([{ id: projectId, name, description, owner: 'default' }], { session });
+        await FileSystemNode.create([rootNode], { session });
+        const createdNodes = flatNodes.length > 0 ? await FileSystemNode.insertMany(flatNodes, { session }) : [];
+
+        await session.commitTransaction();
+
+        res.status(201).json({
+          message: 'Project imported successfully',
+          project,
+          nodes: createdNodes,
+          skipped: archive.skipped
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.status(201).json({
+        message: 'Project imported successfully (mock mode)',
+        project: {
+          id: projectId,
+          name,
+          description,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          owner: 'default',
+          isActive: true,
+          settings: { theme: 'light', layout: 'canvas', autoSave: true }
+        },
+        nodes: flatNodes,
+        skipped: archive.skipped
+      });
+    }
+  } catch (error) {
+    console.error('Error importing project:', error);
+    res.status(500).json({ error: 'Failed to import project' });
+  }
+});
+
+// Import a zip archive into a folder of the project
+app.post('/api/projects/:projectId/import', receiveZip, async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { parentId } = req.query;
+
+    if (!parentId) {
+      return res.status(400).json({ error: 'parentId is required' });
+    }
+
+    const archive = readZipArchive(req.body);
+    if (archive.error) {
+      return res.status(400).json({ error: archive.error });
+    }
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so the archive is imported completely or not at all
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const parent = await FileSystemNode.findOne(
+          { projectId, id: parentId, type: 'folder', deletedAt: null },
+          null,
+          { session }
+        );
+        if (!parent) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: 'Target folder not found' });
+        }
+
+        const siblings = await FileSystemNode.find(
+          { projectId, parentId, deletedAt: null },
+          { name: 1, y: 1 },
+          { session }
+        );
+        const flatNodes = prepareNodesForInsert(buildImportNodes(archive, parent, siblings), projectId);
+
+        const batchError = await validateNodeBatch(flatNodes, projectId, session);
+        if (batchError) {
+          await session.abortTransaction();
+          return res.status(batchError.status).json({ error: batchError.error });
+        }
+
+        const createdNodes = flatNodes.length > 0 ? await FileSystemNode.insertMany(flatNodes, { session }) : [];
+        if (!parent.expanded) {
+          await FileSystemNode.updateOne({ projectId, id: parentId }, { expanded: true }, { session });
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        if (createdNodes.length > 0) {
+          emitToProject(req, projectId, 'nodes-created', { nodes: createdNodes });
+        }
+        if (!parent.expanded) {
+          emitToProject(req, projectId, 'folder-expanded-updated', { id: parentId, expanded: true });
+        }
+
+        res.status(201).json({
+          message: 'Zip imported successfully',
+          parentId,
+          nodes: createdNodes,
+          skipped: archive.skipped
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      const parent = { id: parentId, x: 100, y: 100 };
+      res.status(201).json({
+        message: 'Zip imported successfully (mock mode)',
+        parentId,
+        nodes: prepareNodesForInsert(buildImportNodes(archive, parent, []), projectId),
+        skipped: archive.skipped
+      });
+    }
+  } catch (error) {
+    console.error('Error importing zip:', error);
+    res.status(500).json({ error: 'Failed to import zip' });
+  }
+});
+
+// Download a project, or one of its folders, as a zip archive. The subtree is read and written one level at
+// a time, so the download starts before the whole tree is loaded. Pass manifest=false to leave out positions.
+app.get('/api/projects/:projectId/export', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { folderId } = req.query;
+    const includeManifest = req.query.manifest !== 'false';
+
+    let archiveName = projectId;
+    let startFolders = [];
+    let rootFiles = [];
+
+    if (process.env.MONGODB_URI) {
+      if (folderId) {
+        const folder = await FileSystemNode.findOne({ projectId, id: folderId, type: 'folder', deletedAt: null }).lean();
+        if (!folder) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
+        archiveName = folder.name;
+        startFolders = [folder];
+      } else {
+        const project = await Project.findOne({ id: projectId }).lean();
+        if (!project) {
+          return res.status(404).json({ error: 'Project not found' });
+        }
+        // The project's root folders all map to the archive's top-level folder, named after the project
+        const roots = await FileSystemNode.find({ projectId, parentId: null, deletedAt: null }).lean();
+        archiveName = project.name.replace(/[/\\]/g, '-');
+        startFolders = roots.filter(node => node.type === 'folder');
+        rootFiles = roots.filter(node => node.type === 'file');
+      }
+    }
+
+    const archive = createZipResponse(res, `${archiveName}.zip`);
+    const manifestNodes = [];
+    const addNode = (path, node) => {
+      if (node.type === 'folder') {
+        archive.addFolder(path, node.lastModified);
+      } else {
+        archive.addFile(path, node.content || '', node.lastModified, node.binary);
+      }
+      manifestNodes.push({ path, type: node.type, x: node.x, y: node.y, ...(node.type === 'folder' ? { expanded: !!node.expanded } : {}) });
+    };
+
+    const anchor = startFolders[0] || { type: 'folder', x: 100, y: 100, expanded: true };
+    addNode(archiveName, anchor);
+    rootFiles.forEach(file => addNode(`${archiveName}/${file.name}`, file));
+
+    // Walk the subtree level by level, writing entries as they are read
+    const folderPaths = new Map(startFolders.map(folder => [folder.id, archiveName]));
+    let levelIds = [...folderPaths.keys()];
+    while (levelIds.length > 0) {
+      const children = await FileSystemNode.find({ projectId, parentId: { $in: levelIds }, deletedAt: null })
+        .sort({ name: 1 })
+        .lean();
+      levelIds = [];
+      for (const child of children) {
+        const path = `${folderPaths.get(child.parentId)}/${child.name}`;
+        addNode(path, child);
+        if (child.type === 'folder') {
+          folderPaths.set(child.id, path);
+          levelIds.push(child.id);
+        }
+      }
+    }
+
+    if (includeManifest) {
+      archive.addFile(ZIP_MANIFEST_NAME, JSON.stringify({
+        format: 'file-system-explorer',
+        version: 1,
+        exportedAt: new Date(),
+        nodes: manifestNodes
+      }, null, 2));
+    }
+    archive.end();
+  } catch (error) {
+    console.error('Error exporting zip:', error);
+    // Once the archive has started streaming, all we can do is cut it off
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ error: 'Failed to export zip' });
+    }
+  }
+});
+
+// Export a project with every node (including the trash) as a versioned JSON snapshot
+app.get('/api/projects/:projectId/snapshot', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const project = await Project.findOne({ id: projectId }).lean();
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+      const nodes = await FileSystemNode.find({ projectId }).sort({ createdAt: 1 }).lean();
+
+      setAttachmentHeader(res, `${project.name.replace(/[/\\]/g, '-')}.fse.json`);
+      res.json(createSnapshot(project, nodes));
+    } else {
+      const now = new Date();
+      setAttachmentHeader(res, `${projectId}.fse.json`);
+      res.json(createSnapshot({ id: projectId, name: projectId, createdAt: now, updatedAt: now }, []));
+    }
+  } catch (error) {
+    console.error('Error exporting snapshot:', error);
+    res.status(500).json({ error: 'Failed to export snapshot' });
+  }
+});
+
+// Create a new project from a snapshot. Older format versions are migrated first, and every node gets a new
+// id so the snapshot can be imported next to the project it came from.
+app.post('/api/projects/snapshot', async (req, res) => {
+  try {
+    const migration = migrateSnapshot(req.body);
+    if (migration.error) {
+      return res.status(400).json({ error: migration.error });
+    }
+
+    const errors = validateSnapshot(migration.snapshot);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid project snapshot', details: errors.slice(0, 20) });
+    }
+
+    const projectId = `project-${Date.now()}`;
+    const { project, nodes } = remapSnapshot(migration.snapshot, projectId);
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so a failed import leaves no half-filled project behind
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const [createdProject] = await Project.create([project], { session });
+        if (nodes.length > 0) {
+          await FileSystemNode.insertMany(nodes, { session });
+        }
+
+        await session.commitTransaction();
+
+        res.status(201).json({
+          message: 'Snapshot imported successfully',
+          project: createdProject,
+          nodeCount: nodes.length,
+          migratedFrom: migration.fromVersion
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.status(201).json({
+        message: 'Snapshot imported successfully (mock mode)',
+        project,
+        nodeCount: nodes.length,
+        migratedFrom: migration.fromVersion
+      });
+    }
+  } catch (error) {
+    console.error('Error importing snapshot:', error);
+    res.status(500).json({ error: 'Failed to import snapshot' });
+  }
+});
+
+// List a project's named snapshots, newest first, without their nodes
+app.get('/api/projects/:projectId/snapshots', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const snapshots = await ProjectSnapshot.find({ projectId }, { _id: 0, __v: 0, nodes: 0 })
+        .sort({ createdAt: -1 })
+        .lean();
+      res.json(snapshots);
+    } else {
+      res.json([]);
+    }
+  } catch (error) {
+    console.error('Error fetching snapshots:', error);
+    res.status(500).json({ error: 'Failed to fetch snapshots' });
+  }
+});
+
+// Take a named snapshot of the project's live nodes: structure, canvas positions and file contents
+app.post('/api/projects/:projectId/snapshots', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { name, description = '', author } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Snapshot name is required' });
+    }
+
+    const details = {
+      name: name.trim(),
+      description: String(description),
+      author: author ? sanitizeUser(author) : null
+    };
+
+    if (process.env.MONGODB_URI) {
+      const project = await Project.findOne({ id: projectId }).lean();
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      const nodes = await FileSystemNode.find({ projectId, deletedAt: null }).sort({ createdAt: 1 }).lean();
+      const snapshot = createProjectSnapshot(projectId, nodes, details);
+      if (snapshot.size > PROJECT_SNAPSHOT_MAX_SIZE) {
+        return res.status(413).json({ error: `Snapshots can hold at most ${formatMegabytes(PROJECT_SNAPSHOT_MAX_SIZE)} of files` });
+      }
+
+      await ProjectSnapshot.create(snapshot);
+
+      res.status(201).json(summarizeProjectSnapshot(snapshot));
+    } else {
+      res.status(201).json(summarizeProjectSnapshot(createProjectSnapshot(projectId, [], details)));
+    }
+  } catch (error) {
+    console.error('Error creating snapshot:', error);
+    res.status(500).json({ error: 'Failed to create snapshot' });
+  }
+});
+
+// Delete a named snapshot
+app.delete('/api/projects/:projectId/snapshots/:snapshotId', async (req, res) => {
+  try {
+    const { projectId, snapshotId } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const result = await ProjectSnapshot.deleteOne({ id: snapshotId, projectId });
+      if (result.deletedCount === 0) {
+        return res.status(404).json({ error: 'Snapshot not found' });
+      }
+      res.json({ message: 'Snapshot deleted successfully' });
+    } else {
+      res.json({ message: 'Snapshot deleted successfully (mock mode)' });
+    }
+  } catch (error) {
+    console.error('Error deleting snapshot:', error);
+    res.status(500).json({ error: 'Failed to delete snapshot' });
+  }
+});
+
+// Compare a snapshot with the project as it is now, i.e. what restoring it would change
+app.get('/api/projects/:projectId/snapshots/:snapshotId/diff', async (req, res) => {
+  try {
+    const { projectId, snapshotId } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const snapshot = await ProjectSnapshot.findOne({ id: snapshotId, projectId }).lean();
+      if (!snapshot) {
+        return res.status(404).json({ error: 'Snapshot not found' });
+      }
+      const nodes = await FileSystemNode.find({ projectId, deletedAt: null }).lean();
+
+      res.json({
+        snapshot: summarizeProjectSnapshot(snapshot),
+        ...diffProjectSnapshot(snapshot.nodes, nodes)
+      });
+    } else {
+      res.status(404).json({ error: 'Snapshot not found (mock mode)' });
+    }
+  } catch (error) {
+    console.error('Error comparing snapshot:', error);
+    res.status(500).json({ error: 'Failed to compare snapshot' });
+  }
+});
+
+// Replace the project's live tree with a snapshot in one transaction, like saving the whole tree. With
+// backup (the default) the current state is snapshotted first, so the restore can be undone. Snapshot nodes
+// that were trashed since are taken out of the trash, and files whose content changes get a revision.
+app.post('/api/projects/:projectId/snapshots/:snapshotId/restore', async (req, res) => {
+  try {
+    const { projectId, snapshotId } = req.params;
+    const { backup = true, author } = req.body;
+    const user = author ? sanitizeUser(author) : null;
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so the tree is never left half restored
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const snapshot = await ProjectSnapshot.findOne({ id: snapshotId, projectId }).session(session).lean();
+        if (!snapshot) {
+          await session.abortTransaction();
+          return res.status(404).json({ error: 'Snapshot not found' });
+        }
+
+        const currentNodes = await FileSystemNode.find({ projectId, deletedAt: null }).session(session).lean();
+        const { summary } = diffProjectSnapshot(snapshot.nodes, currentNodes);
+
+        let backupSnapshot = null;
+        if (backup) {
+          backupSnapshot = createProjectSnapshot(projectId, currentNodes, {
+            name: `Before restoring "${snapshot.name}"`,
+            author: user
+          });
+          await ProjectSnapshot.create([backupSnapshot], { session });
+        }
+
+        // Keep the content being replaced in each file's history
+        const currentMap = new Map(currentNodes.map(node => [node.id, node]));
+        const changedFiles = snapshot.nodes.filter(node => {
+          const current = currentMap.get(node.id);
+          return node.type === 'file' && current?.type === 'file' && (current.content || '') !== (node.content || '');
+        });
+        for (const file of changedFiles) {
+          const current = currentMap.get(file.id);
+          if (!file.binary && !current.binary) {
+            await recordRevision(current, file.content || '', { author: user, source: 'restore' }, session);
+          }
+        }
+
+        // Nodes created since the snapshot go for good, along with trashed nodes that belong to a subtree
+        // the snapshot brings back. Everything else the snapshot holds is replaced by its copy.
+        const snapshotIds = snapshot.nodes.map(node => node.id);
+        await deleteNodesPermanently({
+          projectId,
+          id: { $nin: snapshotIds },
+          $or: [{ deletedAt: null }, { trashRootId: { $in: snapshotIds } }]
+        }, session);
+        await FileSystemNode.deleteMany({ projectId, $or: [{ deletedAt: null }, { id: { $in: snapshotIds } }] }, { session });
+
+        const now = new Date();
+        const changedIds = new Set(changedFiles.map(file => file.id));
+        const restoredNodes = snapshot.nodes.map(node => ({
+          ...node,
+          projectId,
+          content: node.content || '',
+          expanded: !!node.expanded,
+          size: node.size || 0,
+          deletedAt: null,
+          trashRootId: null,
+          ...(changedIds.has(node.id) ? { lastModified: now, updatedAt: now } : {})
+        }));
+        if (restoredNodes.length > 0) {
+          await FileSystemNode.insertMany(restoredNodes, { session });
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        emitToProject(req, projectId, 'tree-updated', { nodeCount: restoredNodes.length });
+        changedFiles.forEach(file => {
+          emitToProject(req, projectId, 'file-content-updated', { id: file.id, content: file.content || '', binary: !!file.binary });
+          replaceCollabContent(file.id, file.content || '');
+        });
+
+        res.json({
+          message: 'Snapshot restored successfully',
+          snapshot: summarizeProjectSnapshot(snapshot),
+          backup: backupSnapshot ? summarizeProjectSnapshot(backupSnapshot) : null,
+          changes: summary,
+          changedFileIds: changedFiles.map(file => file.id)
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.status(404).json({ error: 'Snapshot not found (mock mode)' });
+    }
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    res.status(500).json({ error: 'Failed to restore snapshot' });
+  }
+});
+
+// Get file content
+app.get('/api/file/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const node = await FileSystemNode.findOne({ id, type: 'file' });
+
+      if (!node) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      res.json(node);
+    } else {
+      // Mock file content
+      res.json({
+        id,
+        type: 'file',
+        name: 'mock-file.txt',
+        content: 'Mock file content for development',
+        projectId: 'mock-project'
+      });
+    }
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    res.status(500).json({ error: 'Failed to fetch file' });
+  }
+});
+
+// Save file content
+app.post('/api/file/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { content, author } = req.body;
+
+    if (typeof content !== 'string') {
+      return res.status(400).json({ error: 'Content must be a string' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      const file = await FileSystemNode.findOne({ id, type: 'file' }).lean();
+      if (!file) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      if (file.binary) {
+        return res.status(400).json({ error: 'Binary files cannot be saved as text' });
+      }
+
+      // Record the revision first, so a save that could not be kept in the history does not happen at all
+      await recordRevision(file, content, { author: author ? sanitizeUser(author) : null });
+
+      const updatedNode = await FileSystemNode.findOneAndUpdate(
+        { id, projectId: file.projectId, type: 'file' },
+        {
+          content,
+          size: calculateFileSize(content),
+          'metadata.lineCount': countLines(content),
+          updatedAt: new Date()
+        },
+        { new: true }
+      );
+
+      if (!updatedNode) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      // Emit real-time update
+      emitToProject(req, updatedNode.projectId, 'file-content-updated', { id, content });
+      replaceCollabContent(id, content);
+
+      res.json({
+        message: 'File content saved successfully',
+        file: updatedNode
+      });
+    } else {
+      replaceCollabContent(id, content);
+      res.json({
+        message: 'File content saved successfully (mock mode)',
+        id, content
+      });
+    }
+  } catch (error) {
+    console.error('Error saving file content:', error);
+    res.status(500).json({ error: 'Failed to save file content' });
+  }
+});
+
+// List a file's revisions, newest first, without their contents
+app.get('/api/file/:id/revisions', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const retention = {
+      retentionDays: REVISION_RETENTION_DAYS,
+      maxRevisions: REVISION_MAX_PER_FILE
+    };
+
+    if (process.env.MONGODB_URI) {
+      const file = await FileSystemNode.findOne({ id, type: 'file' }, { projectId: 1 }).lean();
+      if (!file) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const revisions = await FileRevision.find({ projectId: file.projectId, fileId: id }, { content: 0, _id: 0, __v: 0 })
+        .sort({ createdAt: -1 })
+        .lean();
+
+      res.json({ revisions, ...retention });
+    } else {
+      res.json({ revisions: [], ...retention });
+    }
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch revisions' });
+  }
+});
+
+// Get one revision with its content
+app.get('/api/file/:id/revisions/:revisionId', async (req, res) => {
+  try {
+    const { id, revisionId } = req.params;
+
+    if (process.env.MONGODB_URI) {
+      const revision = await FileRevision.findOne({ id: revisionId, fileId: id }, { _id: 0, __v: 0 }).lean();
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      res.json(revision);
+    } else {
+      res.status(404).json({ error: 'Revision not found (mock mode)' });
+    }
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    res.status(500).json({ error: 'Failed to fetch revision' });
+  }
+});
+
+// Bring back an earlier revision's content. This is a save like any other, so it becomes the newest
+// revision and the content it replaces stays in the history.
+app.post('/api/file/:id/revisions/:revisionId/restore', async (req, res) => {
+  try {
+    const { id, revisionId } = req.params;
+    const { author } = req.body;
+
+    if (process.env.MONGODB_URI) {
+      const file = await FileSystemNode.findOne({ id, type: 'file', deletedAt: null }).lean();
+      if (!file) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      const source = await FileRevision.findOne({ id: revisionId, projectId: file.projectId, fileId: id }).lean();
+      if (!source) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      const { content } = source;
+      const revision = await recordRevision(file, content, {
+        author: author ? sanitizeUser(author) : null,
+        source: 'restore',
+        restoredFrom: revisionId
+      });
+
+      const updatedNode = await FileSystemNode.findOneAndUpdate(
+        { id, projectId: file.projectId },
+        {
+          content,
+          size: calculateFileSize(content),
+          'metadata.lineCount': countLines(content),
+          updatedAt: new Date()
+        },
+        { new: true }
+      );
+
+      // Emit real-time update
+      emitToProject(req, file.projectId, 'file-content-updated', { id, content });
+      replaceCollabContent(id, content);
+
+      res.json({
+        message: 'Revision restored successfully',
+        file: updatedNode,
+        revision
+      });
+    } else {
+      res.status(404).json({ error: 'Revision not found (mock mode)' });
+    }
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    res.status(500).json({ error: 'Failed to restore revision' });
+  }
+});
+
+// Helper function to build hierarchical structure from flat array
+const buildHierarchy = (nodes) => {
+  const nodeMap = {};
+  const rootNodes = [];
+
+  // Create a map of all nodes
+  nodes.forEach(node => {
+    nodeMap[node.id] = { ...node.toObject(), children: [] };
+  });
+
+  // Build the hierarchy
+  nodes.forEach(node => {
+    const nodeObj = nodeMap[node.id];
+    if (node.parentId && nodeMap[node.parentId]) {
+      nodeMap[node.parentId].children.push(nodeObj);
+    } else {
       rootNodes.push(nodeObj);
     }
-  });
+  });
+
+  return rootNodes;
+};
+
+// Helper functions
+const calculateFileSize = (content) => {
+  return Buffer.byteLength(content, 'utf8');
+};
+
+const countLines = (content) => {
+  return content.split('\n').length;
+};
+
+// Binary contents are base64; their size is that of the decoded bytes
+const calculateBinarySize = (content) => Buffer.from(content, 'base64').length;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Check content uploaded for a binary file. Returns { status, error } describing the problem, or null.
+const validateBinaryContent = (content) => {
+  if (typeof content !== 'string' || content.length % 4 !== 0 || !BASE64_PATTERN.test(content)) {
+    return { status: 400, error: 'Binary content must be base64-encoded' };
+  }
+  if (calculateBinarySize(content) > BINARY_MAX_SIZE) {
+    return { status: 413, error: `Binary files can be at most ${formatMegabytes(BINARY_MAX_SIZE)}` };
+  }
+  return null;
+};
+
+// Size and metadata of a file's content; binary files have a media type instead of lines and a language
+const describeFileContent = (name, content, binary) => binary
+  ? {
+      size: calculateBinarySize(content),
+      metadata: { lineCount: 0, language: '', encoding: 'base64', mimeType: getMimeType(name) }
+    }
+  : {
+      size: calculateFileSize(content),
+      metadata: { lineCount: countLines(content), language: getLanguageFromExtension(name), encoding: 'utf-8', mimeType: '' }
+    };
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Lines of a text file that match a search pattern, with the lines around them. Lines and columns count
+// from 1 like the editor's; column is where the match starts in the full line, before any clipping.
+const findLineMatches = (content, pattern) => {
+  const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+  const getContext = (from, to) => lines
+    .slice(Math.max(0, from), Math.max(0, to))
+    .map((text, offset) => ({ line: Math.max(0, from) + offset + 1, text: text.slice(0, SEARCH_MAX_LINE_LENGTH) }));
+  const matches = [];
+  let matchCount = 0;
+
+  lines.forEach((text, index) => {
+    const match = pattern.exec(text);
+    if (!match) return;
+    matchCount++;
+    if (matches.length >= SEARCH_MAX_LINE_MATCHES) return;
+
+    const start = text.length > SEARCH_MAX_LINE_LENGTH
+      ? Math.max(0, Math.min(match.index - 40, text.length - SEARCH_MAX_LINE_LENGTH))
+      : 0;
+    matches.push({
+      line: index + 1,
+      column: match.index + 1,
+      length: match[0].length,
+      text: text.slice(start, start + SEARCH_MAX_LINE_LENGTH),
+      clippedStart: start > 0,
+      before: getContext(index - SEARCH_CONTEXT_LINES, index),
+      after: getContext(index + 1, index + 1 + SEARCH_CONTEXT_LINES)
+    });
+  });
+
+  return { matches, matchCount };
+};
+
+// The global pattern a find and replace looks for, or { error } when the options do not make one
+const buildReplacePattern = ({ find, regex = false, caseSensitive = false, wholeWord = false }) => {
+  if (typeof find !== 'string' || !find) {
+    return { error: 'Text to find is required' };
+  }
+  if (find.length > REPLACE_MAX_PATTERN_LENGTH) {
+    return { error: `Text to find can be at most ${REPLACE_MAX_PATTERN_LENGTH} characters` };
+  }
+  let source = regex ? find : escapeRegExp(find);
+  if (wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  try {
+    return { pattern: new RegExp(source, caseSensitive ? 'g' : 'gi') };
+  } catch (error) {
+    return { error: error.message };
+  }
+};
+
+// Path filters for find and replace, in .gitignore syntax ("src/", "*.test.ts", "!keep.ts") and matched
+// against paths below the project root folder. Returns a test for a path, or { error } for bad filters.
+const buildPathFilter = (include = [], exclude = []) => {
+  const isPatternList = (value) => Array.isArray(value) && value.every(pattern => typeof pattern === 'string');
+  if (!isPatternList(include) || !isPatternList(exclude)) {
+    return { error: 'include and exclude must be arrays of glob patterns' };
+  }
+  const clean = (patterns) => patterns.map(pattern => pattern.trim()).filter(Boolean);
+  const included = clean(include).length > 0 ? ignore().add(clean(include)) : null;
+  const excluded = ignore().add(clean(exclude));
+  return { test: (path) => (!included || included.ignores(path)) && !excluded.ignores(path) };
+};
+
+const getLanguageFromExtension = (filename) => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  const languageMap = {
+    'js': 'javascript',
+    'jsx': 'javascript',
+    'ts': 'typescript',
+    'tsx': 'typescript',
+    'json': 'json',
+    'md': 'markdown',
+    'css': 'css',
+    'html': 'html',
+    'py': 'python',
+    'java': 'java',
+    'cpp': 'cpp',
+    'c': 'c',
+    'xml': 'xml',
+    'sql': 'sql',
+    'php': 'php',
+    'rb': 'ruby',
+    'go': 'go',
+    'rs': 'rust',
+    'sh': 'shell',
+    'yml': 'yaml',
+    'yaml': 'yaml'
+  };
+  return languageMap[ext] || 'plaintext';
+};
+
+// Media type of a binary file, so the browser can preview it
+const getMimeType = (filename) => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  const mimeTypes = {
+    'png': 'image/png',
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'gif': 'image/gif',
+    'webp': 'image/webp',
+    'bmp': 'image/bmp',
+    'ico': 'image/x-icon',
+    'svg': 'image/svg+xml',
+    'mp3': 'audio/mpeg',
+    'wav': 'audio/wav',
+    'ogg': 'audio/ogg',
+    'm4a': 'audio/mp4',
+    'flac': 'audio/flac',
+    'mp4': 'video/mp4',
+    'webm': 'video/webm',
+    'mov': 'video/quicktime',
+    'pdf': 'application/pdf',
+    'zip': 'application/zip',
+    'wasm': 'application/wasm'
+  };
+  return mimeTypes[ext] || 'application/octet-stream';
+};
+
+// Returns an error message if the name cannot be used for a file or folder
+const validateNodeName = (name) => {
+  if (!name) {
+    return 'Name is required';
+  }
+  if (name === '.' || name === '..') {
+    return 'Name cannot be "." or ".."';
+  }
+  if (/[/\\]/.test(name)) {
+    return 'Name cannot contain slashes';
+  }
+  return null;
+};
+
+// Collect the ids of every node below nodeId, one tree level per query
+const collectDescendantIds = async (nodeId, projectId, session = null) => {
+  const descendantIds = [];
+  let levelIds = [nodeId];
+
+  while (levelIds.length > 0) {
+    const children = await FileSystemNode.find(
+      { projectId, parentId: { $in: levelIds }, deletedAt: null },
+      { id: 1 },
+      { session }
+    );
+    levelIds = children.map(child => child.id);
+    descendantIds.push(...levelIds);
+  }
+
+  return descendantIds;
+};
+
+// Normalise client-supplied nodes for insertion: recompute file metadata and timestamps
+const prepareNodesForInsert = (nodes, projectId) => {
+  const now = new Date();
+  return nodes.map(({ children, _id, __v, ...nodeData }) => {
+    const node = {
+      ...nodeData,
+      projectId,
+      parentId: nodeData.parentId || null,
+      lastModified: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    if (node.type === 'file') {
+      node.content = node.content || '';
+      node.binary = !!node.binary;
+      const { size, metadata } = describeFileContent(node.name, node.content, node.binary);
+      node.size = size;
+      node.metadata = { ...node.metadata, ...metadata };
+    }
+
+    return node;
+  });
+};
+
+// Check a batch of new nodes against itself and the existing tree.
+// Returns { status, error } describing the problem, or null if the batch can be inserted.
+const validateNodeBatch = async (flatNodes, projectId, session = null) => {
+  const batchIds = new Set(flatNodes.map(node => node.id));
+  if (batchIds.size !== flatNodes.length) {
+    return { status: 400, error: 'Node ids must be unique' };
+  }
+
+  const existingIds = await FileSystemNode.find(
+    { projectId, id: { $in: [...batchIds] } },
+    { id: 1 },
+    { session }
+  );
+  if (existingIds.length > 0) {
+    return { status: 409, error: `Node with ID ${existingIds[0].id} already exists` };
+  }
+
+  // Parents must be folders, either in the batch or already in the project
+  const batchFolders = new Set(flatNodes.filter(node => node.type === 'folder').map(node => node.id));
+  const outsideParentIds = [...new Set(flatNodes
+    .map(node => node.parentId)
+    .filter(parentId => parentId && !batchIds.has(parentId)))];
+  const outsideParents = await FileSystemNode.find(
+    { projectId, id: { $in: outsideParentIds }, type: 'folder', deletedAt: null },
+    { id: 1 },
+    { session }
+  );
+  if (outsideParents.length !== outsideParentIds.length) {
+    return { status: 404, error: 'Target folder not found' };
+  }
+  if (flatNodes.some(node => batchIds.has(node.parentId) && !batchFolders.has(node.parentId))) {
+    return { status: 400, error: 'Nodes can only be created inside folders' };
+  }
+
+  // Names must stay unique among siblings, both inside the batch and next to existing nodes
+  const siblingNames = new Set();
+  for (const node of flatNodes) {
+    const key = `${node.parentId}/${node.name}`;
+    if (siblingNames.has(key)) {
+      return { status: 409, error: `More than one new item is named "${node.name}" in the same folder` };
+    }
+    siblingNames.add(key);
+  }
+  const outsideChildren = flatNodes.filter(node => !batchIds.has(node.parentId));
+  if (outsideChildren.length > 0) {
+    const clash = await FileSystemNode.findOne({
+      projectId,
+      deletedAt: null,
+      $or: outsideChildren.map(node => ({ parentId: node.parentId, name: node.name }))
+    }, null, { session });
+    if (clash) {
+      return { status: 409, error: `A ${clash.type} named "${clash.name}" already exists in this folder` };
+    }
+  }
+
+  return null;
+};
+
+// Check that node can be placed inside the folder parentId.
+// Returns { status, error } describing the problem, or null if the move is allowed.
+const validateMoveTarget = async (node, parentId, session = null) => {
+  const target = await FileSystemNode.findOne({ id: parentId, projectId: node.projectId, deletedAt: null }, null, { session });
+  if (!target) {
+    return { status: 404, error: 'Target folder not found' };
+  }
+  if (target.type !== 'folder') {
+    return { status: 400, error: 'Nodes can only be moved into folders' };
+  }
+
+  // Walk up from the target; reaching the node means the target is inside it
+  let ancestorId = target.id;
+  while (ancestorId) {
+    if (ancestorId === node.id) {
+      return { status: 400, error: 'Cannot move a folder into one of its own subfolders' };
+    }
+    const ancestor = await FileSystemNode.findOne({ id: ancestorId, projectId: node.projectId }, { parentId: 1 }, { session });
+    ancestorId = ancestor?.parentId;
+  }
+
+  const existingNode = await FileSystemNode.findOne({
+    projectId: node.projectId,
+    parentId,
+    name: node.name,
+    id: { $ne: node.id },
+    deletedAt: null
+  }, null, { session });
+  if (existingNode) {
+    return { status: 409, error: `"${target.name}" already contains a ${existingNode.type} named "${node.name}"` };
+  }
+
+  return null;
+};
+
+// Names along a path for the fs endpoints ("src/components/App.tsx"), from the project root folder down.
+// Empty segments, as from a trailing slash, are ignored. Returns { segments }, or { error } for a name no
+// node could have.
+const parseNodePath = (path = '') => {
+  const segments = path.split('/').filter(Boolean);
+  const error = segments.map(validateNodeName).find(Boolean);
+  return error ? { error } : { segments };
+};
+
+// Follow a path of names down from the project root folder. Returns the live nodes along it, root first,
+// stopping at the first name that does not exist (or that sits under a file); null if there is no root.
+const walkNodePath = async (projectId, segments, session = null) => {
+  // Like collectTemplateContents: the seeded projects, and copies of them, have a root id that is not root-<projectId>
+  const roots = await FileSystemNode.find({ projectId, parentId: null, type: 'folder', deletedAt: null })
+    .sort({ createdAt: 1 }).session(session).lean();
+  const root = roots.find(node => node.id === `root-${projectId}`) || roots[0];
+  if (!root) {
+    return null;
+  }
+
+  const found = [root];
+  for (const name of segments) {
+    const parent = found[found.length - 1];
+    if (parent.type !== 'folder') break;
+    const child = await FileSystemNode.findOne({ projectId, parentId: parent.id, name, deletedAt: null }).session(session).lean();
+    if (!child) break;
+    found.push(child);
+  }
+  return found;
+};
+
+// Move nodes and their live descendants to the trash, remembering which deleted subtree each belongs to.
+// Parent ids and positions are left alone so the nodes can be restored where they were.
+const trashNodes = async (ids, projectId, session = null) => {
+  const deletedAt = new Date();
+  const trashedIds = [];
+
+  for (const id of ids) {
+    const subtreeIds = [id, ...await collectDescendantIds(id, projectId, session)];
+    await FileSystemNode.updateMany(
+      { projectId, id: { $in: subtreeIds }, deletedAt: null },
+      { $set: { deletedAt, trashRootId: id, updatedAt: deletedAt } },
+      { session }
+    );
+    trashedIds.push(...subtreeIds);
+  }
+
+  return trashedIds;
+};
+
+// Permanently delete trash older than the retention period, for one project or all of them
+const purgeExpiredTrash = async (projectId = null) => {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+  const filter = { deletedAt: { $ne: null, $lt: cutoff } };
+  if (projectId) {
+    filter.projectId = projectId;
+  }
+  const { deletedCount } = await deleteNodesPermanently(filter);
+  if (deletedCount > 0) {
+    console.log(`🗑️  Purged ${deletedCount} expired trash nodes`);
+  }
+};
+
+// Folder a trashed node goes back into: its original parent if that is still a live folder,
+// otherwise the project's root folder (relocated). Nodes that were top-level stay top-level.
+const resolveRestoreParent = async (node, projectId, session = null) => {
+  if (!node.parentId) {
+    return { parent: null, relocated: false };
+  }
+
+  const parent = await FileSystemNode.findOne(
+    { projectId, id: node.parentId, type: 'folder', deletedAt: null },
+    null,
+    { session }
+  );
+  if (parent) {
+    return { parent, relocated: false };
+  }
+
+  const rootFolder = await FileSystemNode.findOne(
+    { projectId, parentId: null, type: 'folder', deletedAt: null },
+    null,
+    { session, sort: { createdAt: 1 } }
+  );
+  return { parent: rootFolder, relocated: true };
+};
+
+const generateNodeId = () => `node_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+const formatMegabytes = (bytes) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Zip entry name -> path segments, or null if it points outside the archive ("../x", "/etc/x")
+const normalizeEntryPath = (entryName) => {
+  const path = entryName.replace(/\\/g, '/');
+  if (path.startsWith('/') || /^[a-zA-Z]:/.test(path)) {
+    return null;
+  }
+  const segments = path.split('/').filter(segment => segment && segment !== '.');
+  return segments.includes('..') ? null : segments;
+};
+
+// Operating system and version control clutter that is never imported or reported
+const isArchiveClutter = (segments) =>
+  segments[0] === '__MACOSX' || segments.includes('.git') || segments[segments.length - 1] === '.DS_Store';
+
+// Text files are valid UTF-8 without NUL bytes; anything else is treated as binary
+const decodeTextContent = (data) => {
+  if (data.subarray(0, 8000).includes(0)) {
+    return null;
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+};
+
+// Unpack an uploaded zip into the folders and text files to import. Entries that are gitignored, binary,
+// too large or otherwise unusable are left out and listed in `skipped` with the reason.
+const readZipArchive = (buffer, { stripRoot = false } = {}) => {
+  if (!Buffer.isBuffer(buffer) || buffer.length === 0) {
+    return { error: 'Upload a .zip file' };
+  }
+
+  // First pass: list every entry, but only unpack the .gitignore files and the layout manifest
+  const listing = [];
+  let metadataFiles;
+  try {
+    metadataFiles = unzipSync(buffer, {
+      filter: (entry) => {
+        listing.push(entry);
+        return (entry.name === ZIP_MANIFEST_NAME || /(^|\/)\.gitignore$/.test(entry.name)) &&
+          entry.originalSize <= IMPORT_MAX_FILE_SIZE;
+      }
+    });
+  } catch {
+    return { error: 'The upload is not a valid zip archive' };
+  }
+  const { [ZIP_MANIFEST_NAME]: manifestData, ...gitignoreData } = metadataFiles;
+  const layout = readZipManifest(manifestData);
+
+  // Each .gitignore applies to the folder it sits in, with paths relative to that folder
+  const ignoreRules = Object.entries(gitignoreData).flatMap(([entryName, data]) => {
+    const segments = normalizeEntryPath(entryName);
+    return segments ? [{ dir: segments.slice(0, -1), rules: ignore().add(strFromU8(data)) }] : [];
+  });
+  const isIgnored = (segments, isFolder) => ignoreRules.some(({ dir, rules }) =>
+    dir.length < segments.length &&
+    dir.every((segment, i) => segments[i] === segment) &&
+    rules.ignores(segments.slice(dir.length).join('/') + (isFolder ? '/' : ''))
+  );
+
+  const skipped = [];
+  const reportedIgnores = new Set();
+  const folders = [];
+  const wanted = new Map();
+  let entryCount = 0;
+  let totalSize = 0;
+
+  for (const entry of listing) {
+    const segments = normalizeEntryPath(entry.name);
+    const isFolder = entry.name.endsWith('/');
+
+    if (!segments) {
+      skipped.push({ path: entry.name, reason: 'invalid', message: 'Path points outside the archive' });
+      continue;
+    }
+    if (segments.length === 0 || entry.name === ZIP_MANIFEST_NAME || isArchiveClutter(segments)) {
+      continue;
+    }
+
+    // Report an ignored folder once rather than every file inside it
+    const ignoredDepth = segments.findIndex((_, i) => isIgnored(segments.slice(0, i + 1), isFolder || i < segments.length - 1));
+    if (ignoredDepth !== -1) {
+      const ignoredPath = segments.slice(0, ignoredDepth + 1).join('/') + (isFolder || ignoredDepth < segments.length - 1 ? '/' : '');
+      if (!reportedIgnores.has(ignoredPath)) {
+        reportedIgnores.add(ignoredPath);
+        skipped.push({ path: ignoredPath, reason: 'ignored', message: 'Matched by .gitignore' });
+      }
+      continue;
+    }
+
+    const path = segments.join('/');
+    if (++entryCount > IMPORT_MAX_ENTRIES) {
+      skipped.push({ path, reason: 'limit', message: `More than ${IMPORT_MAX_ENTRIES} entries in the archive` });
+      continue;
+    }
+    if (isFolder) {
+      folders.push(segments);
+      continue;
+    }
+    if (entry.compression !== 0 && entry.compression !== 8) {
+      skipped.push({ path, reason: 'invalid', message: 'Unsupported compression method' });
+      continue;
+    }
+    if (entry.originalSize > IMPORT_MAX_FILE_SIZE) {
+      skipped.push({ path, reason: 'too-large', message: `Larger than ${formatMegabytes(IMPORT_MAX_FILE_SIZE)}` });
+      continue;
+    }
+    if (totalSize + entry.originalSize > IMPORT_MAX_TOTAL_SIZE) {
+      skipped.push({ path, reason: 'limit', message: `Archive unpacks to more than ${formatMegabytes(IMPORT_MAX_TOTAL_SIZE)}` });
+      continue;
+    }
+    totalSize += entry.originalSize;
+    wanted.set(entry.name, segments);
+  }
+
+  // Second pass: unpack the files that made it through
+  let unpacked;
+  try {
+    unpacked = unzipSync(buffer, { filter: (entry) => wanted.has(entry.name) });
+  } catch {
+    return { error: 'The zip archive is damaged or encrypted' };
+  }
+
+  const files = [];
+  for (const [entryName, segments] of wanted) {
+    const data = unpacked[entryName];
+    const path = segments.join('/');
+    if (data.length > IMPORT_MAX_FILE_SIZE) {
+      skipped.push({ path, reason: 'too-large', message: `Larger than ${formatMegabytes(IMPORT_MAX_FILE_SIZE)}` });
+      continue;
+    }
+    const content = decodeTextContent(data);
+    files.push(content === null
+      ? { segments, content: Buffer.from(data).toString('base64'), binary: true }
+      : { segments, content });
+  }
+
+  // "my-app/src/index.ts" -> "src/index.ts" when everything sits in one top-level folder
+  const topLevel = new Set([...folders, ...files.map(file => file.segments)].map(segments => segments[0]));
+  if (stripRoot && topLevel.size === 1 && files.every(file => file.segments.length > 1)) {
+    const [rootName] = topLevel;
+    return {
+      folders: folders.map(segments => segments.slice(1)).filter(segments => segments.length > 0),
+      files: files.map(file => ({ ...file, segments: file.segments.slice(1) })),
+      // The stripped folder is now the import target, whose path is ""
+      layout: new Map([...layout]
+        .filter(([path]) => path === rootName || path.startsWith(`${rootName}/`))
+        .map(([path, position]) => [path.slice(rootName.length + 1), position])),
+      skipped
+    };
+  }
+
+  return { folders, files, layout, skipped };
+};
+
+// Canvas positions from an export manifest, keyed by archive path. A missing or unreadable manifest
+// gives an empty map and the import falls back to its own layout.
+const readZipManifest = (data) => {
+  const layout = new Map();
+  if (!data) {
+    return layout;
+  }
+
+  let manifest;
+  try {
+    manifest = JSON.parse(strFromU8(data));
+  } catch {
+    return layout;
+  }
+
+  for (const node of Array.isArray(manifest?.nodes) ? manifest.nodes : []) {
+    const segments = typeof node?.path === 'string' ? normalizeEntryPath(node.path) : null;
+    if (segments && Number.isFinite(node.x) && Number.isFinite(node.y)) {
+      layout.set(segments.join('/'), {
+        x: node.x,
+        y: node.y,
+        expanded: typeof node.expanded === 'boolean' ? node.expanded : undefined
+      });
+    }
+  }
+  return layout;
+};
+
+// Turn an unpacked archive into flat nodes below parent. Nodes listed in the archive's manifest keep their
+// position relative to their folder; the rest are laid out like a file tree underneath the folder's
+// existing children. Top-level names that clash with those children get an "(imported)" label.
+const buildImportNodes = ({ folders, files, layout = new Map() }, parent, siblings) => {
+  const root = { type: 'folder', children: new Map() };
+  const ensureFolder = (segments) => segments.reduce((folder, name) => {
+    let child = folder.children.get(name);
+    if (!child || child.type !== 'folder') {
+      child = { type: 'folder', name, children: new Map() };
+      folder.children.set(name, child);
+    }
+    return child;
+  }, root);
+
+  folders.forEach(ensureFolder);
+  for (const { segments, content, binary = false } of files) {
+    const folder = ensureFolder(segments.slice(0, -1));
+    const name = segments[segments.length - 1];
+    if (!folder.children.has(name)) {
+      folder.children.set(name, { type: 'file', name, content, binary });
+    }
+  }
+
+  const takenNames = new Set(siblings.map(sibling => sibling.name));
+  const firstY = siblings.length > 0
+    ? Math.max(...siblings.map(sibling => sibling.y)) + IMPORT_ROW_HEIGHT
+    : parent.y + IMPORT_ROW_HEIGHT;
+  const nodes = [];
+  let row = 0;
+
+  // Folders first, then files, each alphabetically
+  const addChildren = (folder, folderNode, folderPath, depth) => {
+    const children = [...folder.children.values()].sort((a, b) =>
+      a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1
+    );
+    for (const child of children) {
+      const name = depth === 1 ? getAvailableName(child.name, child.type, takenNames, 'imported') : child.name;
+      if (depth === 1) {
+        takenNames.add(name);
+      }
+
+      const path = folderPath ? `${folderPath}/${child.name}` : child.name;
+      const saved = layout.get(path);
+      const savedFolder = layout.get(folderPath);
+      const node = {
+        id: generateNodeId(),
+        type: child.type,
+        name,
+        parentId: folderNode.id,
+        ...(saved && savedFolder
+          ? { x: folderNode.x + saved.x - savedFolder.x, y: folderNode.y + saved.y - savedFolder.y }
+          : { x: folderNode.x + IMPORT_INDENT, y: firstY + row++ * IMPORT_ROW_HEIGHT })
+      };
+      nodes.push(child.type === 'folder'
+        ? { ...node, expanded: saved?.expanded ?? true }
+        : { ...node, content: child.content, binary: child.binary });
+
+      if (child.type === 'folder') {
+        addChildren(child, node, path, depth + 1);
+      }
+    }
+  };
+  addChildren(root, parent, '', 1);
+
+  return nodes;
+};
+
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDateValue = (value) => (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value).getTime());
+
+// The current snapshot format for a project and its nodes
+const createSnapshot = (project, nodes) => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  exportedAt: new Date(),
+  project: {
+    id: project.id,
+    name: project.name,
+    description: project.description || '',
+    owner: project.owner || 'default',
+    isActive: project.isActive ?? true,
+    settings: {
+      theme: project.settings?.theme || 'light',
+      layout: project.settings?.layout || 'canvas',
+      autoSave: project.settings?.autoSave ?? true
+    },
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt
+  },
+  nodes: nodes.map(serializeSnapshotNode)
+});
+
+// A node in the snapshot format
+const serializeSnapshotNode = (node) => ({
+  id: node.id,
+  type: node.type,
+  name: node.name,
+  parentId: node.parentId,
+  x: node.x,
+  y: node.y,
+  ...(node.type === 'folder'
+    ? { expanded: !!node.expanded }
+    : { content: node.content || '', binary: !!node.binary, size: node.size }),
+  metadata: {
+    language: node.metadata?.language || '',
+    encoding: node.metadata?.encoding || 'utf-8',
+    lineCount: node.metadata?.lineCount || 0,
+    permissions: node.metadata?.permissions || 'rw-r--r--',
+    ...(node.binary ? { mimeType: node.metadata?.mimeType || getMimeType(node.name) } : {})
+  },
+  lastModified: node.lastModified,
+  createdAt: node.createdAt,
+  updatedAt: node.updatedAt,
+  deletedAt: node.deletedAt || null,
+  trashRootId: node.trashRootId || null
+});
+
+// Nested nodes with `children` -> flat nodes with parentId links
+const flattenSnapshotTree = (tree, parentId = null) => tree.flatMap(({ children, ...node }) => [
+  { ...node, parentId },
+  ...(Array.isArray(children) ? flattenSnapshotTree(children, node.id) : [])
+]);
+
+// One step per older format version, each returning the snapshot in the next version's shape
+const SNAPSHOT_MIGRATIONS = {
+  // Version 1 held the nested tree that GET /api/projects/:projectId/nodes returns, under `tree`
+  1: ({ tree, ...snapshot }) => ({
+    ...snapshot,
+    version: 2,
+    nodes: Array.isArray(tree) ? flattenSnapshotTree(tree) : tree
+  }),
+  // Version 2 had text files only
+  2: ({ nodes, ...snapshot }) => ({
+    ...snapshot,
+    version: 3,
+    nodes: Array.isArray(nodes)
+      ? nodes.map(node => (isPlainObject(node) && node.type === 'file' ? { ...node, binary: false } : node))
+      : nodes
+  })
+};
+
+// Check the envelope and bring an older snapshot up to the current version
+const migrateSnapshot = (snapshot) => {
+  if (!isPlainObject(snapshot) || snapshot.format !== SNAPSHOT_FORMAT) {
+    return { error: `Not a project snapshot: "format" must be "${SNAPSHOT_FORMAT}"` };
+  }
+  if (!Number.isInteger(snapshot.version) || snapshot.version < 1) {
+    return { error: '"version" must be a positive whole number' };
+  }
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    return { error: `Snapshot version ${snapshot.version} is newer than this server supports (${SNAPSHOT_VERSION})` };
+  }
+
+  let migrated = snapshot;
+  while (migrated.version < SNAPSHOT_VERSION) {
+    migrated = SNAPSHOT_MIGRATIONS[migrated.version](migrated);
+  }
+  return { snapshot: migrated, fromVersion: migrated === snapshot ? undefined : snapshot.version };
+};
+
+// Every problem with a current-version snapshot, as "path: message" strings
+const validateSnapshot = ({ project, nodes }) => {
+  const errors = [];
+  const checkField = (value, path, isValid, expected) => {
+    if (value !== undefined && !isValid(value)) {
+      errors.push(`${path}: must be ${expected}`);
+    }
+  };
+  const isString = value => typeof value === 'string';
+  const isBoolean = value => typeof value === 'boolean';
+
+  if (!isPlainObject(project)) {
+    errors.push('project: must be an object');
+  } else {
+    if (typeof project.name !== 'string' || !project.name.trim()) {
+      errors.push('project.name: must be a non-empty string');
+    }
+    checkField(project.description, 'project.description', isString, 'a string');
+    checkField(project.owner, 'project.owner', isString, 'a string');
+    checkField(project.isActive, 'project.isActive', isBoolean, 'a boolean');
+    checkField(project.createdAt, 'project.createdAt', isDateValue, 'a date');
+    checkField(project.updatedAt, 'project.updatedAt', isDateValue, 'a date');
+    checkField(project.settings, 'project.settings', isPlainObject, 'an object');
+    if (isPlainObject(project.settings)) {
+      checkField(project.settings.theme, 'project.settings.theme', isString, 'a string');
+      checkField(project.settings.layout, 'project.settings.layout', isString, 'a string');
+      checkField(project.settings.autoSave, 'project.settings.autoSave', isBoolean, 'a boolean');
+    }
+  }
+
+  if (!Array.isArray(nodes)) {
+    errors.push('nodes: must be an array');
+    return errors;
+  }
+
+  const byId = new Map();
+  nodes.forEach((node, i) => {
+    const at = `nodes[${i}]`;
+    if (!isPlainObject(node)) {
+      errors.push(`${at}: must be an object`);
+      return;
+    }
+    if (typeof node.id !== 'string' || !node.id) {
+      errors.push(`${at}.id: must be a non-empty string`);
+    } else if (byId.has(node.id)) {
+      errors.push(`${at}.id: "${node.id}" is used by more than one node`);
+    } else {
+      byId.set(node.id, node);
+    }
+    if (!['file', 'folder'].includes(node.type)) {
+      errors.push(`${at}.type: must be "file" or "folder"`);
+    }
+    const nameError = typeof node.name === 'string' ? validateNodeName(node.name) : 'Name must be a string';
+    if (nameError) {
+      errors.push(`${at}.name: ${nameError}`);
+    }
+    checkField(node.parentId, `${at}.parentId`, value => value === null || isString(value), 'a string or null');
+    checkField(node.x, `${at}.x`, Number.isFinite, 'a number');
+    checkField(node.y, `${at}.y`, Number.isFinite, 'a number');
+    checkField(node.expanded, `${at}.expanded`, isBoolean, 'a boolean');
+    checkField(node.content, `${at}.content`, isString, 'a string');
+    checkField(node.binary, `${at}.binary`, isBoolean, 'a boolean');
+    if (node.binary && isString(node.content) && validateBinaryContent(node.content)) {
+      errors.push(`${at}.content: ${validateBinaryContent(node.content).error}`);
+    }
+    checkField(node.size, `${at}.size`, value => Number.isInteger(value) && value >= 0, 'a whole number of bytes');
+    for (const field of ['lastModified', 'createdAt', 'updatedAt']) {
+      checkField(node[field], `${at}.${field}`, isDateValue, 'a date');
+    }
+    checkField(node.deletedAt, `${at}.deletedAt`, value => value === null || isDateValue(value), 'a date or null');
+    checkField(node.trashRootId, `${at}.trashRootId`, value => value === null || isString(value), 'a string or null');
+    checkField(node.metadata, `${at}.metadata`, isPlainObject, 'an object');
+    if (isPlainObject(node.metadata)) {
+      checkField(node.metadata.language, `${at}.metadata.language`, isString, 'a string');
+      checkField(node.metadata.encoding, `${at}.metadata.encoding`, isString, 'a string');
+      checkField(node.metadata.lineCount, `${at}.metadata.lineCount`, value => Number.isInteger(value) && value >= 0, 'a whole number');
+      checkField(node.metadata.permissions, `${at}.metadata.permissions`, isString, 'a string');
+      checkField(node.metadata.mimeType, `${at}.metadata.mimeType`, isString, 'a string');
+    }
+  });
+
+  // Live nodes must hang off live folders without cycles, with names unique among siblings. Trashed nodes
+  // may point at folders that were deleted for good; restoring them falls back to the project root.
+  const siblingNames = new Set();
+  nodes.forEach((node, i) => {
+    if (!isPlainObject(node) || byId.get(node.id) !== node || node.deletedAt) return;
+    const at = `nodes[${i}]`;
+
+    if (node.parentId) {
+      const parent = byId.get(node.parentId);
+      if (!parent) {
+        errors.push(`${at}.parentId: no node has the id "${node.parentId}"`);
+      } else if (parent.type !== 'folder') {
+        errors.push(`${at}.parentId: "${node.parentId}" is not a folder`);
+      } else if (parent.deletedAt) {
+        errors.push(`${at}.parentId: "${node.parentId}" is in the trash`);
+      }
+    }
+
+    const key = `${node.parentId || ''}/${node.name}`;
+    if (siblingNames.has(key)) {
+      errors.push(`${at}.name: another node in the same folder is named "${node.name}"`);
+    }
+    siblingNames.add(key);
+
+    const seen = new Set([node.id]);
+    for (let parent = byId.get(node.parentId); parent; parent = byId.get(parent.parentId)) {
+      if (seen.has(parent.id)) {
+        errors.push(`${at}.parentId: "${node.id}" is its own ancestor`);
+        break;
+      }
+      seen.add(parent.id);
+    }
+  });
+
+  return errors;
+};
+
+// Give the snapshot's project and nodes fresh ids. The project root keeps the "root-<projectId>" convention,
+// and links to nodes outside the snapshot (trashed nodes whose folder is gone) are left as they are.
+const remapSnapshot = (snapshot, projectId) => {
+  const oldRootId = `root-${snapshot.project.id}`;
+  const idMap = new Map(snapshot.nodes.map(node => [
+    node.id,
+    node.id === oldRootId ? `root-${projectId}` : generateNodeId()
+  ]));
+  const now = new Date();
+
+  const project = {
+    id: projectId,
+    name: snapshot.project.name,
+    description: snapshot.project.description || '',
+    owner: snapshot.project.owner || 'default',
+    isActive: snapshot.project.isActive ?? true,
+    settings: {
+      theme: snapshot.project.settings?.theme || 'light',
+      layout: snapshot.project.settings?.layout || 'canvas',
+      autoSave: snapshot.project.settings?.autoSave ?? true
+    },
+    createdAt: snapshot.project.createdAt || now,
+    updatedAt: snapshot.project.updatedAt || now
+  };
+
+  const nodes = snapshot.nodes.map(node => {
+    const content = node.type === 'file' ? node.content || '' : '';
+    const binary = node.type === 'file' && !!node.binary;
+    return {
+      id: idMap.get(node.id),
+      projectId,
+      type: node.type,
+      name: node.name,
+      content,
+      binary,
+      parentId: node.parentId ? idMap.get(node.parentId) || node.parentId : null,
+      x: node.x ?? 0,
+      y: node.y ?? 0,
+      expanded: node.type === 'folder' && !!node.expanded,
+      size: node.type === 'file' ? node.size ?? describeFileContent(node.name, content, binary).size : 0,
+      lastModified: node.lastModified || now,
+      createdAt: node.createdAt || now,
+      updatedAt: node.updatedAt || now,
+      metadata: {
+        ...(node.type === 'file' ? describeFileContent(node.name, content, binary).metadata : {}),
+        ...node.metadata
+      },
+      deletedAt: node.deletedAt || null,
+      trashRootId: node.trashRootId ? idMap.get(node.trashRootId) || null : null
+    };
+  });
+
+  return { project, nodes };
+};
+
+// A named snapshot of the project's live nodes, ready to be stored
+const createProjectSnapshot = (projectId, nodes, { name, description = '', author = null }) => {
+  const snapshotNodes = nodes.map(serializeSnapshotNode);
+  const files = snapshotNodes.filter(node => node.type === 'file');
+  return {
+    id: `snapshot_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    projectId,
+    name,
+    description,
+    author,
+    nodeCount: snapshotNodes.length,
+    fileCount: files.length,
+    folderCount: snapshotNodes.length - files.length,
+    size: files.reduce((total, file) => total + calculateFileSize(file.content), 0),
+    nodes: snapshotNodes,
+    createdAt: new Date()
+  };
+};
+
+// What the snapshot list shows: everything but the nodes
+const summarizeProjectSnapshot = ({ _id, __v, nodes, ...summary }) => summary;
+
+// Paths from the project root ("Project Root/src/App.tsx") of a set of nodes, keyed by node id
+const getNodePaths = (nodes) => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const paths = new Map();
+  const getPath = (node) => {
+    if (!paths.has(node.id)) {
+      paths.set(node.id, node.name); // Stops the walk if parent links ever form a loop
+      const parent = node.parentId ? nodeMap.get(node.parentId) : null;
+      paths.set(node.id, parent ? `${getPath(parent)}/${node.name}` : node.name);
+    }
+    return paths.get(node.id);
+  };
+  nodes.forEach(getPath);
+  return paths;
+};
+
+// What changed since a snapshot was taken, node by node. 'added' nodes are deleted by a restore, 'removed'
+// nodes come back, and 'modified' nodes get back the content, name, folder or canvas position they had.
+const diffProjectSnapshot = (snapshotNodes, currentNodes) => {
+  const snapshotPaths = getNodePaths(snapshotNodes);
+  const currentPaths = getNodePaths(currentNodes);
+  const currentMap = new Map(currentNodes.map(node => [node.id, node]));
+  const snapshotIds = new Set(snapshotNodes.map(node => node.id));
+  const changes = [];
+
+  for (const before of snapshotNodes) {
+    const after = currentMap.get(before.id);
+    if (!after) {
+      changes.push({ id: before.id, type: before.type, path: snapshotPaths.get(before.id), status: 'removed' });
+      continue;
+    }
+
+    const changed = [];
+    if (before.type === 'file' && (before.content || '') !== (after.content || '')) changed.push('content');
+    if (before.name !== after.name) changed.push('name');
+    if ((before.parentId || null) !== (after.parentId || null)) changed.push('folder');
+    if (before.x !== after.x || before.y !== after.y) changed.push('position');
+    if (changed.length > 0) {
+      changes.push({
+        id: before.id,
+        type: before.type,
+        path: currentPaths.get(before.id),
+        snapshotPath: snapshotPaths.get(before.id),
+        status: 'modified',
+        changes: changed
+      });
+    }
+  }
+
+  for (const node of currentNodes) {
+    if (!snapshotIds.has(node.id)) {
+      changes.push({ id: node.id, type: node.type, path: currentPaths.get(node.id), status: 'added' });
+    }
+  }
+
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+  const count = (status) => changes.filter(change => change.status === status).length;
+  const summary = { added: count('added'), removed: count('removed'), modified: count('modified') };
+  summary.unchanged = snapshotNodes.length - summary.removed - summary.modified;
+
+  return { summary, changes };
+};
+
+// Make the browser save the response as a file, keeping non-ASCII names for browsers that support them
+const setAttachmentHeader = (res, fileName) => {
+  const asciiName = fileName.replace(/[^\x20-\x7e]|"/g, '_');
+  res.setHeader('Content-Disposition', `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+};
+
+// Stream a zip archive into the response as entries are added
+const createZipResponse = (res, fileName) => {
+  res.setHeader('Content-Type', 'application/zip');
+  setAttachmentHeader(res, fileName);
+
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      res.destroy(error);
+      return;
+    }
+    res.write(chunk);
+    if (final) {
+      res.end();
+    }
+  });
+
+  const addEntry = (entry, data, modified) => {
+    if (modified) {
+      entry.mtime = modified;
+    }
+    zip.add(entry);
+    entry.push(data, true);
+  };
+
+  return {
+    addFolder: (path, modified) => addEntry(new ZipPassThrough(`${path}/`), new Uint8Array(0), modified),
+    addFile: (path, content, modified, binary = false) =>
+      addEntry(new ZipDeflate(path, { level: 6 }), binary ? Buffer.from(content, 'base64') : strToU8(content), modified),
+    end: () => zip.end()
+  };
+};
+
+// Delete nodes for good, along with the history of any files among them
+const deleteNodesPermanently = async (filter, session = null) => {
+  const files = await FileSystemNode.find({ ...filter, type: 'file' }, { id: 1, projectId: 1 }).session(session).lean();
+  const result = await FileSystemNode.deleteMany(filter, { session });
+  if (files.length > 0) {
+    await FileRevision.deleteMany({ $or: files.map(file => ({ projectId: file.projectId, fileId: file.id })) }, { session });
+  }
+  return result;
+};
+
+// Add a revision for content about to be saved to file (the node as it is before the save). The first
+// time a file is saved its existing content is recorded too, so nothing written before history was kept
+// is lost. Saving unchanged content records nothing and returns the newest revision.
+const recordRevision = async (
+  file,
+  content,
+  { author = null, source = 'save', restoredFrom = null, mergeInto = null } = {},
+  session = null
+) => {
+  const filter = { projectId: file.projectId, fileId: file.id };
+  const latest = await FileRevision.findOne(filter, { _id: 0, __v: 0 }).sort({ createdAt: -1 }).session(session).lean();
+  if (latest && latest.content === content && source !== 'restore') {
+    return latest;
+  }
+  // mergeInto updates that revision instead of adding one, as long as nothing was saved after it
+  if (latest && latest.id === mergeInto && latest.source === 'save') {
+    return FileRevision.findOneAndUpdate(
+      { id: latest.id },
+      { content, size: calculateFileSize(content), lineCount: countLines(content), author, createdAt: new Date() },
+      { new: true, session, projection: { _id: 0, __v: 0 } }
+    ).lean();
+  }
+
+  const createRevision = (revision) => ({
+    id: `revision_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    ...filter,
+    size: calculateFileSize(revision.content),
+    lineCount: countLines(revision.content),
+    ...revision
+  });
+  const revisions = [];
+  if (!latest && (file.content || '') !== content) {
+    revisions.push(createRevision({ content: file.content || '', source: 'original', createdAt: file.updatedAt || new Date() }));
+  }
+  revisions.push(createRevision({ content, source, restoredFrom, author, createdAt: new Date() }));
+
+  const created = await FileRevision.insertMany(revisions, { session });
+  await pruneRevisions(file.projectId, file.id, session);
+  const { _id, __v, ...revision } = created[created.length - 1].toObject();
+  return revision;
+};
+
+// Apply the retention policy described with REVISION_RETENTION_DAYS to one file's history
+const pruneRevisions = async (projectId, fileId, session = null) => {
+  const revisions = await FileRevision.find({ projectId, fileId }, { id: 1, createdAt: 1 })
+    .sort({ createdAt: -1 })
+    .session(session)
+    .lean();
+
+  const now = Date.now();
+  const keptHours = new Set();
+  const expired = [];
+  let kept = 0;
+  for (const revision of revisions) {
+    const created = new Date(revision.createdAt).getTime();
+    const hour = Math.floor(created / HOUR_MS);
+    const tooOld = now - created > REVISION_RETENTION_DAYS * DAY_MS && kept >= REVISION_MIN_KEPT;
+    const thinnedOut = now - created > DAY_MS && keptHours.has(hour);
+
+    if (tooOld || thinnedOut || kept >= REVISION_MAX_PER_FILE) {
+      expired.push(revision.id);
+    } else {
+      kept++;
+      keptHours.add(hour);
+    }
+  }
+
+  if (expired.length > 0) {
+    await FileRevision.deleteMany({ id: { $in: expired } }, { session });
+  }
+};
+
+// A built-in or custom template by id
+const findTemplate = async (templateId) => {
+  const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === templateId);
+  if (builtIn || !process.env.MONGODB_URI) {
+    return builtIn || null;
+  }
+  return ProjectTemplate.findOne({ id: templateId }).lean();
+};
+
+// What the template picker shows: everything but the file contents
+const summarizeTemplate = (template) => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || '',
+  icon: template.icon || 'folder',
+  builtIn: !!template.builtIn,
+  createdAt: template.createdAt,
+  fileCount: template.files.length,
+  folderCount: template.folders.length,
+  entries: [
+    ...template.folders.map(path => ({ path, type: 'folder' })),
+    ...template.files.map(({ path }) => ({ path, type: 'file' }))
+  ].sort((a, b) => a.path.localeCompare(b.path))
+});
+
+// Only known placeholder names are replaced, so "{{ ... }}" in JSX or other templating languages is left alone
+const fillPlaceholders = (text, values) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (Object.hasOwn(values, key) ? values[key] : match));
+
+// The template with placeholders filled in, or an error if a filled-in path is not a valid name
+const fillTemplate = (template, project) => {
+  const values = getTemplateValues(project);
+  const fillPath = (path) => path.split('/').map(segment => fillPlaceholders(segment, values)).join('/');
+
+  const paths = [...template.folders, ...template.files.map(file => file.path)].map(fillPath);
+  for (const path of paths) {
+    const invalid = path.split('/').map(validateNodeName).find(Boolean);
+    if (invalid) {
+      return { error: `The template would create "${path}": ${invalid}` };
+    }
+  }
 
-  return rootNodes;
+  return {
+    ...template,
+    folders: template.folders.map(fillPath),
+    files: template.files.map(({ path, content }) => ({ path: fillPath(path), content: fillPlaceholders(content, values) })),
+    layout: (template.layout || []).map(entry => ({ ...entry, path: fillPath(entry.path) }))
+  };
 };
 
-// Helper functions
-const calculateFileSize = (content) => {
-  return Buffer.byteLength(content, 'utf8');
+// Template contents in the shape buildImportNodes takes from an unpacked archive
+const toImportEntries = ({ folders, files, layout = [] }) => ({
+  folders: folders.map(path => path.split('/')),
+  files: files.map(({ path, content }) => ({ segments: path.split('/'), content })),
+  layout: new Map(layout.map(({ path, x, y, expanded }) => [path, { x, y, expanded }]))
+});
+
+// Folders, files and positions of a project's live nodes, with paths from its root folder. When projectName
+// is given, it and its slug and package forms are replaced with the matching placeholders.
+const collectTemplateContents = (nodes, projectId, projectName) => {
+  const parentless = nodes.filter(node => !node.parentId);
+  const root = parentless.find(node => node.id === `root-${projectId}`)
+    || parentless.find(node => node.type === 'folder');
+
+  const parameterize = projectName ? parameterizeProjectName(projectName) : (text) => text;
+
+  const childrenOf = new Map();
+  for (const node of nodes) {
+    if (node === root) continue;
+    const key = node.parentId && node.parentId !== root?.id ? node.parentId : '';
+    childrenOf.set(key, [...(childrenOf.get(key) || []), node]);
+  }
+
+  const contents = { folders: [], files: [], layout: root ? [{ path: '', x: root.x, y: root.y, expanded: true }] : [] };
+  const visit = (parentKey, parentPath) => {
+    for (const node of childrenOf.get(parentKey) || []) {
+      const path = parentPath ? `${parentPath}/${parameterize(node.name)}` : parameterize(node.name);
+      if (node.type === 'folder') {
+        contents.folders.push(path);
+        contents.layout.push({ path, x: node.x, y: node.y, expanded: !!node.expanded });
+        visit(node.id, path);
+      } else if (!node.binary) {
+        // Templates hold text files only
+        contents.files.push({ path, content: parameterize(node.content || '') });
+        contents.layout.push({ path, x: node.x, y: node.y });
+      }
+    }
+  };
+  visit('', '');
+
+  return contents;
 };
 
-const countLines = (content) => {
-  return content.split('\n').length;
+// Keep a node's name unless it is taken, otherwise add a label: "App.tsx" -> "App (restored).tsx" -> "App (restored 2).tsx"
+const getAvailableName = (name, type, takenNames, label) => {
+  if (!takenNames.has(name)) {
+    return name;
+  }
+
+  const dotIndex = type === 'file' ? name.lastIndexOf('.') : -1;
+  const base = dotIndex > 0 ? name.slice(0, dotIndex) : name;
+  const extension = dotIndex > 0 ? name.slice(dotIndex) : '';
+
+  let candidate = `${base} (${label})${extension}`;
+  for (let i = 2; takenNames.has(candidate); i++) {
+    candidate = `${base} (${label} ${i})${extension}`;
+  }
+  return candidate;
 };
 
-const getLanguageFromExtension = (filename) => {
-  const ext = filename.split('.').pop()?.toLowerCase();
-  const languageMap = {
-    'js': 'javascript',
-    'jsx': 'javascript',
-    'ts': 'typescript',
-    'tsx': 'typescript',
-    'json': 'json',
-    'md': 'markdown',
-    'css': 'css',
-    'html': 'html',
-    'py': 'python',
-    'java': 'java',
-    'cpp': 'cpp',
-    'c': 'c',
-    'xml': 'xml',
-    'sql': 'sql',
-    'php': 'php',
-    'rb': 'ruby',
-    'go': 'go',
-    'rs': 'rust',
-    'sh': 'shell',
-    'yml': 'yaml',
-    'yaml': 'yaml'
-  };
-  return languageMap[ext] || 'plaintext';
+// Path of a folder from the project root ("Project Root/src/components"), or null if it no longer exists
+const getFolderPath = (folders, folderId) => {
+  const folderMap = new Map(folders.map(folder => [folder.id, folder]));
+  const names = [];
+  let current = folderMap.get(folderId);
+  while (current) {
+    names.unshift(current.name);
+    current = current.parentId ? folderMap.get(current.parentId) : null;
+  }
+  return names.length > 0 ? names.join('/') : null;
 };
 
 // Helper function to build tree structure from flat array
@@ -916,6 +4139,245 @@ const buildTree = (nodes) => {
   return roots;
 };
 
+// Every project has its own Socket.IO room, so updates only reach clients viewing that project
+const getProjectRoom = (projectId) => `project:${projectId}`;
+
+// Broadcast a change to the project's room. originId is the X-Client-Id header of the request
+// that caused it, which lets the client that made the change skip its own echo. req is null for
+// changes the server makes on its own, which every client applies.
+const emitToProject = (req, projectId, event, data) => {
+  if (!projectId) return;
+  io.to(getProjectRoom(projectId)).emit(event, {
+    ...data,
+    projectId,
+    originId: req ? req.get('X-Client-Id') || null : null
+  });
+};
+
+// Files being edited together. Each open file has a Yjs document that merges everyone's edits,
+// plus an awareness instance holding each editor's name, cursor and selection.
+const collabDocs = new Map(); // fileId -> { doc, awareness, projectId, clients, saveTimer }
+const loadingCollabDocs = new Map(); // fileId -> promise, so simultaneous joins share one load
+
+const getFileRoom = (fileId) => `file:${fileId}`;
+
+// Get the live document for a file, loading its content from the database on first use.
+// In mock mode the first editor's copy of the content seeds the document.
+const getCollabDoc = async (fileId, projectId, initialContent) => {
+  if (collabDocs.has(fileId)) return collabDocs.get(fileId);
+  if (loadingCollabDocs.has(fileId)) return loadingCollabDocs.get(fileId);
+
+  const loading = (async () => {
+    let content = typeof initialContent === 'string' ? initialContent : '';
+    if (process.env.MONGODB_URI) {
+      const file = await FileSystemNode.findOne({ id: fileId, type: 'file', deletedAt: null });
+      if (!file) {
+        throw new Error('File not found');
+      }
+      content = file.content || '';
+      projectId = file.projectId;
+    }
+
+    const doc = new Y.Doc();
+    doc.getText('content').insert(0, content);
+    const awareness = new awarenessProtocol.Awareness(doc);
+    awareness.setLocalState(null); // The server itself is not an editor
+
+    // lastEditor is whoever sent the most recent change, credited with the next saved revision.
+    // revisionWindow is the revision that saves are folded into for REVISION_COALESCE_MS: { id, editorId, startedAt }.
+    const entry = { doc, awareness, projectId, clients: new Map(), saveTimer: null, lastEditor: null, revisionWindow: null };
+
+    // Relay every change to the other editors and schedule a save
+    doc.on('update', (update, origin) => {
+      const room = io.to(getFileRoom(fileId));
+      (origin?.id ? room.except(origin.id) : room).emit('file-update', { fileId, update });
+      scheduleCollabSave(fileId);
+    });
+
+    // Remember which awareness ids belong to which socket so they can be cleared when it leaves
+    awareness.on('update', ({ added, updated, removed }, origin) => {
+      const changed = [...added, ...updated, ...removed];
+      const clientIds = origin?.id ? entry.clients.get(origin.id) : null;
+      if (clientIds) {
+        added.forEach(clientId => clientIds.add(clientId));
+        removed.forEach(clientId => clientIds.delete(clientId));
+      }
+      // Editors style each other's cursors with the name and colour they send, so relay only checked values
+      [...added, ...updated].forEach(clientId => {
+        const state = awareness.getStates().get(clientId);
+        if (state?.user) {
+          state.user = sanitizeUser(state.user);
+        }
+      });
+      const room = io.to(getFileRoom(fileId));
+      (origin?.id ? room.except(origin.id) : room).emit('file-awareness', {
+        fileId,
+        update: awarenessProtocol.encodeAwarenessUpdate(awareness, changed)
+      });
+    });
+
+    collabDocs.set(fileId, entry);
+    return entry;
+  })();
+
+  loadingCollabDocs.set(fileId, loading);
+  try {
+    return await loading;
+  } finally {
+    loadingCollabDocs.delete(fileId);
+  }
+};
+
+const scheduleCollabSave = (fileId) => {
+  const entry = collabDocs.get(fileId);
+  if (!entry) return;
+  clearTimeout(entry.saveTimer);
+  entry.saveTimer = setTimeout(() => {
+    saveCollabDoc(fileId).catch(error => console.error('Error saving collaborative file:', error));
+  }, COLLAB_SAVE_DELAY);
+};
+
+// Write the document to the file node, then tell its editors and the rest of the project
+const saveCollabDoc = async (fileId) => {
+  const entry = collabDocs.get(fileId);
+  if (!entry) return null;
+  clearTimeout(entry.saveTimer);
+  entry.saveTimer = null;
+
+  const content = entry.doc.getText('content').toString();
+  if (process.env.MONGODB_URI) {
+    const file = await FileSystemNode.findOne({ id: fileId, type: 'file' }, { id: 1, projectId: 1, content: 1, updatedAt: 1 }).lean();
+    if (file) {
+      const editorId = entry.lastEditor?.id ?? null;
+      const current = entry.revisionWindow;
+      const mergeInto = current && current.editorId === editorId && Date.now() - current.startedAt < REVISION_COALESCE_MS
+        ? current.id
+        : null;
+      const revision = await recordRevision(file, content, { author: entry.lastEditor, mergeInto });
+      if (revision.id !== mergeInto) {
+        entry.revisionWindow = { id: revision.id, editorId, startedAt: Date.now() };
+      }
+    }
+    await FileSystemNode.findOneAndUpdate(
+      { id: fileId, type: 'file' },
+      {
+        content,
+        size: calculateFileSize(content),
+        'metadata.lineCount': countLines(content),
+        updatedAt: new Date()
+      }
+    );
+  }
+
+  io.to(getFileRoom(fileId)).emit('file-saved', { fileId, content });
+  emitToProject(null, entry.projectId, 'file-content-updated', { id: fileId, content });
+  return content;
+};
+
+// Content written outside the editor (e.g. POST /api/file/:id) replaces the live document.
+// Only the changed middle part is swapped so remote cursors outside it stay put.
+const replaceCollabContent = (fileId, content) => {
+  const entry = collabDocs.get(fileId);
+  if (!entry || typeof content !== 'string') return;
+
+  const text = entry.doc.getText('content');
+  const current = text.toString();
+  if (current === content) return;
+
+  let start = 0;
+  while (start < current.length && start < content.length && current[start] === content[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < content.length - start &&
+    current[current.length - 1 - end] === content[content.length - 1 - end]
+  ) end++;
+
+  entry.doc.transact(() => {
+    text.delete(start, current.length - start - end);
+    text.insert(start, content.slice(start, content.length - end));
+  });
+};
+
+// Yjs and awareness updates arrive as binary (a Buffer, or an ArrayBuffer from some clients)
+const isBinaryUpdate = (update) => update instanceof Uint8Array || update instanceof ArrayBuffer;
+
+// Take a socket out of a file session. The last editor to leave saves and unloads the document.
+const leaveCollabDoc = async (socket, fileId) => {
+  const entry = collabDocs.get(fileId);
+  socket.leave(getFileRoom(fileId));
+  socket.data.files?.delete(fileId);
+  if (!entry || !entry.clients.has(socket.id)) return;
+
+  const clientIds = [...entry.clients.get(socket.id)];
+  entry.clients.delete(socket.id);
+  awarenessProtocol.removeAwarenessStates(entry.awareness, clientIds, null);
+
+  if (entry.clients.size === 0) {
+    await saveCollabDoc(fileId);
+    // Someone may have joined while we were saving
+    if (entry.clients.size > 0) return;
+    entry.awareness.destroy();
+    entry.doc.destroy();
+    collabDocs.delete(fileId);
+  }
+};
+
+// Who is in each project: projectId -> Map(socketId -> { socketId, id, name, color, fileId, lastActive })
+const projectPresence = new Map();
+
+// Clients pick their own name and colour; keep only what the presence list needs
+const sanitizeUser = (user) => ({
+  id: typeof user?.id === 'string' ? user.id.slice(0, 100) : null,
+  name: typeof user?.name === 'string' && user.name.trim() ? user.name.trim().slice(0, 50) : 'Anonymous',
+  color: typeof user?.color === 'string' && /^#[0-9a-fA-F]{6}$/.test(user.color) ? user.color : '#6b7280'
+});
+
+const broadcastPresence = (projectId) => {
+  const users = [...(projectPresence.get(projectId)?.values() || [])].map(({ lastActive, ...user }) => user);
+  io.to(getProjectRoom(projectId)).emit('presence-updated', { projectId, users });
+};
+
+// Add or refresh a socket in its project's presence list. Returns true if it was not listed before.
+const touchPresence = (socket) => {
+  const { projectId, user } = socket.data;
+  if (!projectId || !user) return false;
+  if (!projectPresence.has(projectId)) projectPresence.set(projectId, new Map());
+  const users = projectPresence.get(projectId);
+  const entry = users.get(socket.id);
+  if (entry) {
+    entry.lastActive = Date.now();
+    return false;
+  }
+  users.set(socket.id, { socketId: socket.id, ...user, fileId: null, lastActive: Date.now() });
+  return true;
+};
+
+// Take a socket out of a project's presence list, closing any file it had open
+const removePresence = (socketId, projectId) => {
+  const users = projectPresence.get(projectId);
+  const entry = users?.get(socketId);
+  if (!entry) return;
+  users.delete(socketId);
+  if (users.size === 0) projectPresence.delete(projectId);
+  if (entry.fileId) {
+    io.to(getProjectRoom(projectId)).emit('user-stopped-editing', { projectId, fileId: entry.fileId, userId: socketId });
+  }
+  broadcastPresence(projectId);
+};
+
+// Drop users that went quiet; their next heartbeat brings them back
+const sweepIdlePresence = () => {
+  const cutoff = Date.now() - PRESENCE_IDLE_TIMEOUT;
+  [...projectPresence.entries()].forEach(([projectId, users]) => {
+    [...users.values()]
+      .filter(entry => entry.lastActive < cutoff)
+      .forEach(entry => removePresence(entry.socketId, projectId));
+  });
+};
+
+setInterval(sweepIdlePresence, PRESENCE_SWEEP_INTERVAL).unref();
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
   console.log(`👤 User connected: ${socket.id}`);
@@ -925,16 +4387,126 @@ io.on('connection', (socket) => {
     console.log(`📁 User ${socket.id} joined workspace: ${workspaceId}`);
   });
 
-  socket.on('file-edit-start', (data) => {
-    socket.to(data.workspaceId).emit('user-editing', {
+  // A socket follows one project at a time: joining a project leaves the previous one
+  socket.on('join-project', (projectId, user) => {
+    if (typeof projectId !== 'string' || !projectId) return;
+    if (socket.data.projectId && socket.data.projectId !== projectId) {
+      socket.leave(getProjectRoom(socket.data.projectId));
+      removePresence(socket.id, socket.data.projectId);
+    }
+    socket.data.projectId = projectId;
+    socket.data.user = sanitizeUser(user);
+    socket.join(getProjectRoom(projectId));
+    touchPresence(socket);
+    broadcastPresence(projectId);
+    console.log(`📁 User ${socket.id} joined project: ${projectId}`);
+  });
+
+  socket.on('leave-project', (projectId) => {
+    socket.leave(getProjectRoom(projectId));
+    removePresence(socket.id, projectId);
+    if (socket.data.projectId === projectId) {
+      socket.data.projectId = null;
+    }
+  });
+
+  // Sent while the user is active, so they don't time out of the presence list
+  socket.on('presence-heartbeat', () => {
+    if (touchPresence(socket)) {
+      broadcastPresence(socket.data.projectId);
+    }
+  });
+
+  // Collaborative editing: join a file's document and get its current state back
+  socket.on('file-join', async ({ fileId, projectId, content } = {}, ack = () => {}) => {
+    try {
+      if (typeof fileId !== 'string' || !fileId) {
+        return ack({ error: 'File id is required' });
+      }
+      const entry = await getCollabDoc(fileId, projectId, content);
+      if (!entry.clients.has(socket.id)) {
+        entry.clients.set(socket.id, new Set());
+      }
+      if (!socket.data.files) socket.data.files = new Set();
+      socket.data.files.add(fileId);
+      socket.join(getFileRoom(fileId));
+
+      ack({
+        docId: entry.doc.guid,
+        update: Y.encodeStateAsUpdate(entry.doc),
+        awareness: awarenessProtocol.encodeAwarenessUpdate(entry.awareness, [...entry.awareness.getStates().keys()])
+      });
+    } catch (error) {
+      console.error('Error joining collaborative file:', error);
+      ack({ error: error.message === 'File not found' ? error.message : 'Failed to open file for editing' });
+    }
+  });
+
+  socket.on('file-update', ({ fileId, update } = {}) => {
+    const entry = collabDocs.get(fileId);
+    if (!entry || !entry.clients.has(socket.id) || !isBinaryUpdate(update)) return;
+    try {
+      entry.lastEditor = socket.data.user || null;
+      Y.applyUpdate(entry.doc, new Uint8Array(update), socket);
+    } catch (error) {
+      console.error('Error applying collaborative update:', error);
+    }
+  });
+
+  socket.on('file-awareness', ({ fileId, update } = {}) => {
+    const entry = collabDocs.get(fileId);
+    if (!entry || !entry.clients.has(socket.id) || !isBinaryUpdate(update)) return;
+    // A malformed update throws while decoding; it must not escape the listener and take the server down
+    try {
+      awarenessProtocol.applyAwarenessUpdate(entry.awareness, new Uint8Array(update), socket);
+    } catch (error) {
+      console.error('Error applying awareness update:', error);
+    }
+  });
+
+  socket.on('file-save', async ({ fileId } = {}, ack = () => {}) => {
+    try {
+      if (!collabDocs.get(fileId)?.clients.has(socket.id)) {
+        return ack({ error: 'File is not open for editing' });
+      }
+      const content = await saveCollabDoc(fileId);
+      ack({ content });
+    } catch (error) {
+      console.error('Error saving collaborative file:', error);
+      ack({ error: 'Failed to save file' });
+    }
+  });
+
+  socket.on('file-leave', ({ fileId } = {}) => {
+    leaveCollabDoc(socket, fileId).catch(error => console.error('Error leaving collaborative file:', error));
+  });
+
+  // Presence: which file each user has open, relayed to everyone else in the project
+  socket.on('file-edit-start', (data = {}) => {
+    const { projectId } = socket.data;
+    if (!projectId || typeof data.fileId !== 'string') return;
+    const rejoined = touchPresence(socket);
+    projectPresence.get(projectId).get(socket.id).fileId = data.fileId;
+    if (rejoined) {
+      broadcastPresence(projectId);
+    }
+
+    socket.to(getProjectRoom(projectId)).emit('user-editing', {
+      projectId,
       fileId: data.fileId,
       userId: socket.id,
-      userName: data.userName || 'Anonymous'
+      userName: socket.data.user.name
     });
   });
 
-  socket.on('file-edit-end', (data) => {
-    socket.to(data.workspaceId).emit('user-stopped-editing', {
+  socket.on('file-edit-end', (data = {}) => {
+    const { projectId } = socket.data;
+    const entry = projectPresence.get(projectId)?.get(socket.id);
+    if (!entry || entry.fileId !== data.fileId) return;
+    entry.fileId = null;
+
+    socket.to(getProjectRoom(projectId)).emit('user-stopped-editing', {
+      projectId,
       fileId: data.fileId,
       userId: socket.id
     });
@@ -942,6 +4514,12 @@ io.on('connection', (socket) => {
 
   socket.on('disconnect', () => {
     console.log(`👋 User disconnected: ${socket.id}`);
+    if (socket.data.projectId) {
+      removePresence(socket.id, socket.data.projectId);
+    }
+    [...(socket.data.files || [])].forEach(fileId => {
+      leaveCollabDoc(socket, fileId).catch(error => console.error('Error leaving collaborative file:', error));
+    });
   });
 });
 
@@ -1006,9 +4584,9 @@ app.get('/api/file/:id', asyncHandler(async (req, res) => {
       }
 
       // Update metadata
-      file.metadata.lineCount = countLines(file.content || '');
-      file.metadata.language = getLanguageFromExtension(file.name);
-      file.size = calculateFileSize(file.content || '');
+      const { size, metadata } = describeFileContent(file.name, file.content || '', file.binary);
+      Object.assign(file.metadata, metadata);
+      file.size = size;
 
       res.json(file);
     } else {
@@ -1157,12 +4735,9 @@ app.post('/api/tree', asyncHandler(async (req, res) => {
 
             // Calculate metadata for files
             if (nodeData.type === 'file') {
-              nodeData.size = calculateFileSize(nodeData.content || '');
-              nodeData.metadata = {
-                ...nodeData.metadata,
-                lineCount: countLines(nodeData.content || ''),
-                language: getLanguageFromExtension(nodeData.name)
-              };
+              const { size, metadata } = describeFileContent(nodeData.name, nodeData.content || '', !!nodeData.binary);
+              nodeData.size = size;
+              nodeData.metadata = { ...nodeData.metadata, ...metadata };
             }
 
             flatNodes.push({
@@ -1225,33 +4800,82 @@ app.get('/api/health', (req, res) => {
   });
 });
 
-// Search nodes endpoint
+// Search node names and text file contents for a literal, case-insensitive query in one project (projectId),
+// narrowed with type ('file' | 'folder') and language.
 app.get('/api/search', asyncHandler(async (req, res) => {
   try {
-    const { q: query, projectId } = req.query;
+    const { q: query, projectId, type, language } = req.query;
 
-    if (!query) {
+    if (typeof query !== 'string' || !query.trim()) {
       return res.status(400).json({ error: 'Query parameter "q" is required' });
     }
 
+    // Repeated or bracketed parameters (projectId[$ne]=x) arrive as arrays and objects, which would be query operators
+    if (typeof projectId !== 'string' || !projectId) {
+      return res.status(400).json({ error: 'Query parameter "projectId" is required' });
+    }
+
+    if (type && !['file', 'folder'].includes(type)) {
+      return res.status(400).json({ error: 'Type must be either "file" or "folder"' });
+    }
+
+    if (language !== undefined && typeof language !== 'string') {
+      return res.status(400).json({ error: 'Language must be a string' });
+    }
+
     if (process.env.MONGODB_URI) {
+      const pattern = new RegExp(escapeRegExp(query), 'i');
       const searchFilter = {
+        projectId,
+        deletedAt: null,
         $or: [
-          { name: new RegExp(query, 'i') },
-          { content: new RegExp(query, 'i') }
+          { name: pattern },
+          // Binary contents are base64, so matches in them mean nothing
+          { content: pattern, binary: { $ne: true } }
         ]
       };
 
-      // Add project filter if specified
-      if (projectId) {
-        searchFilter.projectId = projectId;
+      if (type) {
+        searchFilter.type = type;
+      }
+      if (language) {
+        searchFilter['metadata.language'] = language;
       }
 
-      const results = await FileSystemNode.find(searchFilter).limit(50);
-      res.json(results);
+      const nodes = await FileSystemNode.find(searchFilter, { _id: 0, __v: 0 })
+        .sort({ name: 1 })
+        .limit(SEARCH_MAX_RESULTS + 1)
+        .lean();
+      const found = nodes.slice(0, SEARCH_MAX_RESULTS);
+
+      // Paths need every folder above the results
+      const folders = await FileSystemNode.find(
+        { projectId, type: 'folder', deletedAt: null },
+        { id: 1, name: 1, parentId: 1 }
+      ).lean();
+      const paths = getNodePaths([...folders, ...found]);
+
+      const results = found
+        .map(({ content, ...node }) => ({
+          id: node.id,
+          projectId: node.projectId,
+          type: node.type,
+          name: node.name,
+          parentId: node.parentId,
+          binary: !!node.binary,
+          metadata: node.metadata,
+          path: paths.get(node.id),
+          nameMatch: pattern.test(node.name),
+          ...(node.type === 'file' && !node.binary
+            ? findLineMatches(content || '', pattern)
+            : { matches: [], matchCount: 0 })
+        }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+
+      res.json({ query, results, count: results.length, truncated: nodes.length > SEARCH_MAX_RESULTS });
     } else {
       // Mock search results
-      res.json([]);
+      res.json({ query, results: [], count: 0, truncated: false });
     }
   } catch (error) {
     console.error('Error searching nodes:', error);
@@ -1259,14 +4883,212 @@ app.get('/api/search', asyncHandler(async (req, res) => {
   }
 }));
 
+// Preview a find and replace across a project's text files: each line that would change, before and after,
+// grouped by file. Binary files are skipped. Apply the changes picked from the preview with POST .../replace.
+app.post('/api/projects/:projectId/replace/preview', asyncHandler(async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { replace = '', regex = false, include = [], exclude = [] } = req.body;
+
+    const { pattern, error } = buildReplacePattern(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (typeof replace !== 'string') {
+      return res.status(400).json({ error: 'Replacement must be a string' });
+    }
+    const pathFilter = buildPathFilter(include, exclude);
+    if (pathFilter.error) {
+      return res.status(400).json({ error: pathFilter.error });
+    }
+
+    if (process.env.MONGODB_URI) {
+      // Matched here rather than in the query, since MongoDB's regular expressions are not JavaScript's
+      const nodes = await FileSystemNode.find(
+        { projectId, deletedAt: null, $or: [{ type: 'folder' }, { type: 'file', binary: { $ne: true } }] },
+        { _id: 0, __v: 0 }
+      ).lean();
+      const paths = getNodePaths(nodes);
+      const textFiles = nodes
+        .filter(node => node.type === 'file')
+        .map(node => ({ node, path: paths.get(node.id) }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+
+      // Filters see paths below the project root folder
+      const filtered = textFiles.filter(({ path }) => pathFilter.test(path.slice(path.indexOf('/') + 1)));
+      const replaced = await replaceInFiles(filtered.map(({ node }) => ({ content: node.content || '' })), {
+        pattern, replacement: replace, regex, clipLength: SEARCH_MAX_LINE_LENGTH, timeout: REPLACE_TIMEOUT_MS
+      });
+      if (replaced.error) {
+        return res.status(400).json({ error: replaced.error });
+      }
+
+      const files = [];
+      let truncated = false;
+      for (const [index, { node, path }] of filtered.entries()) {
+        const result = replaced.results[index];
+        if (result.error) {
+          return res.status(400).json({ error: result.error });
+        }
+        if (result.changes.length === 0) continue;
+        if (files.length >= REPLACE_MAX_FILES) {
+          truncated = true;
+          break;
+        }
+        files.push({
+          id: node.id,
+          name: node.name,
+          path,
+          updatedAt: node.updatedAt,
+          changes: result.changes,
+          matchCount: result.replacedCount
+        });
+      }
+
+      res.json({
+        files,
+        fileCount: files.length,
+        matchCount: files.reduce((count, file) => count + file.matchCount, 0),
+        truncated
+      });
+    } else {
+      res.json({ files: [], fileCount: 0, matchCount: 0, truncated: false });
+    }
+  } catch (error) {
+    console.error('Error previewing replace:', error);
+    res.status(500).json({ error: 'Failed to preview replace' });
+  }
+}));
+
+// Apply a find and replace to the files, and optionally just the lines, picked from its preview. Takes the
+// preview's options plus files: [{ id, updatedAt, lines? }]. It is all or nothing: if any file changed since
+// the preview (its updatedAt differs), nothing is replaced and the response is 409 so the client can preview
+// again. Each file is saved like POST /api/file/:id, with a 'replace' revision in its history.
+app.post('/api/projects/:projectId/replace', asyncHandler(async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { replace = '', regex = false, files, author } = req.body;
+
+    const { pattern, error } = buildReplacePattern(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (typeof replace !== 'string') {
+      return res.status(400).json({ error: 'Replacement must be a string' });
+    }
+    if (!Array.isArray(files) || files.length === 0) {
+      return res.status(400).json({ error: 'files must be a non-empty array' });
+    }
+    if (files.length > REPLACE_MAX_FILES) {
+      return res.status(400).json({ error: `At most ${REPLACE_MAX_FILES} files can be changed at once` });
+    }
+    const isValidTarget = (target) => typeof target?.id === 'string' &&
+      (target.lines === undefined || (Array.isArray(target.lines) && target.lines.every(line => Number.isInteger(line) && line > 0)));
+    if (!files.every(isValidTarget)) {
+      return res.status(400).json({ error: 'Each file needs an id and, optionally, an array of line numbers' });
+    }
+
+    if (process.env.MONGODB_URI) {
+      // Start transaction so either every chosen file is changed or none is
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      try {
+        const nodes = await FileSystemNode.find(
+          { projectId, id: { $in: files.map(target => target.id) }, type: 'file', deletedAt: null }
+        ).session(session).lean();
+        const nodeMap = new Map(nodes.map(node => [node.id, node]));
+
+        const missing = files.filter(target => !nodeMap.get(target.id) || nodeMap.get(target.id).binary);
+        if (missing.length > 0) {
+          await session.abortTransaction();
+          return res.status(404).json({
+            error: 'Some files no longer exist or are not text files',
+            ids: missing.map(target => target.id)
+          });
+        }
+        const changed = files.filter(target => target.updatedAt &&
+          new Date(target.updatedAt).getTime() !== new Date(nodeMap.get(target.id).updatedAt).getTime());
+        if (changed.length > 0) {
+          await session.abortTransaction();
+          return res.status(409).json({
+            error: 'Some files changed since the preview; preview the replace again',
+            ids: changed.map(target => target.id)
+          });
+        }
+
+        const replaced = await replaceInFiles(
+          files.map(target => ({ content: nodeMap.get(target.id).content || '', lines: target.lines || null })),
+          { pattern, replacement: replace, regex, clipLength: SEARCH_MAX_LINE_LENGTH, timeout: REPLACE_TIMEOUT_MS }
+        );
+        if (replaced.error) {
+          await session.abortTransaction();
+          return res.status(400).json({ error: replaced.error });
+        }
+
+        const user = author ? sanitizeUser(author) : null;
+        const updatedFiles = [];
+        let replacedCount = 0;
+        for (const [index, target] of files.entries()) {
+          const file = nodeMap.get(target.id);
+          const result = replaced.results[index];
+          if (result.error) {
+            await session.abortTransaction();
+            return res.status(400).json({ error: result.error });
+          }
+          if (result.changes.length === 0) continue;
+
+          await recordRevision(file, result.content, { author: user, source: 'replace' }, session);
+          const updatedNode = await FileSystemNode.findOneAndUpdate(
+            { id: file.id, projectId },
+            {
+              content: result.content,
+              size: calculateFileSize(result.content),
+              'metadata.lineCount': countLines(result.content),
+              updatedAt: new Date()
+            },
+            { new: true, session }
+          );
+          updatedFiles.push(updatedNode);
+          replacedCount += result.replacedCount;
+        }
+
+        await session.commitTransaction();
+
+        // Emit real-time update
+        updatedFiles.forEach(file => {
+          emitToProject(req, projectId, 'file-content-updated', { id: file.id, content: file.content });
+          replaceCollabContent(file.id, file.content);
+        });
+
+        res.json({
+          message: `Replaced ${replacedCount} ${replacedCount === 1 ? 'match' : 'matches'} in ${updatedFiles.length} ${updatedFiles.length === 1 ? 'file' : 'files'}`,
+          files: updatedFiles,
+          replacedCount
+        });
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } else {
+      res.json({ message: 'Nothing replaced (mock mode)', files: [], replacedCount: 0 });
+    }
+  } catch (error) {
+    console.error('Error applying replace:', error);
+    res.status(500).json({ error: 'Failed to apply replace' });
+  }
+}));
+
 // Statistics endpoint
 app.get('/api/stats', asyncHandler(async (req, res) => {
   try {
     if (process.env.MONGODB_URI) {
       const totalProjects = await Project.countDocuments({ isActive: true });
-      const totalNodes = await FileSystemNode.countDocuments();
-      const totalFiles = await FileSystemNode.countDocuments({ type: 'file' });
-      const totalFolders = await FileSystemNode.countDocuments({ type: 'folder' });
+      const totalNodes = await FileSystemNode.countDocuments({ deletedAt: null });
+      const totalFiles = await FileSystemNode.countDocuments({ type: 'file', deletedAt: null });
+      const totalFolders = await FileSystemNode.countDocuments({ type: 'folder', deletedAt: null });
 
       res.json({
         projects: totalProjects,
@@ -1349,7 +5171,7 @@ app.post('/api/node', asyncHandler(async (req, res) => {
 
     // Check for name conflicts
     if (mongoose.connection.readyState === 1) {
-      const existingNode = await FileSystemNode.findOne({ name, parentId });
+      const existingNode = await FileSystemNode.findOne({ name, parentId, deletedAt: null });
       if (existingNode) {
         return res.status(409).json({ error: 'A node with this name already exists in the parent folder' });
       }
@@ -1425,49 +5247,28 @@ app.delete('/api/node/:id', asyncHandler(async (req, res) => {
 
       try {
         // Get the node to be deleted
-        const nodeToDelete = await FileSystemNode.findOne({ id }, null, { session });
+        const nodeToDelete = await FileSystemNode.findOne({ id, deletedAt: null }, null, { session });
         if (!nodeToDelete) {
           await session.abortTransaction();
           return res.status(404).json({ error: 'Node not found' });
         }
 
-        // Function to recursively collect all descendant IDs
-        const collectDescendants = async (nodeId) => {
-          const descendants = [];
-          const children = await FileSystemNode.find({ parentId: nodeId }, null, { session });
-
-          for (const child of children) {
-            descendants.push(child.id);
-            const childDescendants = await collectDescendants(child.id);
-            descendants.push(...childDescendants);
-          }
-
-          return descendants;
-        };
-
-        // Collect all nodes to be deleted (including descendants)
-        const allNodesToDelete = [id];
-        const descendants = await collectDescendants(id);
-        allNodesToDelete.push(...descendants);
-
-        // Delete all nodes
-        const deleteResult = await FileSystemNode.deleteMany(
-          { id: { $in: allNodesToDelete } },
-          { session }
-        );
+        // Move the node and all its descendants to the trash
+        const allNodesToDelete = await trashNodes([id], nodeToDelete.projectId, session);
+        const descendants = allNodesToDelete.slice(1);
 
         await session.commitTransaction();
 
         // Emit real-time update
         io.emit('node-deleted', {
           deletedNodeId: id,
-          deletedCount: deleteResult.deletedCount,
+          deletedCount: allNodesToDelete.length,
           descendantIds: descendants
         });
 
         res.json({
-          message: 'Node deleted successfully',
-          deletedCount: deleteResult.deletedCount,
+          message: 'Node moved to trash',
+          deletedCount: allNodesToDelete.length,
           deletedNodes: allNodesToDelete
         });
       } catch (error) {
@@ -0,0 +1,80 @@
+// Find and replace over file contents.
+//
+// A regex from the request can take exponential time on some input, so the matching runs in a worker
+// thread that is stopped when it takes too long, rather than on the server's event loop. This module is
+// both: index.js imports replaceInFiles, and the worker it starts runs this file again.
+import { Worker, isMainThread, parentPort } from 'worker_threads';
+
+// Replace the matches on the given lines of a text file (every line when lines is null). Like search,
+// matches do not span lines. In regex mode the replacement can use $1, $<name> and $&; otherwise it is
+// literal. Returns the new content and a preview of each changed line, cut to clipLength characters, or
+// { error } for a pattern that matches empty text, which would insert the replacement between every character.
+const replaceInLines = (content, pattern, replacement, { regex = false, lines = null, clipLength }) => {
+  const chosen = lines ? new Set(lines) : null;
+  const literal = regex ? replacement : replacement.replace(/\$/g, '$$$$');
+  const clip = (text, start) => text.slice(start, start + clipLength);
+  const changes = [];
+  let emptyMatch = false;
+
+  const updated = content.split('\n').map((raw, index) => {
+    const line = index + 1;
+    if (chosen && !chosen.has(line)) return raw;
+    const eol = raw.endsWith('\r') ? '\r' : '';
+    const text = eol ? raw.slice(0, -1) : raw;
+    const matches = [...text.matchAll(pattern)];
+    if (matches.length === 0) return raw;
+    if (matches.some(match => match[0] === '')) {
+      emptyMatch = true;
+      return raw;
+    }
+
+    const after = text.replace(pattern, literal);
+    // Long lines are cut to a window starting a little before the first match, which is where both versions first differ
+    const start = Math.max(0, matches[0].index - 40);
+    changes.push({
+      line,
+      count: matches.length,
+      before: clip(text, start),
+      after: clip(after, start),
+      clippedStart: start > 0
+    });
+    return after + eol;
+  }).join('\n');
+
+  if (emptyMatch) {
+    return { error: 'The pattern matches empty text; make it match at least one character' };
+  }
+  return { content: updated, changes, replacedCount: changes.reduce((count, change) => count + change.count, 0) };
+};
+
+// Run replaceInLines over files ([{ content, lines? }]) in a worker. Resolves to { results } in the order of
+// files, or { error } when the pattern did not finish within timeout milliseconds.
+export const replaceInFiles = (files, { pattern, replacement, regex, clipLength, timeout }) => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL(import.meta.url));
+    const timer = setTimeout(() => {
+      worker.terminate();
+      resolve({ error: 'The pattern took too long to run; make it simpler' });
+    }, timeout);
+    const finish = () => clearTimeout(timer);
+
+    worker.once('message', (results) => {
+      finish();
+      worker.terminate();
+      resolve({ results });
+    });
+    worker.once('error', (error) => {
+      finish();
+      reject(error);
+    });
+    worker.postMessage({ files, source: pattern.source, flags: pattern.flags, replacement, regex, clipLength });
+  });
+};
+
+if (!isMainThread) {
+  parentPort.once('message', ({ files, source, flags, replacement, regex, clipLength }) => {
+    const pattern = new RegExp(source, flags);
+    parentPort.postMessage(files.map(({ content, lines = null }) =>
+      replaceInLines(content, pattern, replacement, { regex, lines, clipLength })));
+  });
+}
@@ -0,0 +1,506 @@
+// Built-in project templates offered when creating a project.
+//
+// Each template lists its files by path from the project root; folders are implied by the paths. File
+// contents and path segments may use these placeholders, filled in when a project is created:
+//   {{projectName}}  the project name as entered
+//   {{projectSlug}}  the name in kebab-case, e.g. "my-web-app"
+//   {{packageName}}  the name as a Python identifier, e.g. "my_web_app"
+//   {{description}}  the project description
+//   {{year}}         the current year
+//   {{date}}         today's date, e.g. "2025-01-31"
+
+const reactVite = {
+  id: 'react-vite',
+  name: 'React + Vite',
+  description: 'A single-page React app with Vite for the dev server and builds.',
+  icon: 'atom',
+  files: {
+    'package.json': `{
+  "name": "{{projectSlug}}",
+  "private": true,
+  "version": "0.1.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "react": "^19.0.0",
+    "react-dom": "^19.0.0"
+  },
+  "devDependencies": {
+    "@vitejs/plugin-react": "^4.3.4",
+    "vite": "^6.0.0"
+  }
+}
+`,
+    'index.html': `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{projectName}}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`,
+    'vite.config.js': `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+    'README.md': `# {{projectName}}
+
+{{description}}
+
+## Development
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+Build for production with \`npm run build\` and preview the build with \`npm run preview\`.
+`,
+    '.gitignore': `node_modules
+dist
+*.local
+`,
+    'src/main.jsx': `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App.jsx';
+import './index.css';
+
+createRoot(document.getElementById('root')).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+    'src/App.jsx': `import { useState } from 'react';
+import './App.css';
+
+function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main className="app">
+      <h1>{{projectName}}</h1>
+      <button onClick={() => setCount((value) => value + 1)}>
+        Clicked {count} times
+      </button>
+    </main>
+  );
+}
+
+export default App;
+`,
+    'src/App.css': `.app {
+  max-width: 40rem;
+  margin: 4rem auto;
+  text-align: center;
+}
+
+button {
+  padding: 0.5rem 1rem;
+  border-radius: 0.5rem;
+  border: 1px solid #ccc;
+  cursor: pointer;
+}
+`,
+    'src/index.css': `:root {
+  font-family: system-ui, sans-serif;
+  color: #1f2937;
+  background: #f9fafb;
+}
+
+body {
+  margin: 0;
+}
+`,
+    'public/.gitkeep': ''
+  }
+};
+
+const expressApi = {
+  id: 'express-api',
+  name: 'Express API',
+  description: 'A JSON REST API on Express with routing, error handling and environment config.',
+  icon: 'server',
+  files: {
+    'package.json': `{
+  "name": "{{projectSlug}}",
+  "version": "0.1.0",
+  "description": "{{description}}",
+  "type": "module",
+  "main": "src/index.js",
+  "scripts": {
+    "start": "node src/index.js",
+    "dev": "node --watch src/index.js"
+  },
+  "dependencies": {
+    "dotenv": "^16.4.5",
+    "express": "^4.21.0"
+  }
+}
+`,
+    'README.md': `# {{projectName}}
+
+{{description}}
+
+## Running
+
+\`\`\`bash
+cp .env.example .env
+npm install
+npm run dev
+\`\`\`
+
+## Endpoints
+
+| Method | Path | Description |
+|--------|------|-------------|
+| GET | \`/health\` | Health check |
+| GET | \`/api/items\` | List items |
+| POST | \`/api/items\` | Create an item |
+| GET | \`/api/items/:id\` | Get one item |
+`,
+    '.env.example': `PORT=3000
+`,
+    '.gitignore': `node_modules
+.env
+`,
+    'src/index.js': `import 'dotenv/config';
+import app from './app.js';
+
+const port = process.env.PORT || 3000;
+
+app.listen(port, () => {
+  console.log(\`{{projectName}} listening on http://localhost:\${port}\`);
+});
+`,
+    'src/app.js': `import express from 'express';
+import healthRouter from './routes/health.js';
+import itemsRouter from './routes/items.js';
+import { errorHandler, notFound } from './middleware/errors.js';
+
+const app = express();
+
+app.use(express.json());
+
+app.use('/health', healthRouter);
+app.use('/api/items', itemsRouter);
+
+app.use(notFound);
+app.use(errorHandler);
+
+export default app;
+`,
+    'src/routes/health.js': `import { Router } from 'express';
+
+const router = Router();
+
+router.get('/', (req, res) => {
+  res.json({ status: 'ok', uptime: process.uptime() });
+});
+
+export default router;
+`,
+    'src/routes/items.js': `import { Router } from 'express';
+
+const router = Router();
+const items = new Map();
+let nextId = 1;
+
+router.get('/', (req, res) => {
+  res.json([...items.values()]);
+});
+
+router.post('/', (req, res) => {
+  const { name } = req.body;
+  if (!name) {
+    return res.status(400).json({ error: 'name is required' });
+  }
+  const item = { id: String(nextId++), name };
+  items.set(item.id, item);
+  res.status(201).json(item);
+});
+
+router.get('/:id', (req, res) => {
+  const item = items.get(req.params.id);
+  if (!item) {
+    return res.status(404).json({ error: 'Item not found' });
+  }
+  res.json(item);
+});
+
+export default router;
+`,
+    'src/middleware/errors.js': `export const notFound = (req, res) => {
+  res.status(404).json({ error: \`No route for \${req.method} \${req.path}\` });
+};
+
+// eslint-disable-next-line no-unused-vars
+export const errorHandler = (error, req, res, next) => {
+  console.error(error);
+  res.status(error.status || 500).json({ error: error.message || 'Internal server error' });
+};
+`
+  }
+};
+
+const pythonPackage = {
+  id: 'python-package',
+  name: 'Python Package',
+  description: 'An installable Python package with a src layout, pyproject.toml and pytest tests.',
+  icon: 'package',
+  files: {
+    'pyproject.toml': `[build-system]
+requires = ["hatchling"]
+build-backend = "hatchling.build"
+
+[project]
+name = "{{projectSlug}}"
+version = "0.1.0"
+description = "{{description}}"
+readme = "README.md"
+requires-python = ">=3.9"
+
+[project.optional-dependencies]
+dev = ["pytest>=8"]
+
+[tool.hatch.build.targets.wheel]
+packages = ["src/{{packageName}}"]
+
+[tool.pytest.ini_options]
+testpaths = ["tests"]
+`,
+    'README.md': `# {{projectName}}
+
+{{description}}
+
+## Development
+
+\`\`\`bash
+python -m venv .venv
+source .venv/bin/activate
+pip install -e ".[dev]"
+pytest
+\`\`\`
+
+## Usage
+
+\`\`\`python
+from {{packageName}} import greet
+
+print(greet("world"))
+\`\`\`
+`,
+    'LICENSE': `MIT License
+
+Copyright (c) {{year}}
+
+Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal
+in the Software without restriction, including without limitation the rights
+to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+copies of the Software, and to permit persons to whom the Software is
+furnished to do so, subject to the following conditions:
+
+The above copyright notice and this permission notice shall be included in all
+copies or substantial portions of the Software.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+SOFTWARE.
+`,
+    '.gitignore': `__pycache__/
+*.py[cod]
+.venv/
+dist/
+*.egg-info/
+.pytest_cache/
+`,
+    'src/{{packageName}}/__init__.py': `"""{{projectName}}: {{description}}"""
+
+from .core import greet
+
+__all__ = ["greet"]
+__version__ = "0.1.0"
+`,
+    'src/{{packageName}}/core.py': `def greet(name: str) -> str:
+    """Return a greeting for name."""
+    return f"Hello, {name}!"
+`,
+    'tests/test_core.py': `from {{packageName}} import greet
+
+
+def test_greet():
+    assert greet("world") == "Hello, world!"
+`
+  }
+};
+
+const docsSite = {
+  id: 'docs-site',
+  name: 'Documentation Site',
+  description: 'A Markdown documentation site built with MkDocs and the Material theme.',
+  icon: 'book',
+  files: {
+    'mkdocs.yml': `site_name: {{projectName}}
+site_description: {{description}}
+copyright: Copyright &copy; {{year}}
+
+theme:
+  name: material
+  features:
+    - navigation.sections
+    - search.highlight
+
+nav:
+  - Home: index.md
+  - Getting Started: getting-started.md
+  - Guides:
+      - Configuration: guides/configuration.md
+  - Reference:
+      - API: reference/api.md
+
+markdown_extensions:
+  - admonition
+  - toc:
+      permalink: true
+`,
+    'requirements.txt': `mkdocs>=1.6
+mkdocs-material>=9.5
+`,
+    'README.md': `# {{projectName}} docs
+
+Preview the site locally:
+
+\`\`\`bash
+pip install -r requirements.txt
+mkdocs serve
+\`\`\`
+
+Build the static site into \`site/\` with \`mkdocs build\`.
+`,
+    '.gitignore': `site/
+`,
+    'docs/index.md': `# {{projectName}}
+
+{{description}}
+
+Start with [Getting Started](getting-started.md), or jump to the [API reference](reference/api.md).
+`,
+    'docs/getting-started.md': `# Getting Started
+
+Walk a new reader through installing and using {{projectName}} for the first time.
+
+## Installation
+
+Describe how to install it here.
+
+## First steps
+
+!!! tip
+    Keep each step short and show the expected result.
+`,
+    'docs/guides/configuration.md': `# Configuration
+
+List each option with its default value and what it changes.
+
+| Option | Default | Description |
+|--------|---------|-------------|
+| \`example\` | \`true\` | Describe the option |
+`,
+    'docs/reference/api.md': `# API Reference
+
+Document each public function, endpoint or command here.
+
+_Last updated {{date}}._
+`
+  }
+};
+
+// Values for the placeholders documented at the top of this file
+export const getTemplateValues = ({ name, description }) => {
+  const words = String(name).toLowerCase().match(/[a-z0-9]+/g) || [];
+  const slug = words.join('-') || 'project';
+  const packageName = words.join('_') || 'project';
+  const today = new Date().toISOString().slice(0, 10);
+
+  return {
+    projectName: String(name),
+    projectSlug: slug,
+    packageName: /^[0-9]/.test(packageName) ? `_${packageName}` : packageName,
+    description: String(description || ''),
+    year: today.slice(0, 4),
+    date: today
+  };
+};
+
+// Characters that continue each form of the name. A form only matches on its own, so a project named "api"
+// leaves "rapid", "/api/" and "api_client" alone; a slug also runs on through hyphens.
+const NAME_CONTINUES = {
+  projectName: '\\w/',
+  projectSlug: '\\w/-',
+  packageName: '\\w/'
+};
+
+// Replace a project's name, slug and package name in text with their placeholders, the reverse of filling
+// a template in. Forms shorter than three characters are left alone, as they match too much.
+export const parameterizeProjectName = (projectName) => {
+  const values = getTemplateValues({ name: projectName });
+  // When forms coincide ("demo"), the plain project name wins
+  const replacements = new Map();
+  for (const key of ['projectName', 'projectSlug', 'packageName']) {
+    if (values[key].length >= 3 && !replacements.has(values[key])) {
+      replacements.set(values[key], key);
+    }
+  }
+  if (replacements.size === 0) {
+    return (text) => text;
+  }
+
+  const pattern = new RegExp(
+    [...replacements]
+      .sort(([a], [b]) => b.length - a.length)
+      .map(([value, key]) => {
+        const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return `(?<![${NAME_CONTINUES[key]}])${escaped}(?![${NAME_CONTINUES[key]}])`;
+      })
+      .join('|'),
+    'g'
+  );
+  return (text) => text.replace(pattern, match => `{{${replacements.get(match)}}}`);
+};
+
+// A template's folders, derived from the paths of its files
+const listFolders = (paths) => {
+  const folders = new Set();
+  for (const path of paths) {
+    const segments = path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      folders.add(segments.slice(0, i).join('/'));
+    }
+  }
+  return [...folders];
+};
+
+export const BUILT_IN_TEMPLATES = [reactVite, expressApi, pythonPackage, docsSite].map(({ files, ...template }) => ({
+  ...template,
+  builtIn: true,
+  folders: listFolders(Object.keys(files)),
+  files: Object.entries(files).map(([path, content]) => ({ path, content })),
+  layout: []
+}));
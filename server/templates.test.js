@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parameterizeProjectName } from './templates.js';
+
+test('a short project name is only replaced where it stands on its own', () => {
+  const parameterize = parameterizeProjectName('api');
+  assert.equal(parameterize('{ "name": "api" }'), '{ "name": "{{projectName}}" }');
+  assert.equal(parameterize('rapid prototyping'), 'rapid prototyping');
+  assert.equal(parameterize("app.use('/api/users', router);"), "app.use('/api/users', router);");
+  assert.equal(parameterize('import api_client'), 'import api_client');
+});
+
+test('the slug and package name forms are replaced with their placeholders', () => {
+  const parameterize = parameterizeProjectName('My Web App');
+  assert.equal(parameterize('# My Web App'), '# {{projectName}}');
+  assert.equal(parameterize('"name": "my-web-app"'), '"name": "{{projectSlug}}"');
+  assert.equal(parameterize('from my_web_app import main'), 'from {{packageName}} import main');
+  assert.equal(parameterize('my-web-app-server'), 'my-web-app-server');
+});
+
+test('names shorter than three characters are left alone', () => {
+  assert.equal(parameterizeProjectName('ui')('ui/button.tsx'), 'ui/button.tsx');
+});
+
+test('a name whose forms coincide is replaced as the project name', () => {
+  const parameterize = parameterizeProjectName('demo');
+  assert.equal(parameterize('demo'), '{{projectName}}');
+  assert.equal(parameterize('to demonstrate'), 'to demonstrate');
+});